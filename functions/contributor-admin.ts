@@ -0,0 +1,235 @@
+import { createSupabaseClient, createSupabaseMonthStore } from './github-webhook'
+import type { Env } from './github-webhook'
+import { errorResponse, forbiddenResponse, getAdmin, jsonResponse, unauthorizedResponse } from './webhook-admin'
+import { getMonthRange, recomputeMonth } from '../scripts/utils/month-stats'
+
+// Fields the admin page can change, in the order the audit log lists them
+const EDITABLE_FIELDS = ['name', 'cursorEmail', 'teamId', 'excludeFromLeaderboard', 'deactivatedAt'] as const;
+
+type EditableField = typeof EDITABLE_FIELDS[number];
+type FieldValue = string | boolean | null;
+type Changes = Partial<Record<EditableField, { from: FieldValue; to: FieldValue }>>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const CONTRIBUTOR_FIELDS = 'id, name, githubUserId, githubLogin, avatarUrl, cursorEmail, teamId, excludeFromLeaderboard, deactivatedAt, createdAt, updatedAt';
+
+// GET: the contributors of the teams the caller is an admin of, or with ?contributorId=...
+// that contributor's audit log, newest first, with who made each change. Contributors
+// belong to the team they were first seen in.
+async function list(request: Request, env: Env, adminTeamIds: string[]) {
+  const contributorId = new URL(request.url).searchParams.get('contributorId');
+  const supabase = createSupabaseClient(env);
+
+  if (contributorId) {
+    const { data: contributor, error: contributorError } = await supabase
+      .from('Contributor')
+      .select('teamId')
+      .eq('id', contributorId)
+      .maybeSingle();
+    if (contributorError) throw contributorError;
+    if (!contributor) {
+      return errorResponse(404, 'Not Found', `Contributor ${contributorId} doesn't exist`);
+    }
+    if (!adminTeamIds.includes(contributor.teamId)) {
+      return forbiddenResponse(contributor.teamId);
+    }
+
+    const { data: entries, error } = await supabase
+      .from('ContributorAuditLog')
+      .select('id, changes, actorGithubUserId, createdAt')
+      .eq('contributorId', contributorId)
+      .order('createdAt', { ascending: false });
+    if (error) throw error;
+
+    // Changes are made by team admins, so their logins come from TeamMember
+    const actorIds = [...new Set(entries.map(entry => entry.actorGithubUserId).filter((id): id is string => !!id))];
+    const { data: actors, error: actorsError } = await supabase
+      .from('TeamMember')
+      .select('githubUserId, githubLogin')
+      .in('githubUserId', actorIds);
+    if (actorsError) throw actorsError;
+    const actorLogins = new Map(actors.map(actor => [actor.githubUserId, actor.githubLogin]));
+
+    const auditLog = entries.map(entry => ({
+      ...entry,
+      actorLogin: (entry.actorGithubUserId && actorLogins.get(entry.actorGithubUserId)) || null
+    }));
+    return jsonResponse({ success: true, data: { auditLog } });
+  }
+
+  const { data: contributors, error } = await supabase
+    .from('Contributor')
+    .select(CONTRIBUTOR_FIELDS)
+    .in('teamId', adminTeamIds)
+    .order('githubLogin');
+  if (error) throw error;
+  return jsonResponse({ success: true, data: { contributors } });
+}
+
+// PATCH: update a contributor ({ "id": "...", "name": "...", "cursorEmail": "...", "teamId": "...",
+// "excludeFromLeaderboard": true, "deactivated": true }). Only the fields given are changed,
+// and what actually changed is written to the audit log along with who changed it.
+async function update(request: Request, env: Env, adminTeamIds: string[], actorGithubUserId: string) {
+  let body: {
+    id?: unknown;
+    name?: unknown;
+    cursorEmail?: unknown;
+    teamId?: unknown;
+    excludeFromLeaderboard?: unknown;
+    deactivated?: unknown;
+  };
+  try {
+    body = await request.json() as typeof body;
+  } catch {
+    return errorResponse(400, 'Bad Request', 'Request body must be JSON');
+  }
+
+  if (typeof body.id !== 'string' || !body.id) {
+    return errorResponse(400, 'Bad Request', '"id" is required');
+  }
+  if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+    return errorResponse(400, 'Bad Request', '"name" must be a non-empty string');
+  }
+  if (body.cursorEmail !== undefined && body.cursorEmail !== null &&
+      (typeof body.cursorEmail !== 'string' || (body.cursorEmail.trim() && !EMAIL_PATTERN.test(body.cursorEmail.trim())))) {
+    return errorResponse(400, 'Bad Request', '"cursorEmail" must be an email address or null');
+  }
+  if (body.teamId !== undefined && (typeof body.teamId !== 'string' || !body.teamId)) {
+    return errorResponse(400, 'Bad Request', '"teamId" must be a team id');
+  }
+  for (const field of ['excludeFromLeaderboard', 'deactivated'] as const) {
+    if (body[field] !== undefined && typeof body[field] !== 'boolean') {
+      return errorResponse(400, 'Bad Request', `"${field}" must be true or false`);
+    }
+  }
+
+  const supabase = createSupabaseClient(env);
+  const { data: contributor, error: contributorError } = await supabase
+    .from('Contributor')
+    .select(CONTRIBUTOR_FIELDS)
+    .eq('id', body.id)
+    .maybeSingle();
+  if (contributorError) throw contributorError;
+  if (!contributor) {
+    return errorResponse(404, 'Not Found', `Contributor ${body.id} doesn't exist`);
+  }
+  // Moving a contributor needs admin rights on both teams
+  for (const teamId of [contributor.teamId, body.teamId]) {
+    if (typeof teamId === 'string' && !adminTeamIds.includes(teamId)) {
+      return forbiddenResponse(teamId);
+    }
+  }
+
+  if (typeof body.teamId === 'string' && body.teamId !== contributor.teamId) {
+    const { data: team, error: teamError } = await supabase
+      .from('Team')
+      .select('id')
+      .eq('id', body.teamId)
+      .maybeSingle();
+    if (teamError) throw teamError;
+    if (!team) {
+      return errorResponse(404, 'Not Found', `Team ${body.teamId} doesn't exist`);
+    }
+  }
+
+  const now = new Date().toISOString();
+  const requested: Partial<Record<EditableField, FieldValue>> = {
+    name: typeof body.name === 'string' ? body.name.trim() : undefined,
+    cursorEmail: body.cursorEmail === undefined ? undefined
+      : (typeof body.cursorEmail === 'string' && body.cursorEmail.trim().toLowerCase()) || null,
+    teamId: typeof body.teamId === 'string' ? body.teamId : undefined,
+    excludeFromLeaderboard: typeof body.excludeFromLeaderboard === 'boolean' ? body.excludeFromLeaderboard : undefined,
+    // Deactivating again keeps the original date
+    deactivatedAt: body.deactivated === undefined ? undefined
+      : body.deactivated ? contributor.deactivatedAt || now : null
+  };
+
+  const changes: Changes = {};
+  for (const field of EDITABLE_FIELDS) {
+    const to = requested[field];
+    if (to !== undefined && to !== contributor[field]) {
+      changes[field] = { from: contributor[field], to };
+    }
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return jsonResponse({ success: true, data: { contributor, changes } });
+  }
+
+  const updates = Object.fromEntries(Object.entries(changes).map(([field, change]) => [field, change.to]));
+  const { data: updated, error: updateError } = await supabase
+    .from('Contributor')
+    .update({ ...updates, updatedAt: now })
+    .eq('id', contributor.id)
+    .select(CONTRIBUTOR_FIELDS)
+    .single();
+  if (updateError) throw updateError;
+
+  const { error: auditError } = await supabase
+    .from('ContributorAuditLog')
+    .insert({ id: crypto.randomUUID(), contributorId: contributor.id, changes, actorGithubUserId, createdAt: now });
+  if (auditError) throw auditError;
+
+  // Cursor usage counts toward the contributor's team, so moving teams rebuilds both teams' months with usage
+  if (changes.teamId) {
+    const { data: usage, error: usageError } = await supabase
+      .from('CursorUsage')
+      .select('date')
+      .eq('contributorId', contributor.id);
+    if (usageError) throw usageError;
+
+    const months = new Set((usage || []).map(day => getMonthRange(new Date(`${day.date}T00:00:00`)).start.toISOString()));
+    const store = createSupabaseMonthStore(supabase);
+    for (const month of months) {
+      for (const teamId of [changes.teamId.from, changes.teamId.to] as string[]) {
+        await recomputeMonth(store, teamId, new Date(month));
+      }
+    }
+  }
+
+  return jsonResponse({ success: true, data: { contributor: updated, changes } });
+}
+
+// Main worker object
+const worker = {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    try {
+      const admin = await getAdmin(request, env);
+      if (!admin) {
+        return unauthorizedResponse();
+      }
+
+      switch (request.method) {
+        case 'GET':
+          return await list(request, env, admin.teamIds);
+        case 'PATCH':
+          return await update(request, env, admin.teamIds, admin.githubUserId);
+        default:
+          return new Response('Method not allowed', { status: 405 });
+      }
+    } catch (err) {
+      console.error('Error in contributor admin:', err);
+      return errorResponse(500, 'Internal server error', err instanceof Error ? err.message : 'Unknown error');
+    }
+  }
+};
+
+export default worker;
+
+// Export handleRequest for Vite development
+export const handleRequest = async (request: Request, env: Env) => {
+  return worker.fetch(request, env);
+};
+
+interface PagesContext {
+  request: Request;
+  env: Env;
+  params: { [key: string]: string };
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+// Export the onRequest handler for Cloudflare Pages Functions
+export const onRequest = async (context: PagesContext) => {
+  return worker.fetch(context.request, context.env);
+};
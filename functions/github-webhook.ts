@@ -1,6 +1,10 @@
 import { createClient } from '@supabase/supabase-js'
 import { Octokit } from '@octokit/rest'
-import { calculateContributorScores as _calculateContributorScores } from '../scripts/utils/calculate-scores.js'
+import { getMonthRange, recomputeMonth, REVIEW_EVENT_TYPES } from '../scripts/utils/month-stats'
+import type { MonthRows, MonthStats, MonthStatsStore, ScoringProfile } from '../scripts/utils/month-stats'
+import { resolveAuthor } from '../scripts/utils/author-rules'
+import type { AuthorRule } from '../scripts/utils/author-rules'
+import { filterLineCounts } from '../scripts/utils/loc-filter'
 import type { SupabaseClient } from '@supabase/supabase-js'
 
 // Define our own Json type since Supabase's isn't exported
@@ -14,10 +18,14 @@ enum PrStatus {
 }
 
 export interface Env {
+  // One secret, or a comma-separated list while rotating
   GITHUB_WEBHOOK_SECRET: string
   GITHUB_KEY: string
   PUBLIC_SUPABASE_URL: string
   SUPABASE_SERVICE_ROLE_KEY: string
+  // Optional Cloudflare Queue; without it deliveries are processed in waitUntil and
+  // retries wait for the scheduled sweep
+  WEBHOOK_QUEUE?: DeliveryQueue
 }
 
 // Types for our database schema
@@ -30,6 +38,9 @@ interface Database {
           name: string
           githubOrgId: number
           githubOrgName: string | null
+          locExcludePatterns: string[] | null
+          engineerOnlyMode: boolean
+          sprintStartDate: string | null
           createdAt: string
           updatedAt: string
         }
@@ -56,6 +67,10 @@ interface Database {
           name: string
           githubRepoId: string
           url: string | null
+          archived: boolean
+          archivedAt: string | null
+          deletedAt: string | null
+          previousNames: string[]
           teamId: string
           createdAt: string
           updatedAt: string
@@ -70,6 +85,39 @@ interface Database {
           avatarUrl: string | null
           cursorEmail: string | null
           teamId: string
+          excludeFromLeaderboard: boolean
+          deactivatedAt: string | null
+          createdAt: string
+          updatedAt: string
+        }
+      }
+      TeamMember: {
+        Row: {
+          id: string
+          teamId: string
+          githubUserId: string
+          githubLogin: string
+          role: 'ADMIN' | 'MANAGER' | 'ENGINEER'
+          createdAt: string
+          updatedAt: string
+        }
+      }
+      ContributorAuditLog: {
+        Row: {
+          id: string
+          contributorId: string
+          changes: Json
+          // GitHub user id of the admin who made the change; null for changes made before it was recorded
+          actorGithubUserId: string | null
+          createdAt: string
+        }
+      }
+      ContributorIdentity: {
+        Row: {
+          id: string
+          contributorId: string
+          type: 'GITHUB_ACCOUNT' | 'EMAIL'
+          value: string
           createdAt: string
           updatedAt: string
         }
@@ -81,6 +129,8 @@ interface Database {
           message: string
           linesAdded: number
           linesDeleted: number
+          rawLinesAdded: number
+          rawLinesDeleted: number
           authoredAt: string | null
           committedAt: string
           url: string | null
@@ -90,6 +140,34 @@ interface Database {
           updatedAt: string
         }
       }
+      PullRequest: {
+        Row: {
+          id: string
+          githubPrId: number
+          title: string
+          description: string | null
+          status: PrStatus
+          isDraft: boolean
+          isMerged: boolean
+          sourceBranch: string
+          targetBranch: string
+          openedAt: string | null
+          mergedAt: string | null
+          closedAt: string | null
+          url: string | null
+          linesAdded: number
+          linesDeleted: number
+          rawLinesAdded: number
+          rawLinesDeleted: number
+          commits: number
+          comments: number
+          reviews: number
+          authorId: string
+          repoId: string
+          createdAt: string
+          updatedAt: string
+        }
+      }
       Month: {
         Row: {
           id: string
@@ -109,8 +187,96 @@ interface Database {
           details: Json | null
           rawJson: Json
           pullRequestId: string | null
+          issueId: string | null
+          contributorId: string
+          repoId: string
+          occurredAt: string
+          createdAt: string
+          updatedAt: string
+        }
+      }
+      WebhookDelivery: {
+        Row: {
+          id: string
+          deliveryId: string
+          event: string
+          action: string | null
+          status: 'QUEUED' | 'PROCESSING' | 'PROCESSED' | 'FAILED'
+          payload: string | null
+          attempts: number
+          nextAttemptAt: string | null
+          error: string | null
+          processedAt: string | null
+          createdAt: string
+          updatedAt: string
+        }
+      }
+      AuthorRule: {
+        Row: {
+          id: string
+          teamId: string
+          type: 'ALIAS' | 'IGNORE' | 'RESTRICT_REPO'
+          githubLogin: string | null
+          targetLogin: string | null
+          githubRepoId: string | null
+          allowedLogins: string[] | null
+          createdAt: string
+          updatedAt: string
+        }
+      }
+      ScoringProfile: {
+        Row: {
+          id: string
+          teamId: string
+          name: string
+          version: number
+          weights: Json
+          normalization: 'MAX' | 'PERCENTILE' | 'LOG' | 'ZSCORE'
+          isActive: boolean
+          createdAt: string
+          updatedAt: string
+        }
+      }
+      CursorUsage: {
+        Row: {
+          id: string
           contributorId: string
+          date: string
+          tabs: number
+          premiumRequests: number
+          source: 'CSV' | 'API'
+          createdAt: string
+          updatedAt: string
+        }
+      }
+      WebhookDeadLetter: {
+        Row: {
+          id: string
+          deliveryId: string
+          event: string
+          action: string | null
+          payload: string | null
+          error: string | null
+          attempts: number
+          createdAt: string
+          updatedAt: string
+        }
+      }
+      Issue: {
+        Row: {
+          id: string
+          githubIssueId: number
+          number: number
+          title: string
+          state: 'OPEN' | 'CLOSED'
+          labels: string[]
+          assignees: string[]
+          openedAt: string
+          closedAt: string | null
+          url: string | null
           repoId: string
+          authorId: string
+          closedById: string | null
           createdAt: string
           updatedAt: string
         }
@@ -120,6 +286,13 @@ interface Database {
 }
 
 // Existing interfaces for GitHub data
+interface GitHubUser {
+  id: number | string
+  login: string
+  name?: string | null
+  avatar_url?: string
+}
+
 interface GitHubCommit {
   id: string
   sha: string
@@ -130,13 +303,19 @@ interface GitHubCommit {
     id: number
     username: string
     name: string
+    email?: string
     avatar_url?: string
   }
   timestamp: string
+  // Excluding the team's locExcludePatterns
   stats?: {
     additions: number
     deletions: number
   }
+  rawStats?: {
+    additions: number
+    deletions: number
+  }
 }
 
 interface GitHubPullRequest {
@@ -159,13 +338,66 @@ interface GitHubPullRequest {
     name?: string
     avatar_url?: string
   }
+  // Excluding the team's locExcludePatterns
   additions: number
   deletions: number
+  rawAdditions?: number
+  rawDeletions?: number
   commits: number
   comments: number
   review_comments: number
 }
 
+interface GitHubReview {
+  id: number
+  state: string
+  body: string | null
+  submitted_at: string | null
+  html_url: string
+  user: {
+    id: number
+    login: string
+    avatar_url?: string
+  }
+}
+
+interface GitHubReviewComment {
+  id: number
+  pull_request_review_id: number | null
+  body: string
+  path: string
+  created_at: string
+  html_url: string
+  user: {
+    id: number
+    login: string
+    avatar_url?: string
+  }
+}
+
+interface GitHubIssue {
+  id: number
+  number: number
+  title: string
+  state: string
+  labels: { name: string }[]
+  assignees: { login: string }[]
+  created_at: string
+  closed_at: string | null
+  html_url: string
+  pull_request?: unknown
+  user: {
+    id: number
+    login: string
+    avatar_url?: string
+  }
+}
+
+// Octokit request errors carry the HTTP status
+function isNotFoundError(err: unknown) {
+  return typeof err === 'object' && err !== null && 'status' in err && err.status === 404;
+}
+
 // Helper function to check if an error is a Supabase error
 interface SupabaseError {
   code: string
@@ -177,31 +409,69 @@ function isSupabaseError(err: unknown): err is SupabaseError {
   return typeof err === 'object' && err !== null && 'code' in err && 'message' in err
 }
 
-// Verify GitHub webhook signature using Web Crypto API
-const verifySignature = async (payload: string, signature: string, secret: string) => {
+// Parse an `sha256=<hex>` signature header into its digest bytes
+function parseSignatureHeader(signature: string): Uint8Array | null {
+  const match = /^sha256=([0-9a-f]{64})$/i.exec(signature.trim());
+  if (!match) return null;
+  return new Uint8Array(match[1].match(/../g)!.map(byte => parseInt(byte, 16)));
+}
+
+// GITHUB_WEBHOOK_SECRET may hold several comma-separated secrets, so a new one can be
+// added on both sides before the old one is removed
+function parseWebhookSecrets(secrets: string) {
+  return secrets.split(',').map(secret => secret.trim()).filter(Boolean);
+}
+
+// Check the payload against each active secret. crypto.subtle.verify compares the
+// digests in constant time, unlike comparing hex strings with ===.
+const verifySignature = async (payload: string, signature: string, secrets: string) => {
+  const digest = parseSignatureHeader(signature);
+  if (!digest) return false;
+
   const encoder = new TextEncoder();
-  const key = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(secret),
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign']
-  );
-  
-  const signedMessage = await crypto.subtle.sign(
-    'HMAC',
-    key,
-    encoder.encode(payload)
-  );
-  
-  const expectedSignature = 'sha256=' + Array.from(new Uint8Array(signedMessage))
-    .map(b => b.toString(16).padStart(2, '0'))
-    .join('');
-  
-  return expectedSignature === signature;
+  for (const secret of parseWebhookSecrets(secrets)) {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+
+    if (await crypto.subtle.verify('HMAC', key, digest, encoder.encode(payload))) {
+      return true;
+    }
+  }
+
+  return false;
 };
 
-// Get or create a contributor
+// Find the contributor a secondary GitHub account, or the email of a commit with no
+// linked account, was merged into
+async function findIdentityContributor(
+  supabase: ReturnType<typeof createClient<Database>>,
+  type: 'GITHUB_ACCOUNT' | 'EMAIL',
+  value: string
+) {
+  const { data: identity, error } = await supabase
+    .from('ContributorIdentity')
+    .select('contributorId')
+    .eq('type', type)
+    .eq('value', type === 'EMAIL' ? value.toLowerCase() : value)
+    .maybeSingle();
+  if (error) throw error;
+  if (!identity) return null;
+
+  const { data: contributor, error: contributorError } = await supabase
+    .from('Contributor')
+    .select()
+    .eq('id', identity.contributorId)
+    .single();
+  if (contributorError) throw contributorError;
+  return contributor;
+}
+
+// Get or create a contributor, resolving merged accounts to the canonical one
 async function getOrCreateContributor(
   supabase: ReturnType<typeof createClient<Database>>,
   teamId: string, 
@@ -210,8 +480,13 @@ async function getOrCreateContributor(
   name: string, 
   avatarUrl?: string
 ) {
+  const canonical = await findIdentityContributor(supabase, 'GITHUB_ACCOUNT', githubUserId);
+  if (canonical) return canonical;
+
+  // The team and name are only set when the contributor is created: admins can change
+  // them, and a contributor seen by several organizations stays on their first team
   const now = new Date().toISOString();
-  const { data, error } = await supabase
+  const { error: insertError } = await supabase
     .from('Contributor')
     .upsert(
       {
@@ -226,14 +501,25 @@ async function getOrCreateContributor(
       },
       {
         onConflict: 'githubUserId',
-        ignoreDuplicates: false
+        ignoreDuplicates: true
       }
-    )
+    );
+
+  if (insertError) {
+    console.error('Error creating contributor:', insertError);
+    return null;
+  }
+
+  // Logins and avatars follow GitHub
+  const { data, error } = await supabase
+    .from('Contributor')
+    .update({ githubLogin: login, avatarUrl, updatedAt: now })
+    .eq('githubUserId', githubUserId)
     .select()
     .single();
 
   if (error) {
-    console.error('Error upserting contributor:', error);
+    console.error('Error updating contributor:', error);
     return null;
   }
 
@@ -319,255 +605,165 @@ function toPrStatus(state: string, merged: boolean): PrStatus {
   return state.toUpperCase() === 'OPEN' ? PrStatus.OPEN : PrStatus.CLOSED;
 }
 
-// Define the stats type
-type JsonMonthStats = {
-  overall: {
-    totalCommits: number;
-    totalPrs: number;
-    mergedPrs: number;
-    linesAdded: number;
-    linesRemoved: number;
-    activeContributors: number;
-    averageContributionScore: number;
-  };
-  repositories: {
-    [key: string]: {
-      name: string;
-      commits: number;
-      totalPrs: number;
-      mergedPrs: number;
-      linesAdded: number;
-      linesRemoved: number;
-      activeContributors: number;
-    };
-  };
-  contributors: {
-    [key: string]: {
-      login: string;
-      totalCommits: number;
-      totalPrs: number;
-      mergedPrs: number;
-      linesAdded: number;
-      linesRemoved: number;
-      activeRepositories: string[];
-      contributionScore: number;
-      tabs: number;
-      premiumRequests: number;
-    };
-  };
-};
-
-// Update monthly stats for a given month
-async function updateMonthStats(
-  supabase: SupabaseClient<Database>,
-  teamId: string, 
-  date: Date,
-  repo: { id: string, githubRepoId: string },  // Change to pass full repo object
-  newCommits: GitHubCommit[] = [], 
-  newPullRequest: GitHubPullRequest | null = null
-) {
-  const startOfMonth = new Date(date.getFullYear(), date.getMonth(), 1);
-  
-  console.log('Updating monthly stats for:', {
-    teamId,
-    repoId: repo.id,
-    githubRepoId: repo.githubRepoId,
-    date: startOfMonth.toISOString(),
-    commitsCount: newCommits.length,
-    hasPullRequest: !!newPullRequest
-  });
-  
-  // First get existing stats if any
-  const { data: monthRecord, error: monthError } = await supabase
-    .from('Month')
-    .select()
-    .eq('teamId', teamId)
-    .eq('date', startOfMonth.toISOString())
-    .single();
-
-  if (monthError && !monthError.message.includes('No rows found')) {
-    console.error('Error fetching month record:', monthError);
-    return;
+// Helper to convert a GitHub review state to our event type
+function toReviewEventType(state: string): string {
+  switch (state.toLowerCase()) {
+    case 'approved':
+      return 'PR_APPROVED';
+    case 'changes_requested':
+      return 'PR_CHANGES_REQUESTED';
+    default:
+      return 'PR_REVIEWED';
   }
+}
 
-  const existingStats: JsonMonthStats = monthRecord?.stats as JsonMonthStats || {
-    overall: {
-      totalCommits: 0,
-      totalPrs: 0,
-      mergedPrs: 0,
-      linesAdded: 0,
-      linesRemoved: 0,
-      activeContributors: 0,
-      averageContributionScore: 0
-    },
-    repositories: {},
-    contributors: {}
-  };
-
-  // Process new commits
-  for (const commit of newCommits) {
-    if (!commit.author?.id || !commit.author.username) continue;
-
-    // Update repository stats using githubRepoId
-    const repoStats = existingStats.repositories[repo.githubRepoId] || {
-      name: commit.repository,
-      commits: 0,
-      totalPrs: 0,
-      mergedPrs: 0,
-      linesAdded: 0,
-      linesRemoved: 0,
-      activeContributors: 0
-    };
-    existingStats.repositories[repo.githubRepoId] = repoStats;
-    
-    repoStats.commits++;
-    repoStats.linesAdded += commit.stats?.additions || 0;
-    repoStats.linesRemoved += commit.stats?.deletions || 0;
-
-    // Update contributor stats
-    const userId = commit.author.id.toString();
-    if (!existingStats.contributors[userId]) {
-      existingStats.contributors[userId] = {
-        login: commit.author.username,
-        totalCommits: 0,
-        totalPrs: 0,
-        mergedPrs: 0,
-        linesAdded: 0,
-        linesRemoved: 0,
-        activeRepositories: [],
-        contributionScore: 0,
-        tabs: 0,
-        premiumRequests: 0
-      };
-    }
-    const contributorStats = existingStats.contributors[userId];
-    contributorStats.totalCommits++;
-    contributorStats.linesAdded += commit.stats?.additions || 0;
-    contributorStats.linesRemoved += commit.stats?.deletions || 0;
-    if (!contributorStats.activeRepositories.includes(repo.githubRepoId)) {
-      contributorStats.activeRepositories.push(repo.githubRepoId);
-    }
-
-    // Update overall stats
-    existingStats.overall.totalCommits++;
-    existingStats.overall.linesAdded += commit.stats?.additions || 0;
-    existingStats.overall.linesRemoved += commit.stats?.deletions || 0;
+// Supabase caps each select at 1000 rows, so page through anything bigger
+export async function selectAll<T>(
+  query: (from: number, to: number) => PromiseLike<{ data: unknown[] | null, error: unknown }>
+): Promise<T[]> {
+  const pageSize = 1000;
+  const rows: T[] = [];
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await query(from, from + pageSize - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < pageSize) return rows;
   }
+}
 
-  // Process new pull request
-  if (newPullRequest) {
-    // Update repository stats using githubRepoId
-    const repoStats = existingStats.repositories[repo.githubRepoId] || {
-      name: newPullRequest.repository,
-      commits: 0,
-      totalPrs: 0,
-      mergedPrs: 0,
-      linesAdded: 0,
-      linesRemoved: 0,
-      activeContributors: 0
-    };
-    existingStats.repositories[repo.githubRepoId] = repoStats;
-    
-    const userId = newPullRequest.user.id.toString();
-
-    repoStats.totalPrs++;
-    if (newPullRequest.merged) {
-      repoStats.mergedPrs++;
-    }
-    repoStats.linesAdded += newPullRequest.additions;
-    repoStats.linesRemoved += newPullRequest.deletions;
-
-    // Update contributor stats
-    if (!existingStats.contributors[userId]) {
-      existingStats.contributors[userId] = {
-        login: newPullRequest.user.login,
-        totalCommits: 0,
-        totalPrs: 0,
-        mergedPrs: 0,
-        linesAdded: 0,
-        linesRemoved: 0,
-        activeRepositories: [],
-        contributionScore: 0,
-        tabs: 0,
-        premiumRequests: 0
-      };
-    }
-    const contributorStats = existingStats.contributors[userId];
-    contributorStats.totalPrs++;
-    if (newPullRequest.merged) {
-      contributorStats.mergedPrs++;
-    }
-    contributorStats.linesAdded += newPullRequest.additions;
-    contributorStats.linesRemoved += newPullRequest.deletions;
-    if (!contributorStats.activeRepositories.includes(repo.githubRepoId)) {
-      contributorStats.activeRepositories.push(repo.githubRepoId);
-    }
-
-    // Update overall stats
-    existingStats.overall.totalPrs++;
-    if (newPullRequest.merged) {
-      existingStats.overall.mergedPrs++;
-    }
-    existingStats.overall.linesAdded += newPullRequest.additions;
-    existingStats.overall.linesRemoved += newPullRequest.deletions;
-  }
+// Month stats store for recomputeMonth, backed by Supabase
+export function createSupabaseMonthStore(supabase: SupabaseClient<Database>): MonthStatsStore {
+  return {
+    async loadMonthRows(teamId, start, end) {
+      const from = start.toISOString();
+      const to = end.toISOString();
+      const contributor = 'githubUserId, githubLogin';
+      const repo = 'repo:Repo!inner(githubRepoId, name, teamId)';
+
+      const [commits, pullRequests, events, issues, cursorUsage] = await Promise.all([
+        selectAll<MonthRows['commits'][number]>((rangeFrom, rangeTo) => supabase
+          .from('Commit')
+          .select(`linesAdded, linesDeleted, author:Contributor(${contributor}), ${repo}`)
+          .eq('repo.teamId', teamId)
+          .gte('committedAt', from)
+          .lt('committedAt', to)
+          .order('id')
+          .range(rangeFrom, rangeTo)),
+        selectAll<MonthRows['pullRequests'][number]>((rangeFrom, rangeTo) => supabase
+          .from('PullRequest')
+          .select(`linesAdded, linesDeleted, openedAt, mergedAt, author:Contributor(${contributor}), ${repo}`)
+          .eq('repo.teamId', teamId)
+          .or(`and(openedAt.gte.${from},openedAt.lt.${to}),and(mergedAt.gte.${from},mergedAt.lt.${to})`)
+          .order('id')
+          .range(rangeFrom, rangeTo)),
+        selectAll<MonthRows['events'][number]>((rangeFrom, rangeTo) => supabase
+          .from('Event')
+          .select(`type, action, contributorId, contributor:Contributor(${contributor}), ${repo}, pullRequest:PullRequest(authorId)`)
+          .eq('repo.teamId', teamId)
+          .in('type', REVIEW_EVENT_TYPES)
+          .gte('occurredAt', from)
+          .lt('occurredAt', to)
+          .order('id')
+          .range(rangeFrom, rangeTo)),
+        selectAll<MonthRows['issues'][number]>((rangeFrom, rangeTo) => supabase
+          .from('Issue')
+          .select(`openedAt, closedAt, author:Contributor!Issue_authorId_fkey(${contributor}), closedBy:Contributor!Issue_closedById_fkey(${contributor}), ${repo}`)
+          .eq('repo.teamId', teamId)
+          .or(`and(openedAt.gte.${from},openedAt.lt.${to}),and(closedAt.gte.${from},closedAt.lt.${to})`)
+          .order('id')
+          .range(rangeFrom, rangeTo)),
+        // CursorUsage.date is a date column, so compare days
+        selectAll<MonthRows['cursorUsage'][number]>((rangeFrom, rangeTo) => supabase
+          .from('CursorUsage')
+          .select(`tabs, premiumRequests, contributor:Contributor!inner(${contributor}, teamId)`)
+          .eq('contributor.teamId', teamId)
+          .gte('date', from.slice(0, 10))
+          .lt('date', to.slice(0, 10))
+          .order('id')
+          .range(rangeFrom, rangeTo))
+      ]);
+
+      return { commits, pullRequests, events, issues, cursorUsage };
+    },
 
-  // Update active contributors count and recalculate scores
-  existingStats.overall.activeContributors = Object.keys(existingStats.contributors).length;
-  
-  // Calculate contribution scores
-  const allContributorStats = Object.entries(existingStats.contributors).map(([userId, stats]) => ({
-    githubUserId: userId,
-    ...stats,
-    tabs: stats.tabs || 0,
-    premiumRequests: stats.premiumRequests || 0
-  }));
-  const scores = calculateContributorScores(allContributorStats);
-  
-  // Update contributor scores
-  Object.entries(existingStats.contributors).forEach(([userId, stats]) => {
-    stats.contributionScore = scores[userId]?.score || 0;
-  });
+    // The team's profile with the given id, falling back to its active profile
+    async loadScoringProfile(teamId, profileId) {
+      const select = () => supabase
+        .from('ScoringProfile')
+        .select('id, name, version, weights, normalization')
+        .eq('teamId', teamId);
+
+      if (profileId) {
+        const { data, error } = await select().eq('id', profileId).maybeSingle();
+        if (error) throw error;
+        if (data) return data as unknown as ScoringProfile;
+      }
 
-  // Calculate average contribution score
-  const scoreValues = Object.values(scores).map(s => s.score);
-  existingStats.overall.averageContributionScore = 
-    scoreValues.length > 0 ? scoreValues.reduce((a, b) => a + b) / scoreValues.length : 0;
+      const { data, error } = await select().eq('isActive', true).maybeSingle();
+      if (error) throw error;
+      return (data as unknown as ScoringProfile) || null;
+    },
 
-  console.log('Final stats to save:', existingStats);
+    async loadMonthStats(teamId, monthStart) {
+      const { data, error } = await supabase
+        .from('Month')
+        .select('stats')
+        .eq('teamId', teamId)
+        .eq('date', monthStart.toISOString())
+        .maybeSingle();
 
-  // Update the month record
-  if (monthRecord) {
-    const { error: updateError } = await supabase
-      .from('Month')
-      .update({
-        stats: existingStats as Json,
-        updatedAt: new Date().toISOString()
-      })
-      .eq('id', monthRecord.id);
+      if (error) throw error;
+      return (data?.stats as unknown as MonthStats) || null;
+    },
 
-    if (updateError) {
-      console.error('Error updating month stats:', updateError);
-    } else {
-      console.log('Successfully updated month stats');
+    async saveMonthStats(teamId, monthStart, stats) {
+      const now = new Date().toISOString();
+      const { data: monthRecord, error: monthError } = await supabase
+        .from('Month')
+        .select('id')
+        .eq('teamId', teamId)
+        .eq('date', monthStart.toISOString())
+        .maybeSingle();
+
+      if (monthError) throw monthError;
+
+      const { error } = monthRecord
+        ? await supabase
+            .from('Month')
+            .update({ stats: stats as unknown as Json, updatedAt: now })
+            .eq('id', monthRecord.id)
+        : await supabase
+            .from('Month')
+            .insert({
+              id: crypto.randomUUID(),
+              teamId,
+              date: monthStart.toISOString(),
+              stats: stats as unknown as Json,
+              createdAt: now,
+              updatedAt: now
+            });
+
+      if (error) throw error;
     }
-  } else {
-    const { error: insertError } = await supabase
-      .from('Month')
-      .insert({
-        id: crypto.randomUUID(),
-        teamId: teamId,
-        date: startOfMonth.toISOString(),
-        stats: existingStats as Json,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      });
+  };
+}
 
-    if (insertError) {
-      console.error('Error inserting month stats:', insertError);
-    } else {
-      console.log('Successfully created month stats');
-    }
+// Rebuild the stats of every month touched by the given dates
+async function recomputeMonths(
+  supabase: SupabaseClient<Database>,
+  teamId: string,
+  dates: (string | null | undefined)[]
+) {
+  const store = createSupabaseMonthStore(supabase);
+  const months = new Set(
+    dates
+      .filter((date): date is string => !!date)
+      .map(date => getMonthRange(new Date(date)).start.toISOString())
+  );
+
+  for (const month of months) {
+    console.log('Recomputing monthly stats for:', { teamId, month });
+    await recomputeMonth(store, teamId, new Date(month));
   }
 }
 
@@ -593,6 +789,8 @@ async function createCommit(
     message: commit.message,
     linesAdded: commit.stats?.additions || 0,
     linesDeleted: commit.stats?.deletions || 0,
+    rawLinesAdded: commit.rawStats?.additions || 0,
+    rawLinesDeleted: commit.rawStats?.deletions || 0,
     committedAt: new Date(commit.timestamp).toISOString(),
     authoredAt: new Date(commit.timestamp).toISOString(),
     url: `https://github.com/${githubOrgName}/${commit.repository}/commit/${commit.sha}`,
@@ -610,6 +808,8 @@ async function createCommit(
         message: commit.message,
         linesAdded: commit.stats?.additions || 0,
         linesDeleted: commit.stats?.deletions || 0,
+        rawLinesAdded: commit.rawStats?.additions || 0,
+        rawLinesDeleted: commit.rawStats?.deletions || 0,
         committedAt: new Date(commit.timestamp).toISOString(),
         authoredAt: new Date(commit.timestamp).toISOString(),
         url: `https://github.com/${githubOrgName}/${commit.repository}/commit/${commit.sha}`,
@@ -665,6 +865,8 @@ async function createOrUpdatePullRequest(
         url: `https://github.com/${githubOrgName}/${pr.repository}/pull/${pr.number}`,
         linesAdded: pr.additions || 0,
         linesDeleted: pr.deletions || 0,
+        rawLinesAdded: pr.rawAdditions || 0,
+        rawLinesDeleted: pr.rawDeletions || 0,
         commits: pr.commits || 0,
         comments: (pr.comments || 0) + (pr.review_comments || 0),
         reviews: pr.review_comments || 0,
@@ -689,32 +891,269 @@ async function createOrUpdatePullRequest(
   return data;
 }
 
-interface ExecutionContext {
-  waitUntil(promise: Promise<unknown>): void;
-  passThroughOnException(): void;
+// Create or update issue record
+async function createOrUpdateIssue(
+  supabase: ReturnType<typeof createClient<Database>>,
+  issue: GitHubIssue,
+  repoId: string,
+  authorId: string,
+  closedById: string | null
+) {
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('Issue')
+    .upsert(
+      {
+        id: crypto.randomUUID(),
+        githubIssueId: issue.id,
+        number: issue.number,
+        title: issue.title,
+        state: issue.state.toUpperCase() === 'CLOSED' ? 'CLOSED' : 'OPEN',
+        labels: (issue.labels || []).map(label => label.name),
+        assignees: (issue.assignees || []).map(assignee => assignee.login),
+        openedAt: new Date(issue.created_at).toISOString(),
+        closedAt: issue.closed_at ? new Date(issue.closed_at).toISOString() : null,
+        url: issue.html_url,
+        repoId,
+        authorId,
+        closedById,
+        updatedAt: now,
+        createdAt: now
+      },
+      {
+        onConflict: 'githubIssueId',
+        ignoreDuplicates: false
+      }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error upserting issue:', error);
+    return null;
+  }
+
+  return data;
 }
 
-// Instead of augmenting the module, create an interface for the expected function
-interface ContributorStats {
-  githubUserId: string;
-  login: string;
-  totalCommits: number;
-  totalPrs: number;
-  mergedPrs: number;
-  linesAdded: number;
-  linesRemoved: number;
-  activeRepositories: string[];
-  contributionScore: number;
-  tabs: number;
-  premiumRequests: number;
+// Apply a repository's new name to every month that already has stats for it
+async function renameRepoInMonthStats(
+  supabase: ReturnType<typeof createClient<Database>>,
+  teamId: string,
+  githubRepoId: string,
+  newName: string
+) {
+  const { data: months, error } = await supabase
+    .from('Month')
+    .select()
+    .eq('teamId', teamId);
+
+  if (error) {
+    console.error('Error fetching months for repo rename:', error);
+    return;
+  }
+
+  for (const month of months || []) {
+    const stats = month.stats as unknown as MonthStats;
+    const repoStats = stats?.repositories?.[githubRepoId];
+    if (!repoStats || repoStats.name === newName) continue;
+
+    repoStats.name = newName;
+    const { error: updateError } = await supabase
+      .from('Month')
+      .update({
+        stats: stats as unknown as Json,
+        updatedAt: new Date().toISOString()
+      })
+      .eq('id', month.id);
+
+    if (updateError) {
+      console.error('Error renaming repo in month stats:', updateError);
+    }
+  }
+}
+
+// Retry policy for deliveries whose processing throws
+const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_SECONDS = 30;
+
+// A delivery still PROCESSING (or QUEUED without a retry time) after this long was lost by
+// whatever was consuming it
+const STALE_DELIVERY_MINUTES = 15;
+
+// What goes on the queue; the payload itself stays on the WebhookDelivery row
+interface DeliveryMessage {
+  deliveryId: string;
+}
+
+// The part of a Cloudflare Queue producer binding we use
+export interface DeliveryQueue {
+  send(message: DeliveryMessage, options?: { delaySeconds?: number }): Promise<void>;
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : JSON.stringify(error);
+}
+
+// Persist a delivery's raw payload as QUEUED. Redeliveries of the same X-GitHub-Delivery
+// are skipped unless the earlier one ended up FAILED, in which case it starts over.
+async function enqueueDelivery(
+  supabase: ReturnType<typeof createClient<Database>>,
+  deliveryId: string,
+  event: string,
+  action: string | null,
+  payload: string
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('WebhookDelivery')
+    .insert({
+      id: crypto.randomUUID(),
+      deliveryId,
+      event,
+      action,
+      status: 'QUEUED',
+      payload,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now
+    });
+
+  if (!error) return true;
+
+  // Unique violation: we've seen this delivery before
+  if (error.code !== '23505') {
+    console.error('Error recording webhook delivery:', error);
+    throw error;
+  }
+
+  const { data: requeued } = await supabase
+    .from('WebhookDelivery')
+    .update({ status: 'QUEUED', payload, attempts: 0, error: null, nextAttemptAt: null, updatedAt: now })
+    .eq('deliveryId', deliveryId)
+    .eq('status', 'FAILED')
+    .select();
+
+  return !!requeued?.length;
+}
+
+// Move a QUEUED delivery to PROCESSING and count the attempt. Returns null if the
+// delivery isn't queued, or another consumer picked it up first.
+async function startDelivery(
+  supabase: ReturnType<typeof createClient<Database>>,
+  deliveryId: string
+) {
+  const { data: delivery } = await supabase
+    .from('WebhookDelivery')
+    .select()
+    .eq('deliveryId', deliveryId)
+    .maybeSingle();
+
+  if (delivery?.status !== 'QUEUED') return null;
+
+  const { data: started } = await supabase
+    .from('WebhookDelivery')
+    .update({ status: 'PROCESSING', attempts: delivery.attempts + 1, updatedAt: new Date().toISOString() })
+    .eq('deliveryId', deliveryId)
+    .eq('status', 'QUEUED')
+    .eq('attempts', delivery.attempts)
+    .select()
+    .maybeSingle();
+
+  return started;
+}
+
+// Record that a delivery was processed
+async function completeDelivery(
+  supabase: ReturnType<typeof createClient<Database>>,
+  deliveryId: string
+) {
+  const now = new Date().toISOString();
+  const { error: updateError } = await supabase
+    .from('WebhookDelivery')
+    .update({
+      status: 'PROCESSED',
+      error: null,
+      nextAttemptAt: null,
+      processedAt: now,
+      updatedAt: now
+    })
+    .eq('deliveryId', deliveryId);
+
+  if (updateError) {
+    console.error('Error updating webhook delivery:', updateError);
+  }
 }
 
-interface ContributorScores {
-  [key: string]: { score: number };
+// Schedule another attempt with exponential backoff, or dead-letter the delivery
+// once it has used up its attempts
+async function failDelivery(
+  supabase: ReturnType<typeof createClient<Database>>,
+  queue: DeliveryQueue,
+  delivery: Database['public']['Tables']['WebhookDelivery']['Row'],
+  error: unknown
+) {
+  const now = new Date();
+
+  if (delivery.attempts >= MAX_DELIVERY_ATTEMPTS) {
+    const { error: updateError } = await supabase
+      .from('WebhookDelivery')
+      .update({ status: 'FAILED', error: errorMessage(error), nextAttemptAt: null, updatedAt: now.toISOString() })
+      .eq('deliveryId', delivery.deliveryId);
+
+    if (updateError) {
+      console.error('Error updating webhook delivery:', updateError);
+    }
+
+    const { error: deadLetterError } = await supabase
+      .from('WebhookDeadLetter')
+      .upsert(
+        {
+          id: crypto.randomUUID(),
+          deliveryId: delivery.deliveryId,
+          event: delivery.event,
+          action: delivery.action,
+          payload: delivery.payload,
+          error: errorMessage(error),
+          attempts: delivery.attempts,
+          createdAt: now.toISOString(),
+          updatedAt: now.toISOString()
+        },
+        {
+          onConflict: 'deliveryId',
+          ignoreDuplicates: false
+        }
+      );
+
+    if (deadLetterError) {
+      console.error('Error dead-lettering webhook delivery:', deadLetterError);
+    }
+    return;
+  }
+
+  const delaySeconds = RETRY_BASE_DELAY_SECONDS * 2 ** (delivery.attempts - 1);
+  const { error: updateError } = await supabase
+    .from('WebhookDelivery')
+    .update({
+      status: 'QUEUED',
+      error: errorMessage(error),
+      nextAttemptAt: new Date(now.getTime() + delaySeconds * 1000).toISOString(),
+      updatedAt: now.toISOString()
+    })
+    .eq('deliveryId', delivery.deliveryId);
+
+  if (updateError) {
+    console.error('Error updating webhook delivery:', updateError);
+  }
+
+  await queue.send({ deliveryId: delivery.deliveryId }, { delaySeconds });
 }
 
-// Import the function and type it
-const calculateContributorScores = _calculateContributorScores as (contributors: ContributorStats[]) => ContributorScores;
+export interface ExecutionContext {
+  waitUntil(promise: Promise<unknown>): void;
+  passThroughOnException(): void;
+}
 
 // Add interface for Prisma error
 interface PrismaError {
@@ -737,7 +1176,9 @@ async function createEvent(
   rawJson: Json,
   pullRequestId: string | null,
   contributorId: string,
-  repoId: string
+  repoId: string,
+  issueId: string | null = null,
+  occurredAt: string | null = null
 ) {
   const now = new Date().toISOString();
   
@@ -747,8 +1188,10 @@ async function createEvent(
     action,
     details,
     pullRequestId,
+    issueId,
     contributorId,
-    repoId
+    repoId,
+    occurredAt
   });
 
   const { data, error } = await supabase
@@ -762,8 +1205,11 @@ async function createEvent(
         details,
         rawJson,
         pullRequestId,
+        issueId,
         contributorId,
         repoId,
+        // When it happened on GitHub, which decides the month it counts in
+        occurredAt: occurredAt ? new Date(occurredAt).toISOString() : now,
         updatedAt: now,
         createdAt: now
       },
@@ -784,108 +1230,864 @@ async function createEvent(
   return data;
 }
 
-const worker = {
-  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-    const octokit = new Octokit({
-      auth: env.GITHUB_KEY
+// Enrich and store one webhook event. Throws so the delivery can be retried.
+async function processEvent(
+  env: Env,
+  supabase: ReturnType<typeof createClient<Database>>,
+  event: string,
+  payload: string
+) {
+  const octokit = new Octokit({
+    auth: env.GITHUB_KEY
+  });
+
+  const data = JSON.parse(payload);
+  const githubOrgName = data.repository.owner.login;
+
+  // The paths the team leaves out of line counts, loaded on first use
+  let locExcludePatterns: string[] | null = null;
+
+  async function getLocExcludePatterns(teamId: string) {
+    if (!locExcludePatterns) {
+      const { data, error } = await supabase
+        .from('Team')
+        .select('locExcludePatterns')
+        .eq('id', teamId)
+        .single();
+      if (error) throw error;
+      locExcludePatterns = data.locExcludePatterns || [];
+    }
+    return locExcludePatterns;
+  }
+
+  // Helper functions that need access to octokit
+  async function fetchCommitDetails(teamId: string, owner: string, repo: string, sha: string, repoId: string) {
+    try {
+      const response = await octokit.repos.getCommit({
+        owner,
+        repo,
+        ref: sha
+      });
+
+      const commitData = response.data;
+      const lines = filterLineCounts(commitData.stats || {}, commitData.files, await getLocExcludePatterns(teamId));
+      const username = commitData.author?.login || commitData.commit?.author?.name || 'unknown';
+      const name = commitData.commit?.author?.name || username;
+
+      return {
+        id: sha,
+        sha,
+        message: commitData.commit?.message || '',
+        repository: repo,
+        githubRepoId: repoId,
+        author: {
+          id: commitData.author?.id || 0,
+          username,
+          name,
+          email: commitData.commit?.author?.email,
+          avatar_url: commitData.author?.avatar_url
+        },
+        timestamp: commitData.commit?.author?.date || new Date().toISOString(),
+        stats: {
+          additions: lines.linesAdded,
+          deletions: lines.linesDeleted
+        },
+        rawStats: {
+          additions: lines.rawLinesAdded,
+          deletions: lines.rawLinesDeleted
+        }
+      } as GitHubCommit;
+    } catch (error) {
+      console.error(`Failed to fetch commit details for ${sha}:`, error);
+      // Gone from GitHub is final; anything else should fail the delivery so it's retried
+      if (isNotFoundError(error)) return null;
+      throw error;
+    }
+  }
+
+  async function fetchPullRequestDetails(teamId: string, owner: string, repo: string, number: number) {
+    try {
+      const response = await octokit.pulls.get({
+        owner,
+        repo,
+        pull_number: number
+      });
+      const files = await octokit.paginate(octokit.pulls.listFiles, {
+        owner,
+        repo,
+        pull_number: number,
+        per_page: 100
+      });
+
+      const prData = response.data;
+      const lines = filterLineCounts(prData, files, await getLocExcludePatterns(teamId));
+      return {
+        id: prData.id,
+        number: prData.number,
+        title: prData.title,
+        body: prData.body,
+        state: prData.state,
+        draft: prData.draft || false,
+        merged: prData.merged,
+        created_at: prData.created_at,
+        merged_at: prData.merged_at,
+        closed_at: prData.closed_at,
+        head: { ref: prData.head.ref },
+        base: { ref: prData.base.ref },
+        repository: repo,
+        user: {
+          id: prData.user?.id || 0,
+          login: prData.user?.login || '',
+          name: prData.user?.name || prData.user?.login || '',
+          avatar_url: prData.user?.avatar_url || ''
+        },
+        additions: lines.linesAdded,
+        deletions: lines.linesDeleted,
+        rawAdditions: lines.rawLinesAdded,
+        rawDeletions: lines.rawLinesDeleted,
+        commits: prData.commits || 0,
+        comments: prData.comments || 0,
+        review_comments: prData.review_comments || 0
+      } as GitHubPullRequest;
+    } catch (error) {
+      console.error(`Failed to fetch PR details for #${number}:`, error);
+      // Gone from GitHub is final; anything else should fail the delivery so it's retried
+      if (isNotFoundError(error)) return null;
+      throw error;
+    }
+  }
+
+  // Find the GitHub user an alias credits, from our contributors or else from GitHub
+  async function findGitHubUser(login: string): Promise<GitHubUser | null> {
+    const { data: contributor } = await supabase
+      .from('Contributor')
+      .select('githubUserId, githubLogin, name, avatarUrl')
+      .ilike('githubLogin', login)
+      .maybeSingle();
+    if (contributor) {
+      return {
+        id: contributor.githubUserId,
+        login: contributor.githubLogin,
+        name: contributor.name,
+        avatar_url: contributor.avatarUrl || undefined
+      };
+    }
+
+    try {
+      const { data: user } = await octokit.users.getByUsername({ username: login });
+      return { id: user.id, login: user.login, name: user.name, avatar_url: user.avatar_url };
+    } catch (error) {
+      if (isNotFoundError(error)) return null;
+      throw error;
+    }
+  }
+
+  // The team's author rules, loaded on first use
+  let authorRules: AuthorRule[] | null = null;
+
+  // Get or create the contributor credited for a user's activity in a repository, after
+  // applying the team's author rules. Returns null when the rules skip the activity.
+  async function getCreditedContributor(teamId: string, githubRepoId: string, user: GitHubUser) {
+    if (!authorRules) {
+      const { data, error } = await supabase
+        .from('AuthorRule')
+        .select('type, githubLogin, targetLogin, githubRepoId, allowedLogins')
+        .eq('teamId', teamId);
+      if (error) throw error;
+      authorRules = data;
+    }
+
+    const credited = await resolveAuthor(authorRules, user, githubRepoId, findGitHubUser);
+    if (!credited) {
+      console.log(`Skipping activity by ${user.login} in repo ${githubRepoId} (author rules)`);
+      return null;
+    }
+
+    return getOrCreateContributor(
+      supabase,
+      teamId,
+      credited.id.toString(),
+      credited.login,
+      credited.name || credited.login,
+      credited.avatar_url
+    );
+  }
+
+  // Match a commit email to the contributor it was merged into, then apply the author rules
+  // to that contributor like to any other author
+  async function getCreditedEmailContributor(teamId: string, githubRepoId: string, email: string) {
+    const matched = await findIdentityContributor(supabase, 'EMAIL', email);
+    if (!matched) return null;
+
+    return getCreditedContributor(teamId, githubRepoId, {
+      id: matched.githubUserId,
+      login: matched.githubLogin,
+      name: matched.name,
+      avatar_url: matched.avatarUrl || undefined
     });
+  }
 
-    const supabase = createClient<Database>(
-      env.PUBLIC_SUPABASE_URL,
-      env.SUPABASE_SERVICE_ROLE_KEY,
-      {
-        auth: {
-          persistSession: false
+  // Find the PR a review belongs to, creating it if we never saw its pull_request event
+  async function getOrCreatePullRequestRecord(
+    teamId: string,
+    repo: { id: string, githubRepoId: string },
+    owner: string,
+    repoName: string,
+    pullRequest: { id: number, number: number }
+  ) {
+    const { data: existingPr } = await supabase
+      .from('PullRequest')
+      .select()
+      .eq('githubPrId', pullRequest.id)
+      .single();
+
+    if (existingPr) return existingPr;
+
+    const prDetails = await fetchPullRequestDetails(teamId, owner, repoName, pullRequest.number);
+    if (!prDetails?.user?.id) return null;
+
+    const author = await getCreditedContributor(teamId, repo.githubRepoId, prDetails.user);
+    if (!author) return null;
+
+    const createdPr = await createOrUpdatePullRequest(supabase, prDetails, repo.id, author.id, owner);
+    if (!createdPr) return null;
+
+    await recomputeMonths(supabase, teamId, [prDetails.created_at, prDetails.merged_at]);
+    return createdPr;
+  }
+
+  // Process the webhook event
+  switch (event) {
+    case 'push': {
+      // Process push event
+      const repoName = data.repository.name;
+      const repoId = data.repository.id.toString();
+
+      console.log('Processing push event for repo:', repoName);
+
+      // Get or create team
+      const team = await getOrCreateTeam(supabase, data.repository.owner.id, githubOrgName);
+      if (!team) throw new Error('Failed to create/get team');
+
+      // Get or create repo
+      const repo = await getOrCreateRepo(supabase, team.id, repoName, repoId, data.repository.html_url);
+      if (!repo) throw new Error('Failed to create/get repo');
+
+      console.log('Found/created repo:', repo);
+
+      // Collect all commit details first
+      const processedCommits: GitHubCommit[] = [];
+
+      console.log('Processing', data.commits.length, 'commits');
+
+      // Process each commit
+      for (const commit of data.commits) {
+        console.log('Fetching details for commit:', commit.id);
+        const commitDetails = await fetchCommitDetails(team.id, githubOrgName, repoName, commit.id, repoId);
+        if (!commitDetails?.author?.id && !commitDetails?.author?.email) {
+          console.log('No author details for commit:', commit.id);
+          continue;
+        }
+
+        // Commits without a linked account can still match a contributor by email
+        const contributor = commitDetails.author.id
+          ? await getCreditedContributor(team.id, repoId, {
+              id: commitDetails.author.id,
+              login: commitDetails.author.username,
+              name: commitDetails.author.name || commitDetails.author.username || 'Unknown User',
+              avatar_url: commitDetails.author.avatar_url
+            })
+          : commitDetails.author.email
+            ? await getCreditedEmailContributor(team.id, repoId, commitDetails.author.email)
+            : null;
+        if (!contributor) {
+          console.log('No contributor credited for commit:', commit.id);
+          continue;
+        }
+
+        console.log('Creating commit record for:', commit.id);
+        const commitResult = await createCommit(supabase, commitDetails, repo.id, contributor.id, githubOrgName);
+        if (commitResult) {
+          console.log('Successfully created commit record');
+          // Only add to processedCommits if it's a new commit
+          if (commitResult.isNew) {
+            processedCommits.push(commitDetails);
+          }
+
+          // Create event for the commit
+          await createEvent(
+            supabase,
+            commit.id,
+            'COMMIT_PUSHED',
+            null,
+            {
+              message: commit.message,
+              additions: commitDetails.stats?.additions,
+              deletions: commitDetails.stats?.deletions
+            },
+            commit,
+            null,
+            contributor.id,
+            repo.id
+          );
         }
       }
-    );
 
-    // Helper functions that need access to octokit
-    async function fetchCommitDetails(owner: string, repo: string, sha: string, repoId: string) {
-      try {
-        const response = await octokit.repos.getCommit({
-          owner,
-          repo,
-          ref: sha
-        });
-        
-        const commitData = response.data;
-        const username = commitData.author?.login || commitData.commit?.author?.name || 'unknown';
-        const name = commitData.commit?.author?.name || username;
-        
-        return {
-          id: sha,
-          sha,
-          message: commitData.commit?.message || '',
-          repository: repo,
-          githubRepoId: repoId,
-          author: {
-            id: commitData.author?.id || 0,
-            username,
-            name,
-            avatar_url: commitData.author?.avatar_url
+      // Rebuild the stats of every month the new commits landed in
+      if (processedCommits.length > 0) {
+        console.log('Updating monthly stats with', processedCommits.length, 'commits');
+        await recomputeMonths(supabase, team.id, processedCommits.map(commit => commit.timestamp));
+      }
+      break;
+    }
+
+    case 'pull_request': {
+      // Process pull request event
+      const repoName = data.repository.name;
+      const repoId = data.repository.id.toString();
+
+      // Get or create team
+      const team = await getOrCreateTeam(supabase, data.repository.owner.id, githubOrgName);
+      if (!team) throw new Error('Failed to create/get team');
+
+      // Get or create repo
+      const repo = await getOrCreateRepo(supabase, team.id, repoName, repoId, data.repository.html_url);
+      if (!repo) throw new Error('Failed to create/get repo');
+
+      const prDetails = await fetchPullRequestDetails(team.id, githubOrgName, repoName, data.pull_request.number);
+      if (!prDetails?.user?.id) break;
+
+      const contributor = await getCreditedContributor(team.id, repoId, prDetails.user);
+      if (!contributor) break;
+
+      // Create/update PR record
+      const createdPr = await createOrUpdatePullRequest(supabase, prDetails, repo.id, contributor.id, githubOrgName);
+      if (createdPr) {
+        // Create event for the PR
+        await createEvent(
+          supabase,
+          `pr_${prDetails.id}_${data.action}`,
+          data.action === 'closed' && prDetails.merged ? 'PR_MERGED' : 
+            data.action === 'closed' ? 'PR_CLOSED' :
+            data.action === 'reopened' ? 'PR_REOPENED' :
+            data.action === 'opened' ? 'PR_OPENED' : `PR_${data.action.toUpperCase()}`,
+          data.action,
+          {
+            title: prDetails.title,
+            additions: prDetails.additions,
+            deletions: prDetails.deletions,
+            commits: prDetails.commits
           },
-          timestamp: commitData.commit?.author?.date || new Date().toISOString(),
-          stats: {
-            additions: commitData.stats?.additions || 0,
-            deletions: commitData.stats?.deletions || 0
-          }
-        } as GitHubCommit;
-      } catch (error) {
-        console.error(`Failed to fetch commit details for ${sha}:`, error);
-        return null;
+          data,
+          createdPr.id,
+          contributor.id,
+          repo.id
+        );
+      }
+
+      // Rebuild the months the PR counts in: when it was opened and when it was merged
+      if (createdPr) {
+        await recomputeMonths(supabase, team.id, [prDetails.created_at, prDetails.merged_at]);
+      }
+      break;
+    }
+
+    case 'pull_request_review': {
+      // Process review submitted/edited/dismissed on a pull request
+      const repoName = data.repository.name;
+      const repoId = data.repository.id.toString();
+      const review = data.review as GitHubReview;
+      if (!review?.user?.id) break;
+
+      // Get or create team
+      const team = await getOrCreateTeam(supabase, data.repository.owner.id, githubOrgName);
+      if (!team) throw new Error('Failed to create/get team');
+
+      // Get or create repo
+      const repo = await getOrCreateRepo(supabase, team.id, repoName, repoId, data.repository.html_url);
+      if (!repo) throw new Error('Failed to create/get repo');
+
+      const pullRequest = await getOrCreatePullRequestRecord(team.id, repo, githubOrgName, repoName, data.pull_request);
+      if (!pullRequest) break;
+
+      // The reviewer, not the PR author, gets credit for the review
+      const reviewer = await getCreditedContributor(team.id, repoId, review.user);
+      if (!reviewer) break;
+
+      await createEvent(
+        supabase,
+        `review_${review.id}_${data.action}`,
+        data.action === 'dismissed' ? 'PR_REVIEWED' : toReviewEventType(review.state),
+        data.action,
+        {
+          state: review.state,
+          body: review.body,
+          submittedAt: review.submitted_at,
+          url: review.html_url,
+          prNumber: data.pull_request.number,
+          prAuthorId: pullRequest.authorId
+        },
+        data,
+        pullRequest.id,
+        reviewer.id,
+        repo.id,
+        null,
+        review.submitted_at
+      );
+
+      // Only a submitted review counts; edits and dismissals don't change the stats
+      if (data.action === 'submitted') {
+        await recomputeMonths(supabase, team.id, [review.submitted_at || new Date().toISOString()]);
+      }
+      break;
+    }
+
+    case 'pull_request_review_comment': {
+      // Process inline comment left on a pull request diff
+      const repoName = data.repository.name;
+      const repoId = data.repository.id.toString();
+      const comment = data.comment as GitHubReviewComment;
+      if (!comment?.user?.id) break;
+
+      // Get or create team
+      const team = await getOrCreateTeam(supabase, data.repository.owner.id, githubOrgName);
+      if (!team) throw new Error('Failed to create/get team');
+
+      // Get or create repo
+      const repo = await getOrCreateRepo(supabase, team.id, repoName, repoId, data.repository.html_url);
+      if (!repo) throw new Error('Failed to create/get repo');
+
+      const pullRequest = await getOrCreatePullRequestRecord(team.id, repo, githubOrgName, repoName, data.pull_request);
+      if (!pullRequest) break;
+
+      const commenter = await getCreditedContributor(team.id, repoId, comment.user);
+      if (!commenter) break;
+
+      await createEvent(
+        supabase,
+        `review_comment_${comment.id}_${data.action}`,
+        'PR_COMMENTED',
+        data.action,
+        {
+          body: comment.body,
+          path: comment.path,
+          reviewId: comment.pull_request_review_id,
+          createdAt: comment.created_at,
+          url: comment.html_url,
+          prNumber: data.pull_request.number,
+          prAuthorId: pullRequest.authorId
+        },
+        data,
+        pullRequest.id,
+        commenter.id,
+        repo.id,
+        null,
+        comment.created_at
+      );
+
+      // Replies on your own PR aren't review work
+      if (data.action === 'created' && commenter.id !== pullRequest.authorId) {
+        await recomputeMonths(supabase, team.id, [comment.created_at]);
       }
+      break;
     }
 
-    async function fetchPullRequestDetails(owner: string, repo: string, number: number) {
-      try {
-        const response = await octokit.pulls.get({
-          owner,
-          repo,
-          pull_number: number
-        });
-        
-        const prData = response.data;
-        return {
-          id: prData.id,
-          number: prData.number,
-          title: prData.title,
-          body: prData.body,
-          state: prData.state,
-          draft: prData.draft || false,
-          merged: prData.merged,
-          created_at: prData.created_at,
-          merged_at: prData.merged_at,
-          closed_at: prData.closed_at,
-          head: { ref: prData.head.ref },
-          base: { ref: prData.base.ref },
-          repository: repo,
-          user: {
-            id: prData.user?.id || 0,
-            login: prData.user?.login || '',
-            name: prData.user?.name || prData.user?.login || '',
-            avatar_url: prData.user?.avatar_url || ''
+    case 'issues': {
+      // Process issue opened/closed/edited/labeled/assigned
+      const repoName = data.repository.name;
+      const repoId = data.repository.id.toString();
+      const issue = data.issue as GitHubIssue;
+      if (!issue?.user?.id) break;
+
+      // Get or create team
+      const team = await getOrCreateTeam(supabase, data.repository.owner.id, githubOrgName);
+      if (!team) throw new Error('Failed to create/get team');
+
+      // Get or create repo
+      const repo = await getOrCreateRepo(supabase, team.id, repoName, repoId, data.repository.html_url);
+      if (!repo) throw new Error('Failed to create/get repo');
+
+      const author = await getCreditedContributor(team.id, repoId, issue.user);
+      if (!author) break;
+
+      // Whoever triggered the close gets credit for closing it
+      const closer = data.action === 'closed' && data.sender?.id
+        ? await getCreditedContributor(team.id, repoId, data.sender)
+        : null;
+
+      const { data: existingIssue } = await supabase
+        .from('Issue')
+        .select('closedById, closedAt')
+        .eq('githubIssueId', issue.id)
+        .single();
+
+      // Keep the existing closer unless this delivery changes it
+      let closedById: string | null = closer?.id || null;
+      if (!closer && issue.state === 'closed') {
+        closedById = existingIssue?.closedById || null;
+      }
+
+      const issueRecord = await createOrUpdateIssue(supabase, issue, repo.id, author.id, closedById);
+      if (!issueRecord) break;
+
+      if (data.action === 'opened' || data.action === 'closed') {
+        const actor = data.action === 'closed' && closer ? closer : author;
+        await createEvent(
+          supabase,
+          `issue_${issue.id}_${data.action}`,
+          data.action === 'opened' ? 'ISSUE_OPENED' : 'ISSUE_CLOSED',
+          data.action,
+          {
+            title: issue.title,
+            number: issue.number,
+            labels: issueRecord.labels,
+            assignees: issueRecord.assignees
           },
-          additions: prData.additions || 0,
-          deletions: prData.deletions || 0,
-          commits: prData.commits || 0,
-          comments: prData.comments || 0,
-          review_comments: prData.review_comments || 0
-        } as GitHubPullRequest;
-      } catch (error) {
-        console.error(`Failed to fetch PR details for #${number}:`, error);
-        return null;
+          data,
+          null,
+          actor.id,
+          repo.id,
+          issueRecord.id,
+          data.action === 'closed' ? issue.closed_at : issue.created_at
+        );
+      }
+
+      // Reopening clears closedAt, so the month it was previously closed in changes too
+      if (['opened', 'closed', 'reopened'].includes(data.action)) {
+        await recomputeMonths(supabase, team.id, [issue.created_at, issue.closed_at, existingIssue?.closedAt]);
+      }
+      break;
+    }
+
+    case 'issue_comment': {
+      // Conversation comments on PRs also arrive as issue comments; only track real issues
+      const repoName = data.repository.name;
+      const repoId = data.repository.id.toString();
+      const issue = data.issue as GitHubIssue;
+      if (!issue?.user?.id || issue.pull_request || !data.comment?.user?.id) break;
+
+      // Get or create team
+      const team = await getOrCreateTeam(supabase, data.repository.owner.id, githubOrgName);
+      if (!team) throw new Error('Failed to create/get team');
+
+      // Get or create repo
+      const repo = await getOrCreateRepo(supabase, team.id, repoName, repoId, data.repository.html_url);
+      if (!repo) throw new Error('Failed to create/get repo');
+
+      const author = await getCreditedContributor(team.id, repoId, issue.user);
+      if (!author) break;
+
+      const { data: existingIssue } = await supabase
+        .from('Issue')
+        .select('closedById')
+        .eq('githubIssueId', issue.id)
+        .single();
+
+      const issueRecord = await createOrUpdateIssue(supabase, issue, repo.id, author.id, existingIssue?.closedById || null);
+      if (!issueRecord) break;
+
+      const commenter = await getCreditedContributor(team.id, repoId, data.comment.user);
+      if (!commenter) break;
+
+      await createEvent(
+        supabase,
+        `issue_comment_${data.comment.id}_${data.action}`,
+        'ISSUE_COMMENTED',
+        data.action,
+        {
+          body: data.comment.body,
+          number: issue.number,
+          url: data.comment.html_url
+        },
+        data,
+        null,
+        commenter.id,
+        repo.id,
+        issueRecord.id
+      );
+      break;
+    }
+
+    case 'repository': {
+      // Process repository created/deleted/archived/unarchived/renamed
+      const repoName = data.repository.name;
+      const repoId = data.repository.id.toString();
+
+      // Get or create team
+      const team = await getOrCreateTeam(supabase, data.repository.owner.id, githubOrgName);
+      if (!team) throw new Error('Failed to create/get team');
+
+      // Upserting by githubRepoId keeps the same row across renames
+      const { data: previousRepo } = await supabase
+        .from('Repo')
+        .select()
+        .eq('githubRepoId', repoId)
+        .single();
+
+      const repo = await getOrCreateRepo(supabase, team.id, repoName, repoId, data.repository.html_url);
+      if (!repo) throw new Error('Failed to create/get repo');
+
+      const now = new Date().toISOString();
+      const lifecycleUpdate: Partial<Database['public']['Tables']['Repo']['Row']> = {};
+
+      switch (data.action) {
+        case 'archived':
+          lifecycleUpdate.archived = true;
+          lifecycleUpdate.archivedAt = now;
+          break;
+        case 'unarchived':
+          lifecycleUpdate.archived = false;
+          lifecycleUpdate.archivedAt = null;
+          break;
+        case 'deleted':
+          lifecycleUpdate.deletedAt = now;
+          break;
+        case 'created':
+          lifecycleUpdate.deletedAt = null;
+          break;
+        case 'renamed': {
+          const oldName = data.changes?.repository?.name?.from || previousRepo?.name;
+          if (oldName && oldName !== repoName) {
+            lifecycleUpdate.previousNames = [...(previousRepo?.previousNames || []), oldName];
+          }
+          break;
+        }
+      }
+
+      if (Object.keys(lifecycleUpdate).length > 0) {
+        const { error: updateError } = await supabase
+          .from('Repo')
+          .update({ ...lifecycleUpdate, updatedAt: now })
+          .eq('id', repo.id);
+
+        if (updateError) {
+          console.error('Error updating repo lifecycle:', updateError);
+        }
+      }
+
+      if (data.action === 'renamed') {
+        await renameRepoInMonthStats(supabase, team.id, repoId, repoName);
+      }
+
+      // Only lifecycle changes we have event types for get an Event row
+      const eventType = {
+        created: 'REPO_CREATED',
+        deleted: 'REPO_DELETED',
+        archived: 'REPO_ARCHIVED'
+      }[data.action as string];
+
+      if (eventType && data.sender?.id) {
+        const sender = await getOrCreateContributor(
+          supabase,
+          team.id,
+          data.sender.id.toString(),
+          data.sender.login,
+          data.sender.login,
+          data.sender.avatar_url
+        );
+
+        if (sender) {
+          await createEvent(
+            supabase,
+            `repo_${repoId}_${data.action}_${Date.parse(data.repository.updated_at || now)}`,
+            eventType,
+            data.action,
+            {
+              name: repoName,
+              fullName: data.repository.full_name
+            },
+            data,
+            null,
+            sender.id,
+            repo.id
+          );
+        }
       }
+      break;
     }
 
-    // Main webhook processing logic
+    default:
+      console.log('Ignoring unsupported event:', event);
+  }
+}
+
+export function createSupabaseClient(env: Env) {
+  return createClient<Database>(
+    env.PUBLIC_SUPABASE_URL,
+    env.SUPABASE_SERVICE_ROLE_KEY,
+    {
+      auth: {
+        persistSession: false
+      }
+    }
+  );
+}
+
+// Consume one queued delivery: enrich it, then record success, schedule a retry or dead-letter it
+async function processDelivery(
+  env: Env,
+  supabase: ReturnType<typeof createClient<Database>>,
+  queue: DeliveryQueue,
+  deliveryId: string
+) {
+  const delivery = await startDelivery(supabase, deliveryId);
+  if (!delivery) {
+    console.log('Skipping delivery that is not queued:', deliveryId);
+    return;
+  }
+
+  try {
+    await processEvent(env, supabase, delivery.event, delivery.payload || '{}');
+    await completeDelivery(supabase, deliveryId);
+  } catch (err) {
+    console.error('Error processing webhook delivery:', deliveryId, err);
+    await failDelivery(supabase, queue, delivery, err);
+  }
+}
+
+// Stand-in for a Cloudflare Queue when there's no WEBHOOK_QUEUE binding (local development,
+// or Pages without queues): messages are consumed in waitUntil straight away. waitUntil
+// doesn't outlive the request by minutes, so delayed messages are dropped; the delivery
+// stays QUEUED with its nextAttemptAt and sweepDeliveries sends it again once it's due.
+function createInMemoryQueue(
+  ctx: ExecutionContext,
+  consume: (message: DeliveryMessage) => Promise<void>
+): DeliveryQueue {
+  return {
+    async send(message, options = {}) {
+      if (options.delaySeconds) return;
+
+      ctx.waitUntil(
+        consume(message).catch(err => console.error('Error consuming queued delivery:', err))
+      );
+    }
+  };
+}
+
+function getDeliveryQueue(
+  env: Env,
+  ctx: ExecutionContext,
+  supabase: ReturnType<typeof createClient<Database>>
+): DeliveryQueue {
+  if (env.WEBHOOK_QUEUE) return env.WEBHOOK_QUEUE;
+
+  const queue = createInMemoryQueue(ctx, message => processDelivery(env, supabase, queue, message.deliveryId));
+  return queue;
+}
+
+function staleBefore(now = new Date()) {
+  return new Date(now.getTime() - STALE_DELIVERY_MINUTES * 60 * 1000).toISOString();
+}
+
+// Put stored deliveries back on the queue for another run through processEvent: one
+// delivery by id, or every FAILED or stale PROCESSING delivery received in a time range.
+// Deliveries still being processed and ones without a stored payload are left alone.
+export async function replayDeliveries(
+  env: Env,
+  ctx: ExecutionContext,
+  filter: { deliveryId: string } | { since: string; until: string }
+): Promise<string[]> {
+  const supabase = createSupabaseClient(env);
+  const stale = `and(status.eq.PROCESSING,updatedAt.lt."${staleBefore()}")`;
+
+  let query = supabase
+    .from('WebhookDelivery')
+    .update({ status: 'QUEUED', attempts: 0, error: null, nextAttemptAt: null, updatedAt: new Date().toISOString() })
+    .not('payload', 'is', null);
+
+  if ('deliveryId' in filter) {
+    query = query
+      .eq('deliveryId', filter.deliveryId)
+      .or(`status.neq.PROCESSING,${stale}`);
+  } else {
+    query = query
+      .or(`status.eq.FAILED,${stale}`)
+      .gte('createdAt', filter.since)
+      .lt('createdAt', filter.until);
+  }
+
+  const { data: replayed, error } = await query.select('deliveryId');
+  if (error) throw error;
+
+  const queue = getDeliveryQueue(env, ctx, supabase);
+  for (const { deliveryId } of replayed || []) {
+    await queue.send({ deliveryId });
+  }
+
+  return (replayed || []).map(delivery => delivery.deliveryId);
+}
+
+// Pick up deliveries nothing else will: QUEUED ones whose retry is due (without
+// WEBHOOK_QUEUE nothing wakes up for them) or that were never consumed, and PROCESSING ones
+// whose consumer died. A stale PROCESSING delivery counts as a failed attempt, so it's
+// retried or dead-lettered like any other failure. Returns the ids sent to the queue.
+export async function sweepDeliveries(env: Env, ctx: ExecutionContext): Promise<string[]> {
+  const supabase = createSupabaseClient(env);
+  const queue = getDeliveryQueue(env, ctx, supabase);
+  const now = new Date();
+
+  const { data: lost, error: lostError } = await supabase
+    .from('WebhookDelivery')
+    .select()
+    .eq('status', 'PROCESSING')
+    .lt('updatedAt', staleBefore(now));
+  if (lostError) throw lostError;
+
+  for (const delivery of lost || []) {
+    console.log('Recovering stale delivery:', delivery.deliveryId);
+    await failDelivery(
+      supabase,
+      queue,
+      delivery,
+      new Error(`Still processing after ${STALE_DELIVERY_MINUTES} minutes`)
+    );
+  }
+
+  const { data: due, error: dueError } = await supabase
+    .from('WebhookDelivery')
+    .select('deliveryId')
+    .eq('status', 'QUEUED')
+    .or(`nextAttemptAt.lte."${now.toISOString()}",and(nextAttemptAt.is.null,updatedAt.lt."${staleBefore(now)}")`);
+  if (dueError) throw dueError;
+
+  // startDelivery only lets one consumer through, so sending one that's already on the
+  // queue is harmless
+  for (const { deliveryId } of due || []) {
+    await queue.send({ deliveryId });
+  }
+
+  return (due || []).map(delivery => delivery.deliveryId);
+}
+
+interface QueueMessage {
+  body: DeliveryMessage;
+  ack(): void;
+}
+
+interface MessageBatch {
+  messages: QueueMessage[];
+}
+
+interface ScheduledController {
+  cron: string;
+  scheduledTime: number;
+}
+
+const worker = {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const supabase = createSupabaseClient(env);
+
     try {
       if (request.method !== 'POST') {
         return new Response('Method not allowed', { status: 405 });
       }
 
       const payload = await request.text();
-      const signature = request.headers.get('x-hub-signature-256') || '';
+      const signature = request.headers.get('x-hub-signature-256');
+
+      if (!signature) {
+        return new Response('Missing signature', { status: 401 });
+      }
 
       if (!await verifySignature(payload, signature, env.GITHUB_WEBHOOK_SECRET)) {
         return new Response('Invalid signature', { status: 401 });
@@ -898,161 +2100,36 @@ const worker = {
       console.log('Received webhook event:', event);
       console.log('Webhook payload:', JSON.stringify(data, null, 2));
 
-      // For non-push/pull_request events, just acknowledge receipt
-      if (!['push', 'pull_request'].includes(event || '') || !data.repository?.owner?.login) {
+      // For events we don't track, just acknowledge receipt
+      const supportedEvents = [
+        'push',
+        'pull_request',
+        'pull_request_review',
+        'pull_request_review_comment',
+        'issues',
+        'issue_comment',
+        'repository'
+      ];
+      if (!supportedEvents.includes(event || '') || !data.repository?.owner?.login) {
         return new Response('Webhook received', { status: 200 });
       }
 
-      const githubOrgName = data.repository.owner.login;
-
-      // Process the webhook event
-      switch (event) {
-        case 'push': {
-          // Process push event
-          const repoName = data.repository.name;
-          const repoId = data.repository.id.toString();
-          
-          console.log('Processing push event for repo:', repoName);
-          
-          // Get or create team
-          const team = await getOrCreateTeam(supabase, data.repository.owner.id, githubOrgName);
-          if (!team) throw new Error('Failed to create/get team');
-          
-          // Get or create repo
-          const repo = await getOrCreateRepo(supabase, team.id, repoName, repoId, data.repository.html_url);
-          if (!repo) throw new Error('Failed to create/get repo');
-
-          console.log('Found/created repo:', repo);
-
-          // Collect all commit details first
-          const processedCommits: GitHubCommit[] = [];
-          
-          console.log('Processing', data.commits.length, 'commits');
-          
-          // Process each commit
-          for (const commit of data.commits) {
-            console.log('Fetching details for commit:', commit.id);
-            const commitDetails = await fetchCommitDetails(githubOrgName, repoName, commit.id, repoId);
-            if (!commitDetails?.author?.id) {
-              console.log('No author details for commit:', commit.id);
-              continue;
-            }
-
-            const contributor = await getOrCreateContributor(
-              supabase,
-              team.id,
-              commitDetails.author.id.toString(),
-              commitDetails.author.username,
-              commitDetails.author.name || commitDetails.author.username || 'Unknown User'
-            );
-            if (!contributor) {
-              console.log('Failed to create/get contributor for commit:', commit.id);
-              continue;
-            }
-
-            console.log('Creating commit record for:', commit.id);
-            const commitResult = await createCommit(supabase, commitDetails, repo.id, contributor.id, githubOrgName);
-            if (commitResult) {
-              console.log('Successfully created commit record');
-              // Only add to processedCommits if it's a new commit
-              if (commitResult.isNew) {
-                processedCommits.push(commitDetails);
-              }
-
-              // Create event for the commit
-              await createEvent(
-                supabase,
-                commit.id,
-                'COMMIT_PUSHED',
-                null,
-                {
-                  message: commit.message,
-                  additions: commitDetails.stats?.additions,
-                  deletions: commitDetails.stats?.deletions
-                },
-                commit,
-                null,
-                contributor.id,
-                repo.id
-              );
-            }
-          }
-
-          // Update monthly stats once with all commits
-          if (processedCommits.length > 0) {
-            console.log('Updating monthly stats with', processedCommits.length, 'commits');
-            const firstCommitDate = new Date(processedCommits[0].timestamp);
-            await updateMonthStats(supabase, team.id, firstCommitDate, repo, processedCommits);
-          }
-          break;
-        }
-
-        case 'pull_request': {
-          // Process pull request event
-          const repoName = data.repository.name;
-          const repoId = data.repository.id.toString();
-          
-          // Get or create team
-          const team = await getOrCreateTeam(supabase, data.repository.owner.id, githubOrgName);
-          if (!team) throw new Error('Failed to create/get team');
-          
-          // Get or create repo
-          const repo = await getOrCreateRepo(supabase, team.id, repoName, repoId, data.repository.html_url);
-          if (!repo) throw new Error('Failed to create/get repo');
-
-          const prDetails = await fetchPullRequestDetails(githubOrgName, repoName, data.pull_request.number);
-          if (!prDetails?.user?.id) break;
-
-          const contributor = await getOrCreateContributor(
-            supabase,
-            team.id,
-            prDetails.user.id.toString(),
-            prDetails.user.login,
-            prDetails.user.name || prDetails.user.login,
-            prDetails.user.avatar_url
-          );
-          if (!contributor) break;
-
-          // Create/update PR record
-          const createdPr = await createOrUpdatePullRequest(supabase, prDetails, repo.id, contributor.id, githubOrgName);
-          if (createdPr) {
-            // Create event for the PR
-            await createEvent(
-              supabase,
-              `pr_${prDetails.id}_${data.action}`,
-              data.action === 'closed' && prDetails.merged ? 'PR_MERGED' : 
-                data.action === 'closed' ? 'PR_CLOSED' :
-                data.action === 'reopened' ? 'PR_REOPENED' :
-                data.action === 'opened' ? 'PR_OPENED' : `PR_${data.action.toUpperCase()}`,
-              data.action,
-              {
-                title: prDetails.title,
-                additions: prDetails.additions,
-                deletions: prDetails.deletions,
-                commits: prDetails.commits
-              },
-              data,
-              createdPr.id,
-              contributor.id,
-              repo.id
-            );
-          }
-          
-          // Update monthly stats with the repo ID we already have
-          const dateToUse = (data.action === 'closed' && prDetails.merged && prDetails.merged_at) 
-            ? new Date(prDetails.merged_at) 
-            : new Date(prDetails.created_at);
-          await updateMonthStats(supabase, team.id, dateToUse, repo, [], prDetails);
-          break;
-        }
-
-        default:
-          return new Response(`Event type ${event} not supported`, { status: 400 });
+      // GitHub redelivers webhooks; queue each delivery at most once. GitHub always sends an
+      // id, but fall back to our own so the payload is still stored.
+      const deliveryId = request.headers.get('x-github-delivery') || crypto.randomUUID();
+      const queued = await enqueueDelivery(supabase, deliveryId, event || '', data.action || null, payload);
+      if (!queued) {
+        console.log('Skipping already received delivery:', deliveryId);
+        return new Response('Delivery already received', { status: 200 });
       }
 
-      return new Response('OK');
+      // Enrichment calls the GitHub API per commit, so respond before doing it to stay
+      // inside GitHub's 10-second webhook timeout
+      await getDeliveryQueue(env, ctx, supabase).send({ deliveryId });
+
+      return new Response('Accepted', { status: 202 });
     } catch (err) {
-      console.error('Error processing webhook:', err);
+      console.error('Error receiving webhook:', err);
       
       // Handle Supabase errors specially
       if (isSupabaseError(err)) {
@@ -1061,15 +2138,35 @@ const worker = {
       
       return new Response('Internal server error', { status: 500 });
     }
+  },
+
+  // Cloudflare Queues consumer for the WEBHOOK_QUEUE binding. Retries are scheduled by
+  // processDelivery itself, so every message is acked.
+  async queue(batch: MessageBatch, env: Env): Promise<void> {
+    const supabase = createSupabaseClient(env);
+
+    for (const message of batch.messages) {
+      await processDelivery(env, supabase, env.WEBHOOK_QUEUE!, message.body.deliveryId);
+      message.ack();
+    }
+  },
+
+  // Cron trigger handler: re-sends due retries and recovers lost deliveries
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    const swept = await sweepDeliveries(env, ctx);
+    if (swept.length) {
+      console.log('Swept webhook deliveries:', swept.join(', '));
+    }
   }
 };
 
 export default worker;
 
-// Export handleWebhook for Vite development
-export const handleWebhook = async (request: Request, env: Env) => {
+// Export handleWebhook for Vite development. Node keeps running the queued work after the
+// response, so waitUntil has nothing to do there.
+export const handleWebhook = async (request: Request, env: Env, waitUntil: ExecutionContext['waitUntil'] = () => {}) => {
   return worker.fetch(request, env, {
-    waitUntil: () => {},
+    waitUntil,
     passThroughOnException: () => {}
   });
 };
@@ -1078,10 +2175,11 @@ interface PagesContext {
   request: Request;
   env: Env;
   params: { [key: string]: string };
+  waitUntil(promise: Promise<unknown>): void;
 }
 
 // Export the onRequest handler for Cloudflare Pages Functions
 export const onRequest = async (context: PagesContext) => {
   const { request, env } = context;
-  return handleWebhook(request, env);
+  return handleWebhook(request, env, promise => context.waitUntil(promise));
 };
@@ -0,0 +1,139 @@
+import { createSupabaseClient, createSupabaseMonthStore, selectAll } from './github-webhook'
+import type { Env } from './github-webhook'
+import { errorResponse, forbiddenResponse, getAdminTeamIds, jsonResponse, unauthorizedResponse } from './webhook-admin'
+import { recomputeMonth } from '../scripts/utils/month-stats'
+import { getUsageMonths, matchCursorUsage, parseCursorUsageCsv } from '../scripts/utils/cursor-usage'
+import type { CursorUsageRow } from '../scripts/utils/cursor-usage'
+
+// Rows written per request
+const BATCH_SIZE = 500;
+
+// POST: import Cursor's team usage export for a team (/import-cursor-usage?teamId=...,
+// with the CSV as the body). Each day replaces what was stored for it, and the months
+// it touches are rebuilt.
+async function importUsage(request: Request, env: Env, adminTeamIds: string[]) {
+  const teamId = new URL(request.url).searchParams.get('teamId');
+  if (!teamId) {
+    return errorResponse(400, 'Bad Request', '"teamId" is required');
+  }
+  if (!adminTeamIds.includes(teamId)) {
+    return forbiddenResponse(teamId);
+  }
+
+  let rows: CursorUsageRow[];
+  try {
+    rows = parseCursorUsageCsv(await request.text());
+  } catch (err) {
+    return errorResponse(400, 'Bad Request', err instanceof Error ? err.message : 'Invalid CSV');
+  }
+  if (rows.length === 0) {
+    return errorResponse(400, 'Bad Request', 'The CSV has no usage rows');
+  }
+
+  const supabase = createSupabaseClient(env);
+  const { data: contributors, error: contributorError } = await supabase
+    .from('Contributor')
+    .select('id, teamId, cursorEmail')
+    .eq('teamId', teamId)
+    .not('cursorEmail', 'is', null);
+  if (contributorError) throw contributorError;
+
+  const { usage, unmatchedEmails } = matchCursorUsage(rows, contributors || []);
+
+  // Keep the ids of days already stored, so re-importing updates them in place
+  const dates = usage.map(day => day.date).sort();
+  const existing = new Map<string, { id: string; createdAt: string }>();
+  if (usage.length > 0) {
+    const contributorIds = [...new Set(usage.map(day => day.contributorId))];
+    const stored = await selectAll<{ id: string; contributorId: string; date: string; createdAt: string }>(
+      (from, to) => supabase
+        .from('CursorUsage')
+        .select('id, contributorId, date, createdAt')
+        .in('contributorId', contributorIds)
+        .gte('date', dates[0])
+        .lte('date', dates[dates.length - 1])
+        .order('id')
+        .range(from, to)
+    );
+    for (const row of stored) {
+      existing.set(`${row.contributorId}|${row.date}`, row);
+    }
+  }
+
+  const now = new Date().toISOString();
+  const records = usage.map(day => {
+    const stored = existing.get(`${day.contributorId}|${day.date}`);
+    return {
+      id: stored?.id || crypto.randomUUID(),
+      contributorId: day.contributorId,
+      date: day.date,
+      tabs: day.tabs,
+      premiumRequests: day.premiumRequests,
+      source: 'CSV' as const,
+      createdAt: stored?.createdAt || now,
+      updatedAt: now
+    };
+  });
+
+  for (let i = 0; i < records.length; i += BATCH_SIZE) {
+    const { error } = await supabase
+      .from('CursorUsage')
+      .upsert(records.slice(i, i + BATCH_SIZE), { onConflict: 'contributorId,date' });
+    if (error) throw error;
+  }
+
+  const store = createSupabaseMonthStore(supabase);
+  const months = [...getUsageMonths(usage)].map(key => key.split('|')[1]).sort();
+  for (const month of months) {
+    await recomputeMonth(store, teamId, new Date(`${month}-01T00:00:00`));
+  }
+
+  return jsonResponse({
+    success: true,
+    data: {
+      imported: records.length,
+      contributors: new Set(usage.map(day => day.contributorId)).size,
+      unmatchedEmails,
+      months
+    }
+  });
+}
+
+// Main worker object
+const worker = {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    try {
+      const adminTeamIds = await getAdminTeamIds(request, env);
+      if (!adminTeamIds) {
+        return unauthorizedResponse();
+      }
+
+      if (request.method !== 'POST') {
+        return new Response('Method not allowed', { status: 405 });
+      }
+      return await importUsage(request, env, adminTeamIds);
+    } catch (err) {
+      console.error('Error importing Cursor usage:', err);
+      return errorResponse(500, 'Internal server error', err instanceof Error ? err.message : 'Unknown error');
+    }
+  }
+};
+
+export default worker;
+
+// Export handleRequest for Vite development
+export const handleRequest = async (request: Request, env: Env) => {
+  return worker.fetch(request, env);
+};
+
+interface PagesContext {
+  request: Request;
+  env: Env;
+  params: { [key: string]: string };
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+// Export the onRequest handler for Cloudflare Pages Functions
+export const onRequest = async (context: PagesContext) => {
+  return worker.fetch(context.request, context.env);
+};
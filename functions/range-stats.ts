@@ -0,0 +1,162 @@
+import { createSupabaseClient, createSupabaseMonthStore } from './github-webhook'
+import type { Env } from './github-webhook'
+import { errorResponse, getSessionGithubUserId } from './webhook-admin'
+import { buildMonthStats, toMonthActivity } from '../scripts/utils/month-stats'
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Ranges are built from the stored rows on every request, so keep them bounded
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDay(value: string | null) {
+  if (!value || !DAY_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// The signed-in user's GitHub user id and role in the team, from the Supabase session
+// token the dashboard sends. Null when the token isn't valid.
+async function getViewer(request: Request, supabase: ReturnType<typeof createSupabaseClient>, teamId: string) {
+  const githubUserId = await getSessionGithubUserId(request, supabase);
+  if (!githubUserId) return null;
+
+  const { data: member, error: memberError } = await supabase
+    .from('TeamMember')
+    .select('role')
+    .eq('teamId', teamId)
+    .eq('githubUserId', githubUserId)
+    .maybeSingle();
+  if (memberError) throw memberError;
+
+  return { githubUserId, role: member?.role || null };
+}
+
+// GET ?teamId=...&from=2025-02-03&to=2025-02-16: a team's stats for any range of days, both
+// ends included, built from the stored rows the same way as a month's. Contributors come
+// ranked like the monthly leaderboard and are limited to what the viewer's role allows.
+async function getRangeStats(request: Request, env: Env) {
+  const params = new URL(request.url).searchParams;
+  const teamId = params.get('teamId');
+  const start = parseDay(params.get('from'));
+  const lastDay = parseDay(params.get('to'));
+
+  if (!teamId) {
+    return errorResponse(400, 'Bad Request', '"teamId" is required');
+  }
+  if (!start || !lastDay) {
+    return errorResponse(400, 'Bad Request', '"from" and "to" must be days formatted as YYYY-MM-DD');
+  }
+  const end = new Date(lastDay.getTime() + DAY_MS);
+  if (end <= start) {
+    return errorResponse(400, 'Bad Request', '"to" can\'t be before "from"');
+  }
+  if ((end.getTime() - start.getTime()) / DAY_MS > MAX_RANGE_DAYS) {
+    return errorResponse(400, 'Bad Request', `Ranges can be at most ${MAX_RANGE_DAYS} days`);
+  }
+
+  const supabase = createSupabaseClient(env);
+  const viewer = await getViewer(request, supabase, teamId);
+  if (!viewer) {
+    return errorResponse(401, 'Unauthorized', 'Sign in to see stats');
+  }
+  if (!viewer.role) {
+    return errorResponse(403, 'Forbidden', 'You are not a member of this team');
+  }
+
+  const { data: team, error: teamError } = await supabase
+    .from('Team')
+    .select('engineerOnlyMode')
+    .eq('id', teamId)
+    .single();
+  if (teamError) throw teamError;
+  const fullDetails = viewer.role !== 'ENGINEER' || !team.engineerOnlyMode;
+
+  const store = createSupabaseMonthStore(supabase);
+  const [rows, scoringProfile] = await Promise.all([
+    store.loadMonthRows(teamId, start, end),
+    store.loadScoringProfile(teamId, null)
+  ]);
+  const stats = buildMonthStats(toMonthActivity(rows, start, end), scoringProfile);
+
+  // Like the monthly leaderboard, excluded contributors and those deactivated before the
+  // range are still scored but left off
+  const githubUserIds = Object.keys(stats.contributors);
+  const { data: records, error: recordsError } = githubUserIds.length > 0
+    ? await supabase
+      .from('Contributor')
+      .select('githubUserId, githubLogin, updatedAt, excludeFromLeaderboard, deactivatedAt')
+      .in('githubUserId', githubUserIds)
+    : { data: [], error: null };
+  if (recordsError) throw recordsError;
+  const recordsById = new Map((records || []).map(record => [record.githubUserId, record]));
+
+  const leaderboard = Object.entries(stats.contributors)
+    .filter(([githubUserId]) => {
+      const record = recordsById.get(githubUserId);
+      return !record || (!record.excludeFromLeaderboard &&
+        (!record.deactivatedAt || new Date(record.deactivatedAt) >= start));
+    })
+    .sort(([, a], [, b]) => (b.contributionScore - a.contributionScore) || a.login.localeCompare(b.login))
+    .map(([githubUserId, contributorStats], index) => ({
+      githubUserId,
+      login: recordsById.get(githubUserId)?.githubLogin || contributorStats.login,
+      lastActive: recordsById.get(githubUserId)?.updatedAt || null,
+      stats: contributorStats,
+      rank: index + 1
+    }));
+
+  return new Response(JSON.stringify({
+    success: true,
+    data: {
+      from: params.get('from'),
+      to: params.get('to'),
+      overall: stats.overall,
+      scoringProfile: stats.scoringProfile,
+      totalCount: fullDetails ? leaderboard.length : 1,
+      contributors: fullDetails
+        ? leaderboard
+        : leaderboard.filter(entry => entry.githubUserId === viewer.githubUserId)
+    }
+  }), {
+    headers: {
+      'Content-Type': 'application/json',
+      // Per viewer, and past ranges rarely change
+      'Cache-Control': 'private, max-age=300'
+    }
+  });
+}
+
+// Main worker object
+const worker = {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    try {
+      if (request.method !== 'GET') {
+        return new Response('Method not allowed', { status: 405 });
+      }
+      return await getRangeStats(request, env);
+    } catch (err) {
+      console.error('Error building range stats:', err);
+      return errorResponse(500, 'Internal server error', err instanceof Error ? err.message : 'Unknown error');
+    }
+  }
+};
+
+export default worker;
+
+// Export handleRequest for Vite development
+export const handleRequest = async (request: Request, env: Env) => {
+  return worker.fetch(request, env);
+};
+
+interface PagesContext {
+  request: Request;
+  env: Env;
+  params: { [key: string]: string };
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+// Export the onRequest handler for Cloudflare Pages Functions
+export const onRequest = async (context: PagesContext) => {
+  return worker.fetch(context.request, context.env);
+};
@@ -0,0 +1,116 @@
+import { createSupabaseClient, createSupabaseMonthStore } from './github-webhook'
+import type { Env } from './github-webhook'
+import { errorResponse, forbiddenResponse, getAdminTeamIds, jsonResponse, unauthorizedResponse } from './webhook-admin'
+import { recomputeMonth } from '../scripts/utils/month-stats'
+
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+
+function isMonth(value: unknown): value is string {
+  return typeof value === 'string' && MONTH_PATTERN.test(value);
+}
+
+// POST: rescore a team's months under a scoring profile
+// ({ "teamId": "...", "scoringProfileId": "...", "from": "2025-01", "to": "2025-03" }).
+// Without a profile id the team's active profile is used; without from/to every month is rescored.
+async function recompute(request: Request, env: Env, adminTeamIds: string[]) {
+  let body: { teamId?: unknown; scoringProfileId?: unknown; from?: unknown; to?: unknown };
+  try {
+    body = await request.json() as typeof body;
+  } catch {
+    return errorResponse(400, 'Bad Request', 'Request body must be JSON');
+  }
+
+  if (typeof body.teamId !== 'string' || !body.teamId) {
+    return errorResponse(400, 'Bad Request', '"teamId" is required');
+  }
+  if (!adminTeamIds.includes(body.teamId)) {
+    return forbiddenResponse(body.teamId);
+  }
+  if ((body.from !== undefined && !isMonth(body.from)) || (body.to !== undefined && !isMonth(body.to))) {
+    return errorResponse(400, 'Bad Request', '"from" and "to" must be months formatted as YYYY-MM');
+  }
+  if (body.scoringProfileId !== undefined && typeof body.scoringProfileId !== 'string') {
+    return errorResponse(400, 'Bad Request', '"scoringProfileId" must be a string');
+  }
+
+  const supabase = createSupabaseClient(env);
+  const teamId = body.teamId;
+
+  let profileQuery = supabase
+    .from('ScoringProfile')
+    .select('id, name, version, normalization')
+    .eq('teamId', teamId);
+  profileQuery = body.scoringProfileId
+    ? profileQuery.eq('id', body.scoringProfileId)
+    : profileQuery.eq('isActive', true);
+
+  const { data: profile, error: profileError } = await profileQuery.maybeSingle();
+  if (profileError) throw profileError;
+  if (!profile) {
+    return errorResponse(404, 'Not Found', body.scoringProfileId
+      ? `Scoring profile ${body.scoringProfileId} doesn't exist for team ${teamId}`
+      : `Team ${teamId} has no active scoring profile`);
+  }
+
+  let monthQuery = supabase
+    .from('Month')
+    .select('date')
+    .eq('teamId', teamId)
+    .order('date');
+  if (isMonth(body.from)) monthQuery = monthQuery.gte('date', new Date(`${body.from}-01T00:00:00Z`).toISOString());
+  if (isMonth(body.to)) {
+    const [year, month] = body.to.split('-').map(Number);
+    monthQuery = monthQuery.lt('date', new Date(Date.UTC(year, month, 1)).toISOString());
+  }
+
+  const { data: months, error: monthError } = await monthQuery;
+  if (monthError) throw monthError;
+
+  const store = createSupabaseMonthStore(supabase);
+  const recomputed: string[] = [];
+  for (const month of months || []) {
+    await recomputeMonth(store, teamId, new Date(month.date), profile.id);
+    recomputed.push(month.date);
+  }
+
+  return jsonResponse({ success: true, data: { scoringProfile: profile, months: recomputed } });
+}
+
+// Main worker object
+const worker = {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    try {
+      const adminTeamIds = await getAdminTeamIds(request, env);
+      if (!adminTeamIds) {
+        return unauthorizedResponse();
+      }
+
+      if (request.method !== 'POST') {
+        return new Response('Method not allowed', { status: 405 });
+      }
+      return await recompute(request, env, adminTeamIds);
+    } catch (err) {
+      console.error('Error recomputing scores:', err);
+      return errorResponse(500, 'Internal server error', err instanceof Error ? err.message : 'Unknown error');
+    }
+  }
+};
+
+export default worker;
+
+// Export handleRequest for Vite development
+export const handleRequest = async (request: Request, env: Env) => {
+  return worker.fetch(request, env);
+};
+
+interface PagesContext {
+  request: Request;
+  env: Env;
+  params: { [key: string]: string };
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+// Export the onRequest handler for Cloudflare Pages Functions
+export const onRequest = async (context: PagesContext) => {
+  return worker.fetch(context.request, context.env);
+};
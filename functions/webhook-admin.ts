@@ -0,0 +1,188 @@
+import { createSupabaseClient, replayDeliveries } from './github-webhook'
+import type { Env, ExecutionContext } from './github-webhook'
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const DELIVERY_STATUSES = ['QUEUED', 'PROCESSING', 'PROCESSED', 'FAILED'];
+
+export function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json'
+    }
+  });
+}
+
+export function errorResponse(status: number, error: string, message: string) {
+  return jsonResponse({ success: false, error, message }, status);
+}
+
+// The signed-in user's GitHub user id, from the Supabase session token in the Authorization
+// header. Null when the token isn't valid. It comes from the GitHub identity rather than
+// user_metadata, which users can change themselves.
+export async function getSessionGithubUserId(request: Request, supabase: ReturnType<typeof createSupabaseClient>) {
+  const authHeader = request.headers.get('Authorization') || '';
+  if (!authHeader.startsWith('Bearer ')) return null;
+
+  const { data: { user }, error } = await supabase.auth.getUser(authHeader.substring(7));
+  if (error || !user) return null;
+
+  return user.identities?.find(identity => identity.provider === 'github')?.id || null;
+}
+
+// The signed-in user's GitHub user id and the teams they're an admin of, or null without a
+// valid session
+export async function getAdmin(request: Request, env: Env) {
+  const supabase = createSupabaseClient(env);
+  const githubUserId = await getSessionGithubUserId(request, supabase);
+  if (!githubUserId) return null;
+
+  const { data: memberships, error } = await supabase
+    .from('TeamMember')
+    .select('teamId')
+    .eq('githubUserId', githubUserId)
+    .eq('role', 'ADMIN');
+  if (error) throw error;
+  return { githubUserId, teamIds: memberships.map(membership => membership.teamId) };
+}
+
+// Ids of the teams the signed-in user is an admin of, or null without a valid session
+export async function getAdminTeamIds(request: Request, env: Env) {
+  return (await getAdmin(request, env))?.teamIds ?? null;
+}
+
+export function unauthorizedResponse() {
+  return errorResponse(401, 'Unauthorized', 'A valid Authorization header with a Supabase session token is required');
+}
+
+export function forbiddenResponse(teamId?: string) {
+  return errorResponse(403, 'Forbidden', teamId ? `You aren't an admin of team ${teamId}` : 'Only team admins can do this');
+}
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && !isNaN(Date.parse(value));
+}
+
+// GET: list stored deliveries, newest first, optionally filtered by status, event and time range
+async function listDeliveries(request: Request, env: Env) {
+  const url = new URL(request.url);
+  const status = url.searchParams.get('status');
+  const event = url.searchParams.get('event');
+  const since = url.searchParams.get('since');
+  const until = url.searchParams.get('until');
+  const limit = Math.min(parseInt(url.searchParams.get('limit') || '') || DEFAULT_LIMIT, MAX_LIMIT);
+
+  if (status && !DELIVERY_STATUSES.includes(status)) {
+    return errorResponse(400, 'Bad Request', `"status" must be one of ${DELIVERY_STATUSES.join(', ')}`);
+  }
+  if ((since && !isValidDate(since)) || (until && !isValidDate(until))) {
+    return errorResponse(400, 'Bad Request', '"since" and "until" must be ISO dates');
+  }
+
+  const supabase = createSupabaseClient(env);
+  let query = supabase
+    .from('WebhookDelivery')
+    .select('deliveryId, event, action, status, attempts, nextAttemptAt, error, processedAt, createdAt, updatedAt')
+    .order('createdAt', { ascending: false })
+    .limit(limit);
+
+  if (status) query = query.eq('status', status as 'QUEUED' | 'PROCESSING' | 'PROCESSED' | 'FAILED');
+  if (event) query = query.eq('event', event);
+  if (since) query = query.gte('createdAt', new Date(since).toISOString());
+  if (until) query = query.lt('createdAt', new Date(until).toISOString());
+
+  const { data: deliveries, error } = await query;
+  if (error) throw error;
+
+  return jsonResponse({ success: true, data: { deliveries } });
+}
+
+// POST: replay one delivery ({ "deliveryId": "..." }) or every failed delivery
+// received in a time range ({ "since": "...", "until": "..." })
+async function replay(request: Request, env: Env, ctx: ExecutionContext) {
+  let body: { deliveryId?: unknown; since?: unknown; until?: unknown };
+  try {
+    body = await request.json() as typeof body;
+  } catch {
+    return errorResponse(400, 'Bad Request', 'Request body must be JSON');
+  }
+
+  let replayed: string[];
+  if (typeof body.deliveryId === 'string' && body.deliveryId) {
+    replayed = await replayDeliveries(env, ctx, { deliveryId: body.deliveryId });
+    if (replayed.length === 0) {
+      return errorResponse(404, 'Not Found', `Delivery ${body.deliveryId} doesn't exist, is still processing or has no stored payload`);
+    }
+  } else if (isValidDate(body.since) && isValidDate(body.until)) {
+    replayed = await replayDeliveries(env, ctx, {
+      since: new Date(body.since).toISOString(),
+      until: new Date(body.until).toISOString()
+    });
+  } else {
+    return errorResponse(400, 'Bad Request', 'Provide a "deliveryId", or "since" and "until" ISO dates');
+  }
+
+  return jsonResponse({ success: true, data: { replayed } }, 202);
+}
+
+async function isAdminOfEveryTeam(env: Env, adminTeamIds: string[]) {
+  const { data: teams, error } = await createSupabaseClient(env).from('Team').select('id');
+  if (error) throw error;
+  return teams.length > 0 && teams.every(team => adminTeamIds.includes(team.id));
+}
+
+// Main worker object
+const worker = {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    try {
+      const adminTeamIds = await getAdminTeamIds(request, env);
+      if (!adminTeamIds) {
+        return unauthorizedResponse();
+      }
+      // Deliveries aren't tied to one team, so only admins of every team manage them
+      if (!await isAdminOfEveryTeam(env, adminTeamIds)) {
+        return forbiddenResponse();
+      }
+
+      switch (request.method) {
+        case 'GET':
+          return await listDeliveries(request, env);
+        case 'POST':
+          return await replay(request, env, ctx);
+        default:
+          return new Response('Method not allowed', { status: 405 });
+      }
+    } catch (err) {
+      console.error('Error processing webhook admin request:', err);
+      return errorResponse(500, 'Internal server error', err instanceof Error ? err.message : 'Unknown error');
+    }
+  }
+};
+
+export default worker;
+
+// Export handleRequest for Vite development
+export const handleRequest = async (request: Request, env: Env) => {
+  return worker.fetch(request, env, {
+    waitUntil: () => {},
+    passThroughOnException: () => {}
+  });
+};
+
+interface PagesContext {
+  request: Request;
+  env: Env;
+  params: { [key: string]: string };
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+// Export the onRequest handler for Cloudflare Pages Functions
+export const onRequest = async (context: PagesContext) => {
+  const { request, env } = context;
+  return worker.fetch(request, env, {
+    waitUntil: promise => context.waitUntil(promise),
+    passThroughOnException: () => {}
+  });
+};
@@ -0,0 +1,65 @@
+-- CreateEnum
+CREATE TYPE "IssueState" AS ENUM ('OPEN', 'CLOSED');
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "issueId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Issue" (
+    "id" TEXT NOT NULL,
+    "githubIssueId" BIGINT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "state" "IssueState" NOT NULL,
+    "labels" TEXT[],
+    "assignees" TEXT[],
+    "openedAt" TIMESTAMP(3) NOT NULL,
+    "closedAt" TIMESTAMP(3),
+    "url" TEXT,
+    "repoId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "closedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Issue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Issue_githubIssueId_key" ON "Issue"("githubIssueId");
+
+-- CreateIndex
+CREATE INDEX "Issue_githubIssueId_idx" ON "Issue"("githubIssueId");
+
+-- CreateIndex
+CREATE INDEX "Issue_repoId_idx" ON "Issue"("repoId");
+
+-- CreateIndex
+CREATE INDEX "Issue_authorId_idx" ON "Issue"("authorId");
+
+-- CreateIndex
+CREATE INDEX "Issue_closedById_idx" ON "Issue"("closedById");
+
+-- CreateIndex
+CREATE INDEX "Issue_state_idx" ON "Issue"("state");
+
+-- CreateIndex
+CREATE INDEX "Issue_openedAt_idx" ON "Issue"("openedAt");
+
+-- CreateIndex
+CREATE INDEX "Issue_closedAt_idx" ON "Issue"("closedAt");
+
+-- CreateIndex
+CREATE INDEX "Event_issueId_idx" ON "Event"("issueId");
+
+-- AddForeignKey
+ALTER TABLE "Issue" ADD CONSTRAINT "Issue_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "Contributor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Issue" ADD CONSTRAINT "Issue_closedById_fkey" FOREIGN KEY ("closedById") REFERENCES "Contributor"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Issue" ADD CONSTRAINT "Issue_repoId_fkey" FOREIGN KEY ("repoId") REFERENCES "Repo"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Event" ADD CONSTRAINT "Event_issueId_fkey" FOREIGN KEY ("issueId") REFERENCES "Issue"("id") ON DELETE SET NULL ON UPDATE CASCADE;
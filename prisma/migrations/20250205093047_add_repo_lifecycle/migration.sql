@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Repo" ADD COLUMN     "archived" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "previousNames" TEXT[];
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "occurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill from the GitHub timestamps stored in details, falling back to when we recorded the event
+UPDATE "Event" SET "occurredAt" = COALESCE(
+    ("details"->>'submittedAt')::timestamptz AT TIME ZONE 'UTC',
+    ("details"->>'createdAt')::timestamptz AT TIME ZONE 'UTC',
+    "createdAt"
+);
+
+-- CreateIndex
+CREATE INDEX "Event_occurredAt_idx" ON "Event"("occurredAt");
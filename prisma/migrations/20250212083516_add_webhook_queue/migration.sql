@@ -0,0 +1,31 @@
+-- AlterEnum
+ALTER TYPE "WebhookDeliveryStatus" ADD VALUE 'QUEUED' BEFORE 'PROCESSING';
+
+-- AlterTable
+ALTER TABLE "WebhookDelivery" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "nextAttemptAt" TIMESTAMP(3),
+ADD COLUMN     "payload" TEXT;
+
+-- CreateTable
+CREATE TABLE "WebhookDeadLetter" (
+    "id" TEXT NOT NULL,
+    "deliveryId" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "action" TEXT,
+    "payload" TEXT,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WebhookDeadLetter_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebhookDeadLetter_deliveryId_key" ON "WebhookDeadLetter"("deliveryId");
+
+-- CreateIndex
+CREATE INDEX "WebhookDeadLetter_createdAt_idx" ON "WebhookDeadLetter"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "WebhookDeadLetter" ADD CONSTRAINT "WebhookDeadLetter_deliveryId_fkey" FOREIGN KEY ("deliveryId") REFERENCES "WebhookDelivery"("deliveryId") ON DELETE RESTRICT ON UPDATE CASCADE;
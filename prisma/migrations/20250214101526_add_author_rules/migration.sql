@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "AuthorRuleType" AS ENUM ('ALIAS', 'IGNORE', 'RESTRICT_REPO');
+
+-- CreateTable
+CREATE TABLE "AuthorRule" (
+    "id" TEXT NOT NULL,
+    "teamId" TEXT NOT NULL,
+    "type" "AuthorRuleType" NOT NULL,
+    "githubLogin" TEXT,
+    "targetLogin" TEXT,
+    "githubRepoId" TEXT,
+    "allowedLogins" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AuthorRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuthorRule_teamId_idx" ON "AuthorRule"("teamId");
+
+-- AddForeignKey
+ALTER TABLE "AuthorRule" ADD CONSTRAINT "AuthorRule_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
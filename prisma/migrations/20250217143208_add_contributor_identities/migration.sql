@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "ContributorIdentityType" AS ENUM ('GITHUB_ACCOUNT', 'EMAIL');
+
+-- CreateTable
+CREATE TABLE "ContributorIdentity" (
+    "id" TEXT NOT NULL,
+    "contributorId" TEXT NOT NULL,
+    "type" "ContributorIdentityType" NOT NULL,
+    "value" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ContributorIdentity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ContributorIdentity_contributorId_idx" ON "ContributorIdentity"("contributorId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContributorIdentity_type_value_key" ON "ContributorIdentity"("type", "value");
+
+-- AddForeignKey
+ALTER TABLE "ContributorIdentity" ADD CONSTRAINT "ContributorIdentity_contributorId_fkey" FOREIGN KEY ("contributorId") REFERENCES "Contributor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
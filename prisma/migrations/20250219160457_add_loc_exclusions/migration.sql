@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Team" ADD COLUMN     "locExcludePatterns" TEXT[] DEFAULT ARRAY['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'Gemfile.lock', 'Cargo.lock', 'poetry.lock', 'composer.lock', 'go.sum', 'dist/', 'build/', 'vendor/', 'node_modules/', '*.min.js', '*.min.css', '*.map', 'migrations/', '__snapshots__/', '*.snap', 'components/ui/']::TEXT[];
+
+-- AlterTable
+ALTER TABLE "Commit" ADD COLUMN     "rawLinesAdded" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rawLinesDeleted" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "PullRequest" ADD COLUMN     "rawLinesAdded" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rawLinesDeleted" INTEGER NOT NULL DEFAULT 0;
+
+-- Existing counts were taken before any filtering, so they are the raw counts too.
+-- A forced resync refilters them.
+UPDATE "Commit" SET "rawLinesAdded" = "linesAdded", "rawLinesDeleted" = "linesDeleted";
+UPDATE "PullRequest" SET "rawLinesAdded" = "linesAdded", "rawLinesDeleted" = "linesDeleted";
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "ScoringProfile" (
+    "id" TEXT NOT NULL,
+    "teamId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "weights" JSONB NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScoringProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScoringProfile_teamId_name_version_key" ON "ScoringProfile"("teamId", "name", "version");
+
+-- CreateIndex
+CREATE INDEX "ScoringProfile_teamId_idx" ON "ScoringProfile"("teamId");
+
+-- AddForeignKey
+ALTER TABLE "ScoringProfile" ADD CONSTRAINT "ScoringProfile_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Every team starts on the weights that used to be hardcoded in calculate-scores.js
+INSERT INTO "ScoringProfile" ("id", "teamId", "name", "version", "weights", "isActive", "updatedAt")
+SELECT gen_random_uuid()::text, "id", 'Default', 1,
+  '{"loc": 0.40, "mergedPRs": 0.10, "commits": 0.05, "reviews": 0.10, "reviewComments": 0.05, "tabs": 0.10, "premiumRequests": 0.20}'::jsonb,
+  true, CURRENT_TIMESTAMP
+FROM "Team";
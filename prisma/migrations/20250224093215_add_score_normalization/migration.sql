@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "NormalizationStrategy" AS ENUM ('MAX', 'PERCENTILE', 'LOG', 'ZSCORE');
+
+-- AlterTable
+ALTER TABLE "ScoringProfile" ADD COLUMN     "normalization" "NormalizationStrategy" NOT NULL DEFAULT 'MAX';
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "CursorUsageSource" AS ENUM ('CSV', 'API');
+
+-- CreateTable
+CREATE TABLE "CursorUsage" (
+    "id" TEXT NOT NULL,
+    "contributorId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "tabs" INTEGER NOT NULL DEFAULT 0,
+    "premiumRequests" INTEGER NOT NULL DEFAULT 0,
+    "source" "CursorUsageSource" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CursorUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CursorUsage_contributorId_date_key" ON "CursorUsage"("contributorId", "date");
+
+-- CreateIndex
+CREATE INDEX "CursorUsage_date_idx" ON "CursorUsage"("date");
+
+-- AddForeignKey
+ALTER TABLE "CursorUsage" ADD CONSTRAINT "CursorUsage_contributorId_fkey" FOREIGN KEY ("contributorId") REFERENCES "Contributor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
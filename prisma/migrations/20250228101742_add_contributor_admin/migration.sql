@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Contributor" ADD COLUMN     "deactivatedAt" TIMESTAMP(3),
+ADD COLUMN     "excludeFromLeaderboard" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ContributorAuditLog" (
+    "id" TEXT NOT NULL,
+    "contributorId" TEXT NOT NULL,
+    "changes" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContributorAuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ContributorAuditLog_contributorId_idx" ON "ContributorAuditLog"("contributorId");
+
+-- CreateIndex
+CREATE INDEX "ContributorAuditLog_createdAt_idx" ON "ContributorAuditLog"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ContributorAuditLog" ADD CONSTRAINT "ContributorAuditLog_contributorId_fkey" FOREIGN KEY ("contributorId") REFERENCES "Contributor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
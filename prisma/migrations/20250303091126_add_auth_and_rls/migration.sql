@@ -0,0 +1,187 @@
+-- CreateEnum
+CREATE TYPE "TeamRole" AS ENUM ('ADMIN', 'MANAGER', 'ENGINEER');
+
+-- AlterTable
+ALTER TABLE "Team" ADD COLUMN     "engineerOnlyMode" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "TeamMember" (
+    "id" TEXT NOT NULL,
+    "teamId" TEXT NOT NULL,
+    "githubUserId" TEXT NOT NULL,
+    "githubLogin" TEXT NOT NULL,
+    "role" "TeamRole" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TeamMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TeamMember_teamId_githubUserId_key" ON "TeamMember"("teamId", "githubUserId");
+
+-- CreateIndex
+CREATE INDEX "TeamMember_githubUserId_idx" ON "TeamMember"("githubUserId");
+
+-- AddForeignKey
+ALTER TABLE "TeamMember" ADD CONSTRAINT "TeamMember_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Access for the dashboard, which signs in with Supabase Auth (GitHub). The webhook, the
+-- Pages Functions and the scripts connect as the service role or the table owner, which
+-- bypass these policies. The helpers are plpgsql so they can be created without the auth
+-- schema (e.g. in Prisma's shadow database); they return nothing for anonymous requests.
+
+-- GitHub user id of the signed-in user
+CREATE FUNCTION public.current_github_user_id() RETURNS text
+LANGUAGE plpgsql STABLE AS $$
+BEGIN
+  RETURN auth.jwt() -> 'user_metadata' ->> 'provider_id';
+END;
+$$;
+
+-- The signed-in user's role in a team, null when they aren't a member
+CREATE FUNCTION public.team_role(team_id text) RETURNS "TeamRole"
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  RETURN (
+    SELECT "role" FROM "TeamMember"
+    WHERE "teamId" = team_id AND "githubUserId" = public.current_github_user_id()
+  );
+END;
+$$;
+
+-- Whether the signed-in user sees every contributor's stats in a team, not just their own
+-- and the team totals
+CREATE FUNCTION public.can_see_team_details(team_id text) RETURNS boolean
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  viewer_role "TeamRole" := public.team_role(team_id);
+BEGIN
+  RETURN COALESCE(
+    viewer_role IN ('ADMIN', 'MANAGER') OR
+      (viewer_role = 'ENGINEER' AND NOT (SELECT "engineerOnlyMode" FROM "Team" WHERE "id" = team_id)),
+    false
+  );
+END;
+$$;
+
+-- Whether the signed-in user can see activity in a repository, or by a contributor in it
+CREATE FUNCTION public.can_see_activity(repo_id text, contributor_id text) RETURNS boolean
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  repo_team_id text := (SELECT "teamId" FROM "Repo" WHERE "id" = repo_id);
+BEGIN
+  RETURN public.can_see_team_details(repo_team_id) OR (
+    public.team_role(repo_team_id) IS NOT NULL AND
+    EXISTS (
+      SELECT 1 FROM "Contributor"
+      WHERE "id" = contributor_id AND "githubUserId" = public.current_github_user_id()
+    )
+  );
+END;
+$$;
+
+-- A team's months as the signed-in user may see them. In engineer-only mode an engineer's
+-- copy of the stats keeps the totals and only their own contributor entry.
+CREATE FUNCTION public.visible_months(team_id text)
+RETURNS TABLE ("id" text, "date" timestamp(3), "teamId" text, "stats" jsonb, "createdAt" timestamp(3), "updatedAt" timestamp(3))
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  viewer_id text := public.current_github_user_id();
+  full_details boolean := public.can_see_team_details(team_id);
+BEGIN
+  IF public.team_role(team_id) IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT m."id", m."date", m."teamId",
+    CASE WHEN full_details THEN m."stats"::jsonb
+      ELSE jsonb_set(
+        m."stats"::jsonb,
+        '{contributors}',
+        CASE WHEN m."stats"::jsonb -> 'contributors' ? viewer_id
+          THEN jsonb_build_object(viewer_id, m."stats"::jsonb -> 'contributors' -> viewer_id)
+          ELSE '{}'::jsonb
+        END
+      )
+    END,
+    m."createdAt", m."updatedAt"
+  FROM "Month" m
+  WHERE m."teamId" = team_id
+  ORDER BY m."date" DESC;
+END;
+$$;
+
+-- Team
+ALTER TABLE "Team" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Members read their teams" ON "Team"
+  FOR SELECT USING (public.team_role("id") IS NOT NULL);
+CREATE POLICY "Admins update their teams" ON "Team"
+  FOR UPDATE USING (public.team_role("id") = 'ADMIN') WITH CHECK (public.team_role("id") = 'ADMIN');
+
+-- TeamMember
+ALTER TABLE "TeamMember" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Members read their own memberships" ON "TeamMember"
+  FOR SELECT USING ("githubUserId" = public.current_github_user_id() OR public.team_role("teamId") IN ('ADMIN', 'MANAGER'));
+CREATE POLICY "Admins manage members" ON "TeamMember"
+  FOR ALL USING (public.team_role("teamId") = 'ADMIN') WITH CHECK (public.team_role("teamId") = 'ADMIN');
+
+-- Month: engineers in engineer-only mode read months through visible_months()
+ALTER TABLE "Month" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Members with full access read months" ON "Month"
+  FOR SELECT USING (public.can_see_team_details("teamId"));
+
+-- Commit and PullRequest
+ALTER TABLE "Commit" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Members read visible commits" ON "Commit"
+  FOR SELECT USING (public.can_see_activity("repoId", "authorId"));
+
+ALTER TABLE "PullRequest" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Members read visible pull requests" ON "PullRequest"
+  FOR SELECT USING (public.can_see_activity("repoId", "authorId"));
+
+-- Repo
+ALTER TABLE "Repo" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Members read their teams' repositories" ON "Repo"
+  FOR SELECT USING (public.team_role("teamId") IS NOT NULL);
+
+-- Contributor: Contributor.teamId is the team a contributor was first seen in, so anyone who
+-- sees every contributor in some team can read contributor records
+ALTER TABLE "Contributor" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Members read visible contributors" ON "Contributor"
+  FOR SELECT USING (
+    "githubUserId" = public.current_github_user_id() OR
+    EXISTS (
+      SELECT 1 FROM "TeamMember" m
+      WHERE m."githubUserId" = public.current_github_user_id() AND public.can_see_team_details(m."teamId")
+    )
+  );
+
+-- Settings
+ALTER TABLE "ScoringProfile" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Members read scoring profiles" ON "ScoringProfile"
+  FOR SELECT USING (public.team_role("teamId") IS NOT NULL);
+CREATE POLICY "Admins manage scoring profiles" ON "ScoringProfile"
+  FOR ALL USING (public.team_role("teamId") = 'ADMIN') WITH CHECK (public.team_role("teamId") = 'ADMIN');
+
+ALTER TABLE "AuthorRule" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins manage author rules" ON "AuthorRule"
+  FOR ALL USING (public.team_role("teamId") = 'ADMIN') WITH CHECK (public.team_role("teamId") = 'ADMIN');
+
+ALTER TABLE "CursorUsage" ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins read Cursor usage" ON "CursorUsage"
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM "Contributor" c
+      WHERE c."id" = "contributorId" AND public.team_role(c."teamId") = 'ADMIN'
+    )
+  );
+
+-- Only the service role reads these
+ALTER TABLE "Event" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "Issue" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "ContributorIdentity" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "ContributorAuditLog" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "WebhookDelivery" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "WebhookDeadLetter" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,123 @@
+-- Read API for the dashboard. Months are summarized and ranked in the database, so the browser
+-- loads one page at a time instead of every month's stats. Each function checks access with the
+-- helpers from the add_auth_and_rls migration; months are named as yyyy-MM.
+
+-- Replaced by the functions below
+DROP FUNCTION public.visible_months(text);
+
+-- A month's leaderboard: contributors that aren't excluded or deactivated before the month,
+-- ranked by score and then login
+CREATE FUNCTION public.ranked_month_contributors(month_id text)
+RETURNS TABLE ("githubUserId" text, "stats" jsonb, "rank" integer, "totalCount" integer)
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  RETURN QUERY
+  SELECT entry.key, entry.value,
+    (row_number() OVER (
+      ORDER BY COALESCE((entry.value ->> 'contributionScore')::numeric, 0) DESC, entry.value ->> 'login'
+    ))::integer,
+    (count(*) OVER ())::integer
+  FROM "Month" m
+  CROSS JOIN LATERAL jsonb_each(m."stats"::jsonb -> 'contributors') entry
+  LEFT JOIN "Contributor" c ON c."githubUserId" = entry.key
+  WHERE m."id" = month_id
+    AND (c."id" IS NULL OR (
+      NOT c."excludeFromLeaderboard" AND
+      (c."deactivatedAt" IS NULL OR date_trunc('month', m."date") <= date_trunc('month', c."deactivatedAt"))
+    ));
+END;
+$$;
+
+-- Only for the functions below
+REVOKE EXECUTE ON FUNCTION public.ranked_month_contributors(text) FROM PUBLIC;
+
+-- A team's months newest first, without the per-contributor stats. Pass the oldest month of
+-- the previous page as before_month for the next page.
+CREATE FUNCTION public.month_summaries(team_id text, before_month text DEFAULT NULL, page_size integer DEFAULT 24)
+RETURNS TABLE ("id" text, "month" text, "overall" jsonb, "scoringProfile" jsonb, "contributorCount" integer, "updatedAt" timestamp(3))
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF public.team_role(team_id) IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT m."id", to_char(m."date", 'YYYY-MM'),
+    m."stats"::jsonb -> 'overall',
+    m."stats"::jsonb -> 'scoringProfile',
+    (SELECT count(*) FROM jsonb_object_keys(COALESCE(m."stats"::jsonb -> 'contributors', '{}'::jsonb)))::integer,
+    m."updatedAt"
+  FROM "Month" m
+  WHERE m."teamId" = team_id AND (before_month IS NULL OR to_char(m."date", 'YYYY-MM') < before_month)
+  ORDER BY m."date" DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+END;
+$$;
+
+-- One page of a month's leaderboard, with each contributor's profile. In engineer-only mode
+-- engineers only get their own entry, still with their rank on the whole leaderboard.
+CREATE FUNCTION public.leaderboard(team_id text, month text, page_offset integer DEFAULT 0, page_size integer DEFAULT 24)
+RETURNS TABLE (
+  "githubUserId" text,
+  "login" text,
+  "name" text,
+  "avatarUrl" text,
+  "lastActive" timestamp(3),
+  "stats" jsonb,
+  "rank" integer,
+  "totalCount" integer
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  month_id text;
+  full_details boolean := public.can_see_team_details(team_id);
+BEGIN
+  IF public.team_role(team_id) IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT m."id" INTO month_id FROM "Month" m
+  WHERE m."teamId" = team_id AND to_char(m."date", 'YYYY-MM') = month;
+
+  RETURN QUERY
+  SELECT r."githubUserId", COALESCE(c."githubLogin", r."stats" ->> 'login'), c."name", c."avatarUrl", c."updatedAt",
+    r."stats", r."rank",
+    CASE WHEN full_details THEN r."totalCount" ELSE 1 END
+  FROM public.ranked_month_contributors(month_id) r
+  LEFT JOIN "Contributor" c ON c."githubUserId" = r."githubUserId"
+  WHERE full_details OR r."githubUserId" = public.current_github_user_id()
+  ORDER BY r."rank"
+  OFFSET GREATEST(page_offset, 0)
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+END;
+$$;
+
+-- Every month of a team a contributor appears in, newest first, with their stats and rank
+CREATE FUNCTION public.contributor_timeline(team_id text, github_user_id text)
+RETURNS TABLE (
+  "month" text,
+  "stats" jsonb,
+  "rank" integer,
+  "totalCount" integer,
+  "scoringProfile" jsonb,
+  "repositories" jsonb
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF NOT (public.can_see_team_details(team_id) OR
+      (public.team_role(team_id) IS NOT NULL AND github_user_id = public.current_github_user_id())) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT to_char(m."date", 'YYYY-MM'),
+    m."stats"::jsonb -> 'contributors' -> github_user_id,
+    r."rank", r."totalCount",
+    m."stats"::jsonb -> 'scoringProfile',
+    m."stats"::jsonb -> 'repositories'
+  FROM "Month" m
+  LEFT JOIN LATERAL public.ranked_month_contributors(m."id") r ON r."githubUserId" = github_user_id
+  WHERE m."teamId" = team_id AND m."stats"::jsonb -> 'contributors' ? github_user_id
+  ORDER BY m."date" DESC;
+END;
+$$;
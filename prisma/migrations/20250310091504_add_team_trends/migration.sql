@@ -0,0 +1,20 @@
+-- Every month of a team oldest first, with the totals and per-repository stats but not the
+-- per-contributor ones, for the trends page. Totals are open to every member, like on the
+-- dashboard.
+CREATE FUNCTION public.team_trends(team_id text)
+RETURNS TABLE ("month" text, "overall" jsonb, "repositories" jsonb)
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF public.team_role(team_id) IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT to_char(m."date", 'YYYY-MM'),
+    m."stats"::jsonb -> 'overall',
+    COALESCE(m."stats"::jsonb -> 'repositories', '{}'::jsonb)
+  FROM "Month" m
+  WHERE m."teamId" = team_id
+  ORDER BY m."date";
+END;
+$$;
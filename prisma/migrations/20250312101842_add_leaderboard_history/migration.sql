@@ -0,0 +1,61 @@
+-- Leaderboard entries also carry the contributor's rank the month before and their scores over
+-- the last six months, for the rank movement and sparklines on the dashboard cards. Adding
+-- columns changes the return type, so the function is dropped and created again.
+DROP FUNCTION public.leaderboard(text, text, integer, integer);
+
+-- One page of a month's leaderboard, with each contributor's profile. In engineer-only mode
+-- engineers only get their own entry, still with their rank on the whole leaderboard.
+-- previousRank is null when the contributor wasn't ranked the calendar month before;
+-- recentScores holds a score or null for each of the team's months up to six months back,
+-- oldest first.
+CREATE FUNCTION public.leaderboard(team_id text, month text, page_offset integer DEFAULT 0, page_size integer DEFAULT 24)
+RETURNS TABLE (
+  "githubUserId" text,
+  "login" text,
+  "name" text,
+  "avatarUrl" text,
+  "lastActive" timestamp(3),
+  "stats" jsonb,
+  "rank" integer,
+  "totalCount" integer,
+  "previousRank" integer,
+  "recentScores" jsonb
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  month_id text;
+  month_start timestamp;
+  previous_month_id text;
+  full_details boolean := public.can_see_team_details(team_id);
+BEGIN
+  IF public.team_role(team_id) IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT m."id", date_trunc('month', m."date") INTO month_id, month_start FROM "Month" m
+  WHERE m."teamId" = team_id AND to_char(m."date", 'YYYY-MM') = month;
+
+  SELECT m."id" INTO previous_month_id FROM "Month" m
+  WHERE m."teamId" = team_id AND date_trunc('month', m."date") = month_start - interval '1 month';
+
+  RETURN QUERY
+  SELECT r."githubUserId", COALESCE(c."githubLogin", r."stats" ->> 'login'), c."name", c."avatarUrl", c."updatedAt",
+    r."stats", r."rank",
+    CASE WHEN full_details THEN r."totalCount" ELSE 1 END,
+    p."rank",
+    (
+      SELECT jsonb_agg(h."stats"::jsonb -> 'contributors' -> r."githubUserId" -> 'contributionScore' ORDER BY h."date")
+      FROM "Month" h
+      WHERE h."teamId" = team_id
+        AND date_trunc('month', h."date") > month_start - interval '6 months'
+        AND date_trunc('month', h."date") <= month_start
+    )
+  FROM public.ranked_month_contributors(month_id) r
+  LEFT JOIN "Contributor" c ON c."githubUserId" = r."githubUserId"
+  LEFT JOIN public.ranked_month_contributors(previous_month_id) p ON p."githubUserId" = r."githubUserId"
+  WHERE full_details OR r."githubUserId" = public.current_github_user_id()
+  ORDER BY r."rank"
+  OFFSET GREATEST(page_offset, 0)
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+END;
+$$;
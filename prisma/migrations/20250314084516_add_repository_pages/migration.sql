@@ -0,0 +1,79 @@
+-- Read API for the repository pages. Per-repository totals come from Month.stats like the
+-- team's; who worked in a repository comes from the stored commits and pull requests, since
+-- Month.stats only keeps each contributor's totals across repositories.
+
+-- A month's repositories with their totals, busiest first. Totals are open to every member,
+-- like on the dashboard.
+CREATE FUNCTION public.month_repositories(team_id text, month text)
+RETURNS TABLE ("githubRepoId" text, "stats" jsonb)
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF public.team_role(team_id) IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT entry.key, entry.value
+  FROM "Month" m
+  CROSS JOIN LATERAL jsonb_each(COALESCE(m."stats"::jsonb -> 'repositories', '{}'::jsonb)) entry
+  WHERE m."teamId" = team_id AND to_char(m."date", 'YYYY-MM') = month
+  ORDER BY COALESCE((entry.value ->> 'commits')::integer, 0) DESC, entry.value ->> 'name';
+END;
+$$;
+
+-- Contributors with commits or pull requests in a repository that month, counted like
+-- Month.stats: pull requests and their lines in the month they were opened, and toward merged
+-- pull requests in the month they were merged. In engineer-only mode engineers only get their
+-- own entry.
+CREATE FUNCTION public.repository_contributors(team_id text, github_repo_id text, month text)
+RETURNS TABLE (
+  "githubUserId" text,
+  "login" text,
+  "avatarUrl" text,
+  "commits" integer,
+  "totalPrs" integer,
+  "mergedPrs" integer,
+  "linesAdded" integer,
+  "linesRemoved" integer
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  repo_id text;
+  month_start timestamp := to_date(month, 'YYYY-MM')::timestamp;
+  month_end timestamp := to_date(month, 'YYYY-MM')::timestamp + interval '1 month';
+  full_details boolean := public.can_see_team_details(team_id);
+BEGIN
+  IF public.team_role(team_id) IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT r."id" INTO repo_id FROM "Repo" r
+  WHERE r."teamId" = team_id AND r."githubRepoId" = github_repo_id;
+
+  RETURN QUERY
+  WITH activity AS (
+    SELECT c."authorId" AS author_id, 1 AS commit_count, 0 AS opened, 0 AS merged,
+      c."linesAdded" AS lines_added, c."linesDeleted" AS lines_removed
+    FROM "Commit" c
+    WHERE c."repoId" = repo_id AND c."committedAt" >= month_start AND c."committedAt" < month_end
+    UNION ALL
+    SELECT p."authorId", 0, o.opened, m.merged, o.opened * p."linesAdded", o.opened * p."linesDeleted"
+    FROM "PullRequest" p
+    CROSS JOIN LATERAL (
+      SELECT CASE WHEN p."openedAt" >= month_start AND p."openedAt" < month_end THEN 1 ELSE 0 END AS opened
+    ) o
+    CROSS JOIN LATERAL (
+      SELECT CASE WHEN p."mergedAt" >= month_start AND p."mergedAt" < month_end THEN 1 ELSE 0 END AS merged
+    ) m
+    WHERE p."repoId" = repo_id AND (o.opened = 1 OR m.merged = 1)
+  )
+  SELECT c."githubUserId", c."githubLogin", c."avatarUrl",
+    sum(a.commit_count)::integer, sum(a.opened)::integer, sum(a.merged)::integer,
+    sum(a.lines_added)::integer, sum(a.lines_removed)::integer
+  FROM activity a
+  JOIN "Contributor" c ON c."id" = a.author_id
+  WHERE full_details OR c."githubUserId" = public.current_github_user_id()
+  GROUP BY c."id", c."githubUserId", c."githubLogin", c."avatarUrl"
+  ORDER BY 4 DESC, 6 DESC, 2;
+END;
+$$;
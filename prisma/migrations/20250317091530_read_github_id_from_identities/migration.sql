@@ -0,0 +1,13 @@
+-- The GitHub user id came from the token's user_metadata, which users can change themselves
+-- with supabase.auth.updateUser and so pose as any team member. Read it from the GitHub
+-- identity instead, which only Supabase Auth writes. SECURITY DEFINER since signed-in users
+-- can't read the auth schema.
+CREATE OR REPLACE FUNCTION public.current_github_user_id() RETURNS text
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  RETURN (
+    SELECT i."provider_id" FROM auth.identities i
+    WHERE i."user_id" = auth.uid() AND i."provider" = 'github'
+  );
+END;
+$$;
@@ -0,0 +1,15 @@
+-- Supabase grants EXECUTE on public functions to anon and authenticated directly, so revoking
+-- it from PUBLIC alone left ranked_month_contributors callable through the API, with every
+-- contributor's stats and no engineer-only check. The read API functions still call it, as
+-- they run as their owner. The roles only exist in Supabase, not e.g. in Prisma's shadow
+-- database.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon') THEN
+    REVOKE EXECUTE ON FUNCTION public.ranked_month_contributors(text) FROM anon;
+  END IF;
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+    REVOKE EXECUTE ON FUNCTION public.ranked_month_contributors(text) FROM authenticated;
+  END IF;
+END;
+$$;
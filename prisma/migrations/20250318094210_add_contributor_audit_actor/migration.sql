@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ContributorAuditLog" ADD COLUMN     "actorGithubUserId" TEXT;
@@ -0,0 +1,13 @@
+-- Contributor: members who see every contributor in a team read that team's contributors
+-- (the team a contributor was first seen in), not every team's
+DROP POLICY "Members read visible contributors" ON "Contributor";
+CREATE POLICY "Members read visible contributors" ON "Contributor"
+  FOR SELECT USING (
+    "githubUserId" = public.current_github_user_id() OR
+    EXISTS (
+      SELECT 1 FROM "TeamMember" m
+      WHERE m."githubUserId" = public.current_github_user_id()
+        AND m."teamId" = "Contributor"."teamId"
+        AND public.can_see_team_details(m."teamId")
+    )
+  );
@@ -0,0 +1,62 @@
+-- Keep only the most recently updated active profile of a team, then allow one at a time
+UPDATE "ScoringProfile" p SET "isActive" = false
+WHERE p."isActive" AND EXISTS (
+  SELECT 1 FROM "ScoringProfile" o
+  WHERE o."teamId" = p."teamId" AND o."isActive" AND (o."updatedAt", o."id") > (p."updatedAt", p."id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScoringProfile_teamId_active_key" ON "ScoringProfile"("teamId") WHERE "isActive";
+
+-- Make a profile the team's active one. Deactivating the others and activating this one
+-- happen in one transaction, so the team is never left without an active profile. Team
+-- admins only.
+CREATE FUNCTION public.activate_scoring_profile(profile_id text) RETURNS void
+LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  profile_team_id text;
+BEGIN
+  SELECT "teamId" INTO profile_team_id FROM "ScoringProfile" WHERE "id" = profile_id;
+  IF profile_team_id IS NULL OR public.team_role(profile_team_id) IS DISTINCT FROM 'ADMIN' THEN
+    RAISE EXCEPTION 'Only team admins can change scoring profiles' USING ERRCODE = '42501';
+  END IF;
+
+  -- Saves and activations for a team take turns
+  PERFORM 1 FROM "Team" WHERE "id" = profile_team_id FOR UPDATE;
+
+  UPDATE "ScoringProfile" SET "isActive" = false, "updatedAt" = CURRENT_TIMESTAMP
+  WHERE "teamId" = profile_team_id AND "isActive" AND "id" <> profile_id;
+  UPDATE "ScoringProfile" SET "isActive" = true, "updatedAt" = CURRENT_TIMESTAMP
+  WHERE "id" = profile_id;
+END;
+$$;
+
+-- Save a new version of a profile and make it active. The version is the next one after
+-- the profile's highest, worked out while holding the team's lock so concurrent saves
+-- don't collide. Returns the new profile's id. Team admins only.
+CREATE FUNCTION public.save_scoring_profile(
+  team_id text,
+  profile_name text,
+  profile_weights jsonb,
+  profile_normalization "NormalizationStrategy"
+) RETURNS text
+LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  profile_id text := gen_random_uuid()::text;
+BEGIN
+  IF public.team_role(team_id) IS DISTINCT FROM 'ADMIN' THEN
+    RAISE EXCEPTION 'Only team admins can change scoring profiles' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM 1 FROM "Team" WHERE "id" = team_id FOR UPDATE;
+
+  INSERT INTO "ScoringProfile" ("id", "teamId", "name", "version", "weights", "normalization", "isActive", "updatedAt")
+  SELECT profile_id, team_id, profile_name, COALESCE(MAX("version"), 0) + 1, profile_weights, profile_normalization,
+    false, CURRENT_TIMESTAMP
+  FROM "ScoringProfile"
+  WHERE "teamId" = team_id AND "name" = profile_name;
+
+  PERFORM public.activate_scoring_profile(profile_id);
+  RETURN profile_id;
+END;
+$$;
@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+
+// Stand-in for Cursor's Admin API daily usage endpoint, for trying the importer without a
+// Cursor team. Usage is made up but stable: the same email and day always get the same numbers.
+//
+//   node scripts/cursor-mock-server.js --emails alice@example.com,bob@example.com
+//   CURSOR_API_URL=http://localhost:4010 CURSOR_API_KEY=mock npm run import-cursor -- --from 2025-02-01 --to 2025-02-28
+
+import http from 'http';
+import { program } from 'commander';
+import chalk from 'chalk';
+
+program
+  .option('-p, --port <port>', 'Port to listen on', '4010')
+  .option('-e, --emails <emails>', 'Comma-separated member emails to report usage for', 'alice@example.com,bob@example.com')
+  .parse(process.argv);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 30;
+
+// Deterministic 0-1 value for a string, so restarts serve the same data
+function hash(value) {
+  let h = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    h = Math.imul(h ^ value.charCodeAt(i), 16777619);
+  }
+  return (h >>> 0) / 4294967295;
+}
+
+function usageFor(email, day) {
+  const date = new Date(day);
+  const weekend = date.getUTCDay() === 0 || date.getUTCDay() === 6;
+  const activity = weekend ? 0 : hash(`${email}|${day}`);
+  const isActive = activity > 0.15;
+  const scale = value => isActive ? Math.round(value * activity) : 0;
+
+  return {
+    date: day,
+    email,
+    isActive,
+    totalLinesAdded: scale(900),
+    totalLinesDeleted: scale(300),
+    acceptedLinesAdded: scale(500),
+    acceptedLinesDeleted: scale(120),
+    totalApplies: scale(40),
+    totalAccepts: scale(30),
+    totalRejects: scale(8),
+    totalTabsShown: scale(400),
+    totalTabsAccepted: scale(160),
+    composerRequests: scale(12),
+    chatRequests: scale(18),
+    agentRequests: scale(25),
+    cmdkUsages: scale(10),
+    subscriptionIncludedReqs: scale(45),
+    apiKeyReqs: 0,
+    usageBasedReqs: activity > 0.85 ? scale(20) : 0,
+    bugbotUsages: 0,
+    mostUsedModel: isActive ? 'claude-4-sonnet' : null
+  };
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+const emails = program.opts().emails.split(',').map(email => email.trim()).filter(Boolean);
+
+const server = http.createServer(async (req, res) => {
+  console.log(chalk.gray(`${req.method} ${req.url}`));
+
+  if (req.method !== 'POST' || req.url !== '/teams/daily-usage-data') {
+    return send(res, 404, { error: 'Not found' });
+  }
+  if (!req.headers.authorization?.startsWith('Basic ')) {
+    return send(res, 401, { error: 'Unauthorized' });
+  }
+
+  let body;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch {
+    return send(res, 400, { error: 'Request body must be JSON' });
+  }
+
+  const { startDate, endDate } = body;
+  if (!Number.isFinite(startDate) || !Number.isFinite(endDate) || startDate > endDate) {
+    return send(res, 400, { error: 'startDate and endDate must be epoch milliseconds, start first' });
+  }
+  if (endDate - startDate > MAX_RANGE_DAYS * DAY_MS) {
+    return send(res, 400, { error: `Date range can't exceed ${MAX_RANGE_DAYS} days` });
+  }
+
+  const data = [];
+  for (let day = Math.floor(startDate / DAY_MS) * DAY_MS; day <= endDate; day += DAY_MS) {
+    emails.forEach(email => data.push(usageFor(email, day)));
+  }
+  send(res, 200, { data, period: { startDate, endDate } });
+});
+
+server.listen(Number(program.opts().port), () => {
+  console.log(chalk.green(`Mock Cursor API on http://localhost:${program.opts().port} for ${emails.join(', ')}`));
+});
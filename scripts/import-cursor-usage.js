@@ -0,0 +1,113 @@
+#!/usr/bin/env -S node --experimental-strip-types
+
+import { program } from 'commander';
+import { PrismaClient } from '@prisma/client';
+import dotenv from 'dotenv';
+import ora from 'ora';
+import chalk from 'chalk';
+import { format, subDays } from 'date-fns';
+import fs from 'fs/promises';
+import { getMonthRange, recomputeMonth } from './utils/month-stats.ts';
+import { createPrismaMonthStore } from './utils/prisma-month-store.js';
+import {
+  CURSOR_API_URL,
+  createCursorClient,
+  getUsageMonths,
+  matchCursorUsage,
+  parseCursorUsageCsv
+} from './utils/cursor-usage.ts';
+
+// Load environment variables
+dotenv.config();
+
+const prisma = new PrismaClient();
+const prismaMonthStore = createPrismaMonthStore(prisma);
+
+program
+  .option('-f, --file <path>', "Cursor's team usage export (CSV) to import")
+  .option('--from <date>', 'First day to pull from the Cursor API (YYYY-MM-DD), defaults to 7 days ago')
+  .option('--to <date>', 'Last day to pull from the Cursor API (YYYY-MM-DD), defaults to today')
+  .option('--dry-run', 'Show what would be imported without writing anything')
+  .parse(process.argv);
+
+async function loadUsageRows(options) {
+  if (options.file) {
+    const spinner = ora(`Reading ${options.file}...`).start();
+    const rows = parseCursorUsageCsv(await fs.readFile(options.file, 'utf8'));
+    spinner.succeed(`Read ${rows.length} days of usage from ${options.file}`);
+    return { rows, source: 'CSV' };
+  }
+
+  if (!process.env.CURSOR_API_KEY) {
+    throw new Error('Pass --file <path>, or set CURSOR_API_KEY to pull from the Cursor API');
+  }
+  const from = options.from || format(subDays(new Date(), 7), 'yyyy-MM-dd');
+  const to = options.to || format(new Date(), 'yyyy-MM-dd');
+  const baseUrl = process.env.CURSOR_API_URL || CURSOR_API_URL;
+
+  const spinner = ora(`Fetching usage from ${from} to ${to} from ${baseUrl}...`).start();
+  const client = createCursorClient({ apiKey: process.env.CURSOR_API_KEY, baseUrl });
+  const rows = await client.fetchDailyUsage(from, to);
+  spinner.succeed(`Fetched ${rows.length} days of usage`);
+  return { rows, source: 'API' };
+}
+
+// Replace each contributor's stored usage for the day
+async function saveUsage(usage, source) {
+  const spinner = ora(`Saving ${usage.length} days of usage...`).start();
+  for (const day of usage) {
+    const date = new Date(`${day.date}T00:00:00Z`);
+    const data = { tabs: day.tabs, premiumRequests: day.premiumRequests, source };
+    await prisma.cursorUsage.upsert({
+      where: { contributorId_date: { contributorId: day.contributorId, date } },
+      create: { contributorId: day.contributorId, date, ...data },
+      update: data
+    });
+  }
+  spinner.succeed(`Saved ${usage.length} days of usage`);
+}
+
+async function rebuildMonths(months) {
+  for (const key of [...months].sort()) {
+    const [teamId, month] = key.split('|');
+    const { start } = getMonthRange(new Date(`${month}-01T00:00:00`));
+    const spinner = ora(`Rebuilding ${format(start, 'MMMM yyyy')}...`).start();
+    await recomputeMonth(prismaMonthStore, teamId, start);
+    spinner.succeed(`Rebuilt ${format(start, 'MMMM yyyy')}`);
+  }
+}
+
+async function main() {
+  const options = program.opts();
+  const { rows, source } = await loadUsageRows(options);
+
+  const contributors = await prisma.contributor.findMany({
+    where: { cursorEmail: { not: null } },
+    select: { id: true, teamId: true, cursorEmail: true }
+  });
+  const { usage, unmatchedEmails } = matchCursorUsage(rows, contributors);
+  const months = getUsageMonths(usage);
+
+  console.log(chalk.cyan(`\n${usage.length} days matched to ${new Set(usage.map(day => day.contributorId)).size} contributors`));
+  console.log(`└── Months to rebuild: ${months.size}`);
+  if (unmatchedEmails.length > 0) {
+    console.log(chalk.yellow(`\nNo contributor has these Cursor emails, so their usage was skipped:`));
+    unmatchedEmails.forEach(email => console.log(chalk.yellow(`  ${email}`)));
+    console.log(chalk.yellow('Set the cursorEmail of the matching contributors and import again.'));
+  }
+
+  if (options.dryRun) {
+    console.log(chalk.yellow('\nDry run: nothing was written'));
+    return;
+  }
+
+  await saveUsage(usage, source);
+  await rebuildMonths(months);
+}
+
+main()
+  .catch(error => {
+    console.error(chalk.red(`Error: ${error.message}`));
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,182 @@
+#!/usr/bin/env -S node --experimental-strip-types
+
+import { program } from 'commander';
+import { PrismaClient } from '@prisma/client';
+import dotenv from 'dotenv';
+import ora from 'ora';
+import chalk from 'chalk';
+import { format } from 'date-fns';
+import { getMonthRange, recomputeMonth } from './utils/month-stats.ts';
+import { createPrismaMonthStore } from './utils/prisma-month-store.js';
+
+// Load environment variables
+dotenv.config();
+
+const prisma = new PrismaClient();
+const prismaMonthStore = createPrismaMonthStore(prisma);
+
+program
+  .requiredOption('-i, --into <login>', 'GitHub login of the contributor to keep')
+  .option('-f, --from <login>', 'GitHub login of a secondary account to merge into it')
+  .option('-e, --email <email>', 'Commit email to credit to it when a commit has no linked GitHub account')
+  .option('--dry-run', 'Show what would change without writing anything')
+  .parse(process.argv);
+
+async function findContributor(login) {
+  const contributor = await prisma.contributor.findFirst({
+    where: { githubLogin: { equals: login, mode: 'insensitive' } }
+  });
+  if (!contributor) {
+    throw new Error(`No contributor with login ${login}`);
+  }
+  return contributor;
+}
+
+// Every team month holding activity by the contributor, as "teamId|yyyy-MM" keys
+async function findActivityMonths(contributorId) {
+  const repo = { select: { teamId: true } };
+  const [commits, pullRequests, events, openedIssues, closedIssues] = await Promise.all([
+    prisma.commit.findMany({ where: { authorId: contributorId }, select: { committedAt: true, repo } }),
+    prisma.pullRequest.findMany({ where: { authorId: contributorId }, select: { openedAt: true, mergedAt: true, repo } }),
+    prisma.event.findMany({ where: { contributorId }, select: { occurredAt: true, repo } }),
+    prisma.issue.findMany({ where: { authorId: contributorId }, select: { openedAt: true, closedAt: true, repo } }),
+    prisma.issue.findMany({ where: { closedById: contributorId }, select: { closedAt: true, repo } })
+  ]);
+
+  const months = new Set();
+  const add = (teamId, ...dates) => {
+    for (const date of dates) {
+      if (date) months.add(`${teamId}|${format(date, 'yyyy-MM')}`);
+    }
+  };
+
+  commits.forEach(c => add(c.repo.teamId, c.committedAt));
+  pullRequests.forEach(pr => add(pr.repo.teamId, pr.openedAt, pr.mergedAt));
+  events.forEach(e => add(e.repo.teamId, e.occurredAt));
+  openedIssues.forEach(i => add(i.repo.teamId, i.openedAt, i.closedAt));
+  closedIssues.forEach(i => add(i.repo.teamId, i.closedAt));
+
+  return { months, counts: { commits: commits.length, pullRequests: pullRequests.length, events: events.length } };
+}
+
+// Writes moving the secondary account's Cursor usage onto the canonical one, adding it to
+// any usage the canonical account has for the same day. Adds the months it falls in.
+async function foldCursorUsage(secondary, canonical, months) {
+  const usage = await prisma.cursorUsage.findMany({ where: { contributorId: secondary.id } });
+  for (const day of usage) {
+    months.add(`${secondary.teamId}|${format(day.date, 'yyyy-MM')}`);
+    months.add(`${canonical.teamId}|${format(day.date, 'yyyy-MM')}`);
+  }
+
+  return [
+    ...usage.map(day => prisma.cursorUsage.upsert({
+      where: { contributorId_date: { contributorId: canonical.id, date: day.date } },
+      create: {
+        contributorId: canonical.id,
+        date: day.date,
+        tabs: day.tabs,
+        premiumRequests: day.premiumRequests,
+        source: day.source
+      },
+      update: { tabs: { increment: day.tabs }, premiumRequests: { increment: day.premiumRequests } }
+    })),
+    prisma.cursorUsage.deleteMany({ where: { contributorId: secondary.id } })
+  ];
+}
+
+async function mergeAccount(canonical, login, dryRun) {
+  const secondary = await findContributor(login);
+  if (secondary.id === canonical.id) {
+    throw new Error(`${login} and ${canonical.githubLogin} are the same contributor`);
+  }
+
+  const { months, counts } = await findActivityMonths(secondary.id);
+  const cursorUsageWrites = await foldCursorUsage(secondary, canonical, months);
+  console.log(chalk.cyan(`\n${secondary.githubLogin} → ${canonical.githubLogin}`));
+  console.log(`├── Commits: ${counts.commits}`);
+  console.log(`├── Pull Requests: ${counts.pullRequests}`);
+  console.log(`├── Events: ${counts.events}`);
+  console.log(`├── Days of Cursor usage: ${cursorUsageWrites.length - 1}`);
+  console.log(`└── Months to rebuild: ${months.size}`);
+
+  if (dryRun) return;
+
+  const spinner = ora(`Merging ${secondary.githubLogin} into ${canonical.githubLogin}...`).start();
+  await prisma.$transaction([
+    prisma.commit.updateMany({ where: { authorId: secondary.id }, data: { authorId: canonical.id } }),
+    prisma.pullRequest.updateMany({ where: { authorId: secondary.id }, data: { authorId: canonical.id } }),
+    prisma.event.updateMany({ where: { contributorId: secondary.id }, data: { contributorId: canonical.id } }),
+    prisma.issue.updateMany({ where: { authorId: secondary.id }, data: { authorId: canonical.id } }),
+    prisma.issue.updateMany({ where: { closedById: secondary.id }, data: { closedById: canonical.id } }),
+    ...cursorUsageWrites,
+    // Identities already merged into the secondary account follow it
+    prisma.contributorIdentity.updateMany({ where: { contributorId: secondary.id }, data: { contributorId: canonical.id } }),
+    prisma.contributorAuditLog.updateMany({ where: { contributorId: secondary.id }, data: { contributorId: canonical.id } }),
+    prisma.contributorIdentity.create({
+      data: { contributorId: canonical.id, type: 'GITHUB_ACCOUNT', value: secondary.githubUserId }
+    }),
+    ...(!canonical.cursorEmail && secondary.cursorEmail
+      ? [prisma.contributor.update({ where: { id: canonical.id }, data: { cursorEmail: secondary.cursorEmail } })]
+      : []),
+    prisma.contributor.delete({ where: { id: secondary.id } })
+  ]);
+  spinner.succeed(`Merged ${secondary.githubLogin} into ${canonical.githubLogin}`);
+
+  await rebuildMonths(months);
+}
+
+async function addEmail(canonical, email, dryRun) {
+  const value = email.toLowerCase();
+  const existing = await prisma.contributorIdentity.findUnique({
+    where: { type_value: { type: 'EMAIL', value } },
+    include: { contributor: true }
+  });
+  if (existing && existing.contributorId !== canonical.id) {
+    throw new Error(`${email} already belongs to ${existing.contributor.githubLogin}`);
+  }
+
+  console.log(chalk.cyan(`\n${value} → ${canonical.githubLogin}`));
+  if (dryRun || existing) return;
+
+  await prisma.contributorIdentity.create({
+    data: { contributorId: canonical.id, type: 'EMAIL', value }
+  });
+  // Commits without a linked account were skipped when they came in, so there's nothing to re-point
+  console.log(chalk.green(`Added ${value}. Re-run the sync for the months its commits landed in to pick them up.`));
+}
+
+async function rebuildMonths(months) {
+  for (const key of [...months].sort()) {
+    const [teamId, month] = key.split('|');
+    const { start } = getMonthRange(new Date(`${month}-01T00:00:00`));
+    const spinner = ora(`Rebuilding ${format(start, 'MMMM yyyy')}...`).start();
+    await recomputeMonth(prismaMonthStore, teamId, start);
+    spinner.succeed(`Rebuilt ${format(start, 'MMMM yyyy')}`);
+  }
+}
+
+async function main() {
+  const options = program.opts();
+  if (!options.from && !options.email) {
+    throw new Error('Pass --from <login> and/or --email <email>');
+  }
+
+  const canonical = await findContributor(options.into);
+  if (options.dryRun) {
+    console.log(chalk.yellow('Dry run: nothing will be written'));
+  }
+
+  if (options.from) {
+    await mergeAccount(canonical, options.from, options.dryRun);
+  }
+  if (options.email) {
+    await addEmail(canonical, options.email, options.dryRun);
+  }
+}
+
+main()
+  .catch(error => {
+    console.error(chalk.red(`Error: ${error.message}`));
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
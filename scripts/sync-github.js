@@ -1,4 +1,4 @@
-#!/usr/bin/env node
+#!/usr/bin/env -S node --experimental-strip-types
 
 import { program } from 'commander';
 import { Octokit } from '@octokit/rest';
@@ -11,7 +11,10 @@ import { parse, format, addMonths, startOfMonth } from 'date-fns';
 import fs from 'fs/promises';
 import path from 'path';
 import { setTimeout } from 'timers/promises';
-import { calculateRepoStats, calculateContributorScores } from './utils/calculate-scores.js';
+import { recomputeMonth } from './utils/month-stats.ts';
+import { createPrismaMonthStore } from './utils/prisma-month-store.js';
+import { resolveAuthor } from './utils/author-rules.ts';
+import { filterLineCounts } from './utils/loc-filter.ts';
 
 // Load environment variables
 dotenv.config();
@@ -92,7 +95,13 @@ async function initialize() {
   octokit = initializeOctokit();
 }
 
-const GITHUB_ORG = process.env.GITHUB_ORG;
+// Organizations to sync, from --org or GITHUB_ORG (comma-separated)
+function parseOrgs(value) {
+  return (value || '').split(',').map(org => org.trim()).filter(Boolean);
+}
+
+// Organization currently being synced, set by main() for each org in turn
+let GITHUB_ORG = null;
 
 // Constants
 const CACHE_DIR = path.join(process.cwd(), '.cache');
@@ -178,11 +187,13 @@ async function fetchRepositories() {
       per_page: 100
     });
     
-    spinner.succeed(`Found ${repos.length} repositories`);
+    const archivedCount = repos.filter(repo => repo.archived).length;
+    spinner.succeed(`Found ${repos.length} repositories (${archivedCount} archived)`);
     return repos.map(repo => ({
       name: repo.name,
       id: repo.id.toString(),
-      html_url: repo.html_url
+      html_url: repo.html_url,
+      archived: repo.archived
     }));
   } catch (error) {
     spinner.fail('Failed to fetch repositories');
@@ -191,7 +202,7 @@ async function fetchRepositories() {
 }
 
 // Fetch commits for a repository in a given month
-async function fetchMonthlyCommits(repo, startDate, endDate) {
+async function fetchMonthlyCommits(repo, startDate, endDate, locExcludePatterns) {
   const failedCommits = [];
   const commits = await octokit.paginate(octokit.repos.listCommits, {
     owner: GITHUB_ORG,
@@ -212,6 +223,7 @@ async function fetchMonthlyCommits(repo, startDate, endDate) {
             repo: repo.name,
             ref: commit.sha
           });
+          const lines = filterLineCounts(fullCommit.stats || {}, fullCommit.files, locExcludePatterns);
           return {
     sha: commit.sha,
     message: commit.commit.message,
@@ -219,13 +231,18 @@ async function fetchMonthlyCommits(repo, startDate, endDate) {
       id: commit.author?.id,
       login: commit.author?.login,
       name: commit.commit.author.name,
+      email: commit.commit.author.email,
       avatar_url: commit.author?.avatar_url
     },
     authoredAt: commit.commit.author.date,
     committedAt: commit.commit.committer.date,
     stats: {
-              additions: fullCommit.stats?.additions || 0,
-              deletions: fullCommit.stats?.deletions || 0
+              additions: lines.linesAdded,
+              deletions: lines.linesDeleted
+            },
+            rawStats: {
+              additions: lines.rawLinesAdded,
+              deletions: lines.rawLinesDeleted
             }
           };
         } catch (error) {
@@ -260,7 +277,7 @@ async function fetchMonthlyCommits(repo, startDate, endDate) {
 }
 
 // Fetch pull requests for a repository in a given month
-async function fetchMonthlyPullRequests(repo, startDate, endDate) {
+async function fetchMonthlyPullRequests(repo, startDate, endDate, locExcludePatterns) {
   const failedPRs = [];
   const prs = await octokit.paginate(octokit.pulls.list, {
     owner: GITHUB_ORG,
@@ -288,7 +305,15 @@ async function fetchMonthlyPullRequests(repo, startDate, endDate) {
             repo: repo.name,
             pull_number: pr.number
           });
+          const files = await octokit.paginate(octokit.pulls.listFiles, {
+            owner: GITHUB_ORG,
+            repo: repo.name,
+            pull_number: pr.number,
+            per_page: 100
+          });
+          const lines = filterLineCounts(fullPR, files, locExcludePatterns);
           return {
+      id: pr.id,
       number: pr.number,
       title: pr.title,
       body: pr.body,
@@ -306,8 +331,10 @@ async function fetchMonthlyPullRequests(repo, startDate, endDate) {
             created_at: pr.created_at || fullPR.created_at,  // Use PR creation date from either source
             merged_at: pr.merged_at || fullPR.merged_at,
             closed_at: pr.closed_at || fullPR.closed_at,
-            additions: fullPR.additions || 0,
-            deletions: fullPR.deletions || 0,
+            additions: lines.linesAdded,
+            deletions: lines.linesDeleted,
+            rawAdditions: lines.rawLinesAdded,
+            rawDeletions: lines.rawLinesDeleted,
             commits: fullPR.commits || 0,
             comments: fullPR.comments || 0,
             review_comments: fullPR.review_comments || 0
@@ -343,6 +370,175 @@ async function fetchMonthlyPullRequests(repo, startDate, endDate) {
   return successfulPRs;
 }
 
+// Fetch reviews and inline review comments submitted in a given month
+async function fetchMonthlyReviews(repo, startDate, endDate) {
+  const reviews = [];
+  const reviewComments = [];
+
+  // Reviews can land on PRs opened in earlier months, so walk every PR touched since the month began
+  const prs = await octokit.paginate(octokit.pulls.list, {
+    owner: GITHUB_ORG,
+    repo: repo.name,
+    state: 'all',
+    sort: 'updated',
+    direction: 'desc',
+    per_page: 100
+  }, (response, done) => {
+    const recent = response.data.filter(pr => new Date(pr.updated_at) >= startDate);
+    if (recent.length < response.data.length) done();
+    return recent;
+  });
+
+  const inMonth = timestamp => {
+    if (!timestamp) return false;
+    const date = new Date(timestamp);
+    return date >= startDate && date < endDate;
+  };
+
+  for (const pr of prs) {
+    const pullRequest = {
+      id: pr.id,
+      number: pr.number,
+      authorId: pr.user?.id
+    };
+
+    try {
+      const prReviews = await octokit.paginate(octokit.pulls.listReviews, {
+        owner: GITHUB_ORG,
+        repo: repo.name,
+        pull_number: pr.number,
+        per_page: 100
+      });
+
+      for (const review of prReviews) {
+        if (review.state === 'PENDING' || !inMonth(review.submitted_at)) continue;
+        reviews.push({
+          id: review.id,
+          state: review.state.toLowerCase(),
+          body: review.body,
+          submittedAt: review.submitted_at,
+          url: review.html_url,
+          user: {
+            id: review.user?.id,
+            login: review.user?.login,
+            name: review.user?.login,
+            avatar_url: review.user?.avatar_url
+          },
+          pullRequest
+        });
+      }
+
+      const prComments = await octokit.paginate(octokit.pulls.listReviewComments, {
+        owner: GITHUB_ORG,
+        repo: repo.name,
+        pull_number: pr.number,
+        per_page: 100
+      });
+
+      for (const comment of prComments) {
+        if (!inMonth(comment.created_at)) continue;
+        reviewComments.push({
+          id: comment.id,
+          reviewId: comment.pull_request_review_id,
+          body: comment.body,
+          path: comment.path,
+          createdAt: comment.created_at,
+          url: comment.html_url,
+          user: {
+            id: comment.user?.id,
+            login: comment.user?.login,
+            name: comment.user?.login,
+            avatar_url: comment.user?.avatar_url
+          },
+          pullRequest
+        });
+      }
+    } catch (error) {
+      await log(`FAILED_REVIEWS|${repo.name}|${pr.number}|${pr.user?.login || 'unknown'}|${error.message}`, 'error');
+    }
+  }
+
+  return { reviews, reviewComments };
+}
+
+// Fetch issues opened or closed in a given month
+async function fetchMonthlyIssues(repo, startDate, endDate) {
+  const failedIssues = [];
+  // `since` filters on updated_at, which is never earlier than the open or close date
+  const issues = await octokit.paginate(octokit.issues.listForRepo, {
+    owner: GITHUB_ORG,
+    repo: repo.name,
+    state: 'all',
+    since: startDate.toISOString(),
+    per_page: 100
+  });
+
+  const inMonth = timestamp => {
+    if (!timestamp) return false;
+    const date = new Date(timestamp);
+    return date >= startDate && date < endDate;
+  };
+
+  // The issues endpoint also returns pull requests
+  const filteredIssues = issues.filter(issue =>
+    !issue.pull_request && (inMonth(issue.created_at) || inMonth(issue.closed_at))
+  );
+
+  const detailedIssues = [];
+  for (const issue of filteredIssues) {
+    let closedBy = null;
+
+    // Only the single-issue endpoint tells us who closed it
+    if (inMonth(issue.closed_at)) {
+      try {
+        const { data: fullIssue } = await octokit.issues.get({
+          owner: GITHUB_ORG,
+          repo: repo.name,
+          issue_number: issue.number
+        });
+        closedBy = fullIssue.closed_by;
+      } catch (error) {
+        failedIssues.push({ number: issue.number, error: error.message });
+      }
+    }
+
+    detailedIssues.push({
+      id: issue.id,
+      number: issue.number,
+      title: issue.title,
+      state: issue.state,
+      labels: (issue.labels || []).map(label => typeof label === 'string' ? label : label.name),
+      assignees: (issue.assignees || []).map(assignee => assignee.login),
+      created_at: issue.created_at,
+      closed_at: issue.closed_at,
+      html_url: issue.html_url,
+      user: {
+        id: issue.user?.id,
+        login: issue.user?.login,
+        name: issue.user?.login,
+        avatar_url: issue.user?.avatar_url
+      },
+      closed_by: closedBy ? {
+        id: closedBy.id,
+        login: closedBy.login,
+        name: closedBy.login,
+        avatar_url: closedBy.avatar_url
+      } : null,
+      openedInMonth: inMonth(issue.created_at),
+      closedInMonth: inMonth(issue.closed_at)
+    });
+  }
+
+  if (failedIssues.length > 0) {
+    await log(`\nFailed to fetch closer for ${failedIssues.length} issues in ${repo.name}:`, 'error');
+    for (const failed of failedIssues) {
+      await log(`FAILED_ISSUE|${repo.name}|${failed.number}|${failed.error}`, 'error');
+    }
+  }
+
+  return detailedIssues;
+}
+
 // Utility for retrying failed operations
 async function withRetry(operation, context = '', progressState = null) {
   let lastError;
@@ -424,30 +620,38 @@ async function processMonth(date, progressState, teamId) {
   let completedRepos = new Set();
   let currentRepo = null;
   
-  if (progressState?.lastSuccessfulRun?.month === format(date, 'yyyy-MM')) {
+  if (progressState?.lastSuccessfulRun?.month === format(date, 'yyyy-MM') &&
+      (progressState.lastSuccessfulRun.org || GITHUB_ORG) === GITHUB_ORG) {
     completedRepos = new Set(progressState.lastSuccessfulRun.completedRepos);
     currentRepo = progressState.lastSuccessfulRun.currentRepo;
   }
 
-  // Fetch all repositories
+  // Fetch all repositories, the team's author rules and the paths left out of line counts
   const repos = await fetchRepositories();
-  const monthStats = {
-    overall: {
-      totalCommits: 0,
-      totalPrs: 0,
-      mergedPrs: 0,
-      linesAdded: 0,
-      linesRemoved: 0,
-      averageContributionScore: 0
-    },
+  const authorRules = await loadAuthorRules(teamId);
+  const locExcludePatterns = await loadLocExcludePatterns(teamId);
+
+  // What this run pulled and how much of it was already stored, for the summary
+  const existingContributors = new Set((await prisma.contributor.findMany({
+    where: { teamId },
+    select: { githubUserId: true }
+  })).map(c => c.githubUserId));
+  const newContributors = new Set();
+  const syncStats = {
     repositories: {},
-    contributors: {}
+    total: {
+      pulledCommits: 0,
+      newCommits: 0,
+      existingCommits: 0,
+      pulledPRs: 0,
+      newPRs: 0,
+      existingPRs: 0,
+      newContributors: 0
+    }
   };
 
   // Process each repository
   const spinner = createSpinner('Starting monthly processing...');
-  const allCommits = [];
-  const allPullRequests = [];
   
   for (const repo of repos) {
     if (completedRepos.has(repo.id)) {
@@ -455,110 +659,57 @@ async function processMonth(date, progressState, teamId) {
       continue;
     }
 
+    // Archived repos are read-only; flag them in the database but don't pull activity unless asked
+    if (repo.archived && !program.opts().includeArchived) {
+      await getOrCreateRepo(teamId, repo);
+      spinner.text = chalk.gray(`Skipping ${repo.name} (archived)`);
+      continue;
+    }
+
     spinner.text = chalk.blue(`Processing ${repo.name}`);
     try {
       // Get or create repo record
       const dbRepo = await getOrCreateRepo(teamId, repo);
 
-      // Initialize repository stats if not exists
-      if (!monthStats.repositories[repo.id]) {
-        monthStats.repositories[repo.id] = {
-          name: repo.name,
-          commits: 0,
-          totalPrs: 0,
-          mergedPrs: 0,
-          linesAdded: 0,
-          linesRemoved: 0,
-          activeContributors: 0
-        };
-      }
-
       // Fetch monthly data
       spinner.text = chalk.blue(`Fetching commits for ${repo.name}...`);
-      let commits = await fetchMonthlyCommits(repo, startDate, endDate);
-      let pullRequests = await fetchMonthlyPullRequests(repo, startDate, endDate);
-
-      // Special case for dev.diy: filter to only jonthewayne's contributions
-      if (repo.name === 'dev.diy') {
-        commits = commits.filter(commit => commit.author?.id?.toString() === '4027');
-        pullRequests = pullRequests.filter(pr => pr.user?.id?.toString() === '4027');
-        spinner.text = chalk.blue(`Processing ${commits.length} commits and ${pullRequests.length} PRs from jonthewayne for ${repo.name}...`);
-      } else {
-        spinner.text = chalk.blue(`Processing ${commits.length} commits and ${pullRequests.length} PRs for ${repo.name}...`);
-      }
+      const commits = await fetchMonthlyCommits(repo, startDate, endDate, locExcludePatterns);
+      const pullRequests = await fetchMonthlyPullRequests(repo, startDate, endDate, locExcludePatterns);
+      const { reviews, reviewComments } = await fetchMonthlyReviews(repo, startDate, endDate);
+      const issues = await fetchMonthlyIssues(repo, startDate, endDate);
+
+      spinner.text = chalk.blue(`Processing ${commits.length} commits and ${pullRequests.length} PRs for ${repo.name}...`);
       
-      allCommits.push(...commits.map(c => ({ ...c, repository: repo.id })));
-      allPullRequests.push(...pullRequests.map(pr => ({ ...pr, repository: repo.id })));
+      // Look up what's already stored before writing, or everything would count as existing
+      const existingCommits = new Set((await prisma.commit.findMany({
+        where: { githubCommitId: { in: commits.map(c => c.sha) } },
+        select: { githubCommitId: true }
+      })).map(c => c.githubCommitId));
+      const existingPRs = new Set((await prisma.pullRequest.findMany({
+        where: { githubPrId: { in: pullRequests.map(pr => BigInt(pr.id)) } },
+        select: { githubPrId: true }
+      })).map(pr => pr.githubPrId.toString()));
+      const repoContributors = new Set();
+      const trackContributor = (contributor) => {
+        repoContributors.add(contributor.githubUserId);
+        if (!existingContributors.has(contributor.githubUserId)) {
+          newContributors.add(contributor.githubUserId);
+        }
+      };
 
       // Process commits
       for (const commit of commits) {
-        if (!commit.author?.id) continue;
-
-        // Special handling for lovable-dev[bot] commits in dev-team-stats-tracker
-        let authorToUse = commit.author;
-        if (commit.author.login === 'lovable-dev[bot]' && repo.name === 'dev-team-stats-tracker') {
-          // Find jonthewayne's contributor record
-          const jonthewayne = await prisma.contributor.findFirst({
-            where: {
-              teamId,
-              githubLogin: 'jonthewayne'
-            }
-          });
-          
-          if (jonthewayne) {
-            authorToUse = {
-              id: jonthewayne.githubUserId,
-              login: 'jonthewayne',
-              name: jonthewayne.name,
-              avatar_url: jonthewayne.avatarUrl
-            };
-          }
-        }
+        // Commits without a linked account can still match a contributor by email
+        const commitAuthor = commit.author?.id ? commit.author : await findEmailAuthor(commit.author?.email);
+        if (!commitAuthor) continue;
 
-        // Skip lovable-dev[bot] for other repositories
-        if (commit.author.login === 'lovable-dev[bot]' && repo.name !== 'dev-team-stats-tracker') {
-          continue;
-        }
+        const author = await resolveAuthor(authorRules, commitAuthor, repo.id, findGitHubUser);
+        if (!author) continue;
 
-        const contributor = await getOrCreateContributor(teamId, authorToUse);
+        const contributor = await getOrCreateContributor(teamId, author);
         if (contributor) {
           await createCommit(commit, dbRepo.id, contributor.id, repo.name);
-
-          // Update repository stats
-          const repoStats = monthStats.repositories[repo.id];
-          repoStats.commits++;
-          repoStats.linesAdded += commit.stats?.additions || 0;
-          repoStats.linesRemoved += commit.stats?.deletions || 0;
-
-          // Update contributor stats
-          const userId = authorToUse.id.toString();
-          if (!monthStats.contributors[userId]) {
-            monthStats.contributors[userId] = {
-              login: authorToUse.login,
-              githubUserId: userId,
-              totalCommits: 0,
-              totalPrs: 0,
-              mergedPrs: 0,
-              linesAdded: 0,
-              linesRemoved: 0,
-              activeRepositories: [],
-              contributionScore: 0,
-              tabs: 0,
-              premiumRequests: 0
-            };
-          }
-          const contributorStats = monthStats.contributors[userId];
-          contributorStats.totalCommits++;
-          contributorStats.linesAdded += commit.stats?.additions || 0;
-          contributorStats.linesRemoved += commit.stats?.deletions || 0;
-          if (!contributorStats.activeRepositories.includes(repo.id)) {
-            contributorStats.activeRepositories.push(repo.id);
-          }
-
-          // Update overall stats
-          monthStats.overall.totalCommits++;
-          monthStats.overall.linesAdded += commit.stats?.additions || 0;
-          monthStats.overall.linesRemoved += commit.stats?.deletions || 0;
+          trackContributor(contributor);
         }
       }
 
@@ -566,70 +717,90 @@ async function processMonth(date, progressState, teamId) {
       for (const pr of pullRequests) {
         if (!pr.user?.id) continue;
 
-        // Skip lovable-dev[bot] PRs entirely
-        if (pr.user.login === 'lovable-dev[bot]') {
-          continue;
-        }
+        const author = await resolveAuthor(authorRules, pr.user, repo.id, findGitHubUser);
+        if (!author) continue;
 
-        const contributor = await getOrCreateContributor(teamId, pr.user);
+        const contributor = await getOrCreateContributor(teamId, author);
         if (contributor) {
           await createOrUpdatePullRequest(pr, dbRepo.id, contributor.id, repo.name);
+          trackContributor(contributor);
+        }
+      }
 
-          // Update repository stats
-          const repoStats = monthStats.repositories[repo.id];
-          repoStats.totalPrs++;
-          if (pr.merged) {
-            repoStats.mergedPrs++;
-          }
-          repoStats.linesAdded += pr.additions || 0;
-          repoStats.linesRemoved += pr.deletions || 0;
-
-          // Update contributor stats
-          const userId = pr.user.id.toString();
-          if (!monthStats.contributors[userId]) {
-            monthStats.contributors[userId] = {
-              login: pr.user.login,
-            totalCommits: 0,
-              totalPrs: 0,
-              mergedPrs: 0,
-            linesAdded: 0,
-            linesRemoved: 0,
-              activeRepositories: [],
-              contributionScore: 0,
-            tabs: 0,
-              premiumRequests: 0
-            };
-          }
-          const contributorStats = monthStats.contributors[userId];
-          contributorStats.totalPrs++;
-          if (pr.merged) {
-            contributorStats.mergedPrs++;
-          }
-          contributorStats.linesAdded += pr.additions || 0;
-          contributorStats.linesRemoved += pr.deletions || 0;
-          if (!contributorStats.activeRepositories.includes(repo.id)) {
-            contributorStats.activeRepositories.push(repo.id);
-          }
+      // Process reviews, crediting the reviewer rather than the PR author
+      for (const review of reviews) {
+        if (!review.user?.id) continue;
 
-          // Update overall stats
-          monthStats.overall.totalPrs++;
-          if (pr.merged) {
-            monthStats.overall.mergedPrs++;
-          }
-          monthStats.overall.linesAdded += pr.additions || 0;
-          monthStats.overall.linesRemoved += pr.deletions || 0;
+        const reviewer = await resolveAuthor(authorRules, review.user, repo.id, findGitHubUser);
+        if (!reviewer) continue;
+
+        const contributor = await getOrCreateContributor(teamId, reviewer);
+        if (contributor) {
+          await createReviewEvent(review, 'review', dbRepo.id, contributor.id);
+          trackContributor(contributor);
         }
       }
 
-      // Update active contributors count
-      monthStats.repositories[repo.id].activeContributors = Object.values(monthStats.contributors)
-        .filter(c => c.activeRepositories.includes(repo.id))
-        .length;
+      // Process inline review comments
+      for (const comment of reviewComments) {
+        if (!comment.user?.id) continue;
+
+        const commenter = await resolveAuthor(authorRules, comment.user, repo.id, findGitHubUser);
+        if (!commenter) continue;
+
+        const contributor = await getOrCreateContributor(teamId, commenter);
+        if (contributor) {
+          await createReviewEvent(comment, 'comment', dbRepo.id, contributor.id);
+          trackContributor(contributor);
+        }
+      }
+
+      // Process issues, crediting the opener and whoever closed it
+      for (const issue of issues) {
+        if (!issue.user?.id) continue;
+
+        const opener = await resolveAuthor(authorRules, issue.user, repo.id, findGitHubUser);
+        if (!opener) continue;
+        const closedBy = issue.closed_by?.id
+          ? await resolveAuthor(authorRules, issue.closed_by, repo.id, findGitHubUser)
+          : null;
+
+        const author = await getOrCreateContributor(teamId, opener);
+        if (!author) continue;
+        const closer = closedBy ? await getOrCreateContributor(teamId, closedBy) : null;
+
+        const dbIssue = await createOrUpdateIssue(issue, dbRepo.id, author.id, closer?.id || null);
+
+        if (issue.openedInMonth) {
+          await createIssueEvent(issue, 'opened', dbIssue.id, dbRepo.id, author.id);
+          trackContributor(author);
+        }
+        if (issue.closedInMonth && closer) {
+          await createIssueEvent(issue, 'closed', dbIssue.id, dbRepo.id, closer.id);
+          trackContributor(closer);
+        }
+      }
+
+      const repoStats = {
+        name: repo.name,
+        pulledCommits: commits.length,
+        newCommits: commits.filter(c => !existingCommits.has(c.sha)).length,
+        existingCommits: commits.filter(c => existingCommits.has(c.sha)).length,
+        pulledPRs: pullRequests.length,
+        newPRs: pullRequests.filter(pr => !existingPRs.has(pr.id.toString())).length,
+        existingPRs: pullRequests.filter(pr => existingPRs.has(pr.id.toString())).length,
+        newContributors: Array.from(repoContributors).filter(id => !existingContributors.has(id)).length
+      };
+      syncStats.repositories[repo.id] = repoStats;
+      for (const field of ['pulledCommits', 'newCommits', 'existingCommits', 'pulledPRs', 'newPRs', 'existingPRs']) {
+        syncStats.total[field] += repoStats[field];
+      }
 
       completedRepos.add(repo.id);
       const rateLimit = await octokit.rateLimit.get();
       await saveProgressState({
         lastSuccessfulRun: {
+          org: GITHUB_ORG,
           month: format(date, 'yyyy-MM'),
           completedRepos: Array.from(completedRepos),
           currentRepo: repo.id,
@@ -645,22 +816,7 @@ async function processMonth(date, progressState, teamId) {
     }
   }
 
-  // Calculate contribution scores
-  const allContributorStats = Object.entries(monthStats.contributors).map(([userId, stats]) => ({
-    githubUserId: userId,
-    ...stats
-  }));
-  const scores = calculateContributorScores(allContributorStats);
-  
-  // Update contributor scores
-  Object.entries(monthStats.contributors).forEach(([userId, stats]) => {
-    stats.contributionScore = scores[userId]?.score || 0;
-  });
-
-  // Calculate average contribution score
-  const scoreValues = Object.values(scores).map(s => s.score);
-  monthStats.overall.averageContributionScore = 
-    scoreValues.length > 0 ? scoreValues.reduce((a, b) => a + b) / scoreValues.length : 0;
+  syncStats.total.newContributors = newContributors.size;
 
   spinner.succeed(`Completed processing all repositories for ${monthStr}`);
 
@@ -675,46 +831,11 @@ async function processMonth(date, progressState, teamId) {
     }
   }
 
-  return { monthStats, commits: allCommits, pullRequests: allPullRequests };
+  return syncStats;
 }
 
-// Update month stats in database
-async function updateMonthStats(teamId, monthStart, newStats) {
-  // Find existing month record
-  const existingMonth = await prisma.month.findUnique({
-    where: { 
-      teamId_date: {
-        teamId,
-        date: monthStart
-      }
-    }
-  });
-
-  if (existingMonth) {
-    // Preserve tabs and premiumRequests for existing contributors
-    Object.keys(newStats.contributors).forEach(userId => {
-      if (existingMonth.stats.contributors[userId]) {
-        newStats.contributors[userId].tabs = existingMonth.stats.contributors[userId].tabs;
-        newStats.contributors[userId].premiumRequests = existingMonth.stats.contributors[userId].premiumRequests;
-      }
-    });
-  }
-
-  // Upsert the month record
-  await prisma.month.upsert({
-    where: { 
-      teamId_date: { teamId, date: monthStart } 
-    },
-    create: { 
-      teamId,
-      date: monthStart,
-      stats: newStats 
-    },
-    update: { 
-      stats: newStats 
-    }
-  });
-}
+// Month stats store for recomputeMonth, backed by Prisma
+const prismaMonthStore = createPrismaMonthStore(prisma);
 
 // Format numbers with commas
 function formatNumber(num) {
@@ -722,38 +843,40 @@ function formatNumber(num) {
 }
 
 // Print monthly summary (updated to log to file)
-async function printMonthSummary(monthStats, dbStats) {
+// monthStats is what recomputeMonth saved; syncStats is what processMonth pulled this run
+async function printMonthSummary(monthStats, syncStats, apiCallsRemaining) {
   const lines = [];
   
   lines.push('\nRepository Statistics:');
-  Object.entries(monthStats.repositories).forEach(([repoId, stats]) => {
+  Object.entries(syncStats.repositories).forEach(([repoId, stats]) => {
+    const activeContributors = monthStats.repositories[repoId]?.activeContributors || 0;
     lines.push(`\n${stats.name}`);
-    lines.push(`├── Commits: ${formatNumber(stats.commits)} pulled, ` +
-      `${formatNumber(dbStats[repoId]?.newCommits || 0)} new, ` +
-      `${formatNumber(dbStats[repoId]?.existingCommits || 0)} existing`);
-    lines.push(`├── Pull Requests: ${formatNumber(stats.totalPrs)} pulled, ` +
-      `${formatNumber(dbStats[repoId]?.newPRs || 0)} new, ` +
-      `${formatNumber(dbStats[repoId]?.existingPRs || 0)} existing`);
-    lines.push(`└── Contributors: ${formatNumber(stats.activeContributors)} total, ` +
-      `${formatNumber(dbStats[repoId]?.newContributors || 0)} new, ` +
-      `${formatNumber((stats.activeContributors || 0) - (dbStats[repoId]?.newContributors || 0))} existing`);
+    lines.push(`├── Commits: ${formatNumber(stats.pulledCommits)} pulled, ` +
+      `${formatNumber(stats.newCommits)} new, ` +
+      `${formatNumber(stats.existingCommits)} existing`);
+    lines.push(`├── Pull Requests: ${formatNumber(stats.pulledPRs)} pulled, ` +
+      `${formatNumber(stats.newPRs)} new, ` +
+      `${formatNumber(stats.existingPRs)} existing`);
+    lines.push(`└── Contributors: ${formatNumber(activeContributors)} total, ` +
+      `${formatNumber(stats.newContributors)} new, ` +
+      `${formatNumber(activeContributors - stats.newContributors)} existing`);
   });
 
   const contributorCount = Object.values(monthStats.contributors).length;
-  const newContributors = dbStats.total.newContributors || 0;
+  const newContributors = syncStats.total.newContributors;
   const existingContributors = contributorCount - newContributors;
 
   lines.push('\nTotal Statistics:');
-  lines.push(`├── Commits: ${formatNumber(monthStats.overall.totalCommits)} pulled, ` +
-    `${formatNumber(dbStats.total.newCommits)} new, ` +
-    `${formatNumber(dbStats.total.existingCommits)} existing`);
-  lines.push(`├── Pull Requests: ${formatNumber(monthStats.overall.totalPrs)} pulled, ` +
-    `${formatNumber(dbStats.total.newPRs)} new, ` +
-    `${formatNumber(dbStats.total.existingPRs)} existing`);
+  lines.push(`├── Commits: ${formatNumber(syncStats.total.pulledCommits)} pulled, ` +
+    `${formatNumber(syncStats.total.newCommits)} new, ` +
+    `${formatNumber(syncStats.total.existingCommits)} existing`);
+  lines.push(`├── Pull Requests: ${formatNumber(syncStats.total.pulledPRs)} pulled, ` +
+    `${formatNumber(syncStats.total.newPRs)} new, ` +
+    `${formatNumber(syncStats.total.existingPRs)} existing`);
   lines.push(`├── Contributors: ${formatNumber(contributorCount)} total, ` +
     `${formatNumber(newContributors)} new, ` +
     `${formatNumber(existingContributors)} existing`);
-  lines.push(`└── API Calls Remaining: ${formatNumber(dbStats.apiCallsRemaining)}`);
+  lines.push(`└── API Calls Remaining: ${formatNumber(apiCallsRemaining)}`);
 
   lines.push('\nMonth Stats:');
   
@@ -763,6 +886,7 @@ async function printMonthSummary(monthStats, dbStats) {
   lines.push(`├── Merged Pull Requests: ${formatNumber(monthStats.overall.mergedPrs)}`);
   lines.push(`├── Lines Added: ${formatNumber(monthStats.overall.linesAdded)}`);
   lines.push(`├── Lines Removed: ${formatNumber(monthStats.overall.linesRemoved)}`);
+  lines.push(`├── Issues: ${formatNumber(monthStats.overall.issuesOpened || 0)} opened, ${formatNumber(monthStats.overall.issuesClosed || 0)} closed`);
   lines.push(`└── Average Contribution Score: ${monthStats.overall.averageContributionScore.toFixed(2)}`);
 
   lines.push('\nRepository Activity:');
@@ -784,6 +908,9 @@ async function printMonthSummary(monthStats, dbStats) {
       `Commits: ${formatNumber(stats.totalCommits)}, ` +
       `PRs: ${formatNumber(stats.totalPrs)} (${formatNumber(stats.mergedPrs)} merged), ` +
       `Lines: +${formatNumber(stats.linesAdded)}/-${formatNumber(stats.linesRemoved)}, ` +
+      `Reviews: ${formatNumber(stats.reviewsGiven || 0)} (${formatNumber(stats.approvals || 0)} approved), ` +
+      `Review comments: ${formatNumber(stats.reviewCommentsWritten || 0)}, ` +
+      `Issues: ${formatNumber(stats.issuesOpened || 0)} opened/${formatNumber(stats.issuesClosed || 0)} closed, ` +
       `Active in ${formatNumber(stats.activeRepositories.length)} repos, ` +
       `Score: ${stats.contributionScore.toFixed(2)}`);
   });
@@ -807,7 +934,7 @@ async function printMonthSummary(monthStats, dbStats) {
 // Get or create team based on GitHub organization
 async function getTeamId() {
   if (!GITHUB_ORG) {
-    throw new Error('GITHUB_ORG environment variable is required');
+    throw new Error('GITHUB_ORG environment variable or --org option is required');
   }
 
   // Fetch org details from GitHub to get the numeric ID
@@ -835,25 +962,74 @@ async function getTeamId() {
   return team.id;
 }
 
-// Get or create a repository
+// Get or create a repository, keyed on the stable GitHub id so renames update the same row
 async function getOrCreateRepo(teamId, repo) {
+  const existing = await prisma.repo.findUnique({
+    where: { githubRepoId: repo.id },
+    select: { name: true, archived: true, previousNames: true }
+  });
+
+  const renamed = existing && existing.name !== repo.name;
+  const archived = repo.archived ?? existing?.archived ?? false;
+
   return prisma.repo.upsert({
     where: { githubRepoId: repo.id },
     create: {
       teamId,
       name: repo.name,
       githubRepoId: repo.id,
-      url: repo.html_url
+      url: repo.html_url,
+      archived,
+      archivedAt: archived ? new Date() : null
     },
     update: {
       name: repo.name,
-      url: repo.html_url
+      url: repo.html_url,
+      archived,
+      ...(archived !== existing?.archived ? { archivedAt: archived ? new Date() : null } : {}),
+      ...(renamed ? { previousNames: [...existing.previousNames, existing.name] } : {})
     }
   });
 }
 
-// Get or create a contributor
+// Find the identity mapping a secondary GitHub account, or the email of a commit with no
+// linked account, to the contributor it belongs to
+async function findContributorIdentity(author) {
+  if (author?.id) {
+    return prisma.contributorIdentity.findUnique({
+      where: { type_value: { type: 'GITHUB_ACCOUNT', value: author.id.toString() } },
+      include: { contributor: true }
+    });
+  }
+  if (author?.email) {
+    return prisma.contributorIdentity.findUnique({
+      where: { type_value: { type: 'EMAIL', value: author.email.toLowerCase() } },
+      include: { contributor: true }
+    });
+  }
+  return null;
+}
+
+// The contributor a commit email was merged into, as a GitHub user the author rules can be
+// applied to, or null when the email isn't known
+async function findEmailAuthor(email) {
+  const identity = email ? await findContributorIdentity({ email }) : null;
+  if (!identity) return null;
+
+  const { contributor } = identity;
+  return {
+    id: contributor.githubUserId,
+    login: contributor.githubLogin,
+    name: contributor.name,
+    avatar_url: contributor.avatarUrl
+  };
+}
+
+// Get or create a contributor, resolving merged accounts and emails to the canonical one
 async function getOrCreateContributor(teamId, author) {
+  const identity = await findContributorIdentity(author);
+  if (identity) return identity.contributor;
+
   if (!author?.id) return null;
   return prisma.contributor.upsert({
     where: { githubUserId: author.id.toString() },
@@ -864,14 +1040,57 @@ async function getOrCreateContributor(teamId, author) {
       name: author.name || author.login,
       avatarUrl: author.avatar_url
     },
+    // Names can be edited by admins, so only the login and avatar follow GitHub
     update: {
       githubLogin: author.login,
-      name: author.name || author.login,
       avatarUrl: author.avatar_url
     }
   });
 }
 
+// Load a team's author rules (aliases, ignored authors, restricted repositories)
+async function loadAuthorRules(teamId) {
+  return prisma.authorRule.findMany({ where: { teamId } });
+}
+
+// Load the paths a team leaves out of line counts (lockfiles, build output, generated code)
+async function loadLocExcludePatterns(teamId) {
+  const team = await prisma.team.findUnique({ where: { id: teamId }, select: { locExcludePatterns: true } });
+  return team?.locExcludePatterns || [];
+}
+
+// Alias targets by login, so a busy bot doesn't cost a lookup per commit
+const aliasTargets = new Map();
+
+// Find the GitHub user an alias credits, from our contributors or else from GitHub
+async function findGitHubUser(login) {
+  const key = login.toLowerCase();
+  if (aliasTargets.has(key)) return aliasTargets.get(key);
+
+  let user = null;
+  const contributor = await prisma.contributor.findFirst({
+    where: { githubLogin: { equals: login, mode: 'insensitive' } }
+  });
+  if (contributor) {
+    user = {
+      id: contributor.githubUserId,
+      login: contributor.githubLogin,
+      name: contributor.name,
+      avatar_url: contributor.avatarUrl
+    };
+  } else {
+    try {
+      const { data } = await octokit.users.getByUsername({ username: login });
+      user = { id: data.id, login: data.login, name: data.name || data.login, avatar_url: data.avatar_url };
+    } catch (error) {
+      if (error.status !== 404) throw error;
+    }
+  }
+
+  aliasTargets.set(key, user);
+  return user;
+}
+
 // Create commit record
 async function createCommit(commit, repoId, authorId, repoName) {
   return prisma.commit.upsert({
@@ -881,6 +1100,8 @@ async function createCommit(commit, repoId, authorId, repoName) {
       message: commit.message,
       linesAdded: commit.stats.additions,
       linesDeleted: commit.stats.deletions,
+      rawLinesAdded: commit.rawStats.additions,
+      rawLinesDeleted: commit.rawStats.deletions,
       authoredAt: new Date(commit.authoredAt),
       committedAt: new Date(commit.committedAt),
       url: `https://github.com/${GITHUB_ORG}/${repoName}/commit/${commit.sha}`,
@@ -891,6 +1112,8 @@ async function createCommit(commit, repoId, authorId, repoName) {
       message: commit.message,
       linesAdded: commit.stats.additions,
       linesDeleted: commit.stats.deletions,
+      rawLinesAdded: commit.rawStats.additions,
+      rawLinesDeleted: commit.rawStats.deletions,
       authoredAt: new Date(commit.authoredAt),
       committedAt: new Date(commit.committedAt),
       url: `https://github.com/${GITHUB_ORG}/${repoName}/commit/${commit.sha}`,
@@ -913,9 +1136,9 @@ async function createOrUpdatePullRequest(pr, repoId, authorId, repoName) {
   }
 
   return prisma.pullRequest.upsert({
-    where: { githubPrId: pr.number },
+    where: { githubPrId: pr.id },
     create: {
-      githubPrId: pr.number,
+      githubPrId: pr.id,
       title: pr.title,
       description: pr.body || '',
       status: pr.merged ? 'MERGED' : pr.state === 'closed' ? 'CLOSED' : 'OPEN',
@@ -929,6 +1152,8 @@ async function createOrUpdatePullRequest(pr, repoId, authorId, repoName) {
       url: `https://github.com/${GITHUB_ORG}/${repoName}/pull/${pr.number}`,
       linesAdded: pr.additions || 0,
       linesDeleted: pr.deletions || 0,
+      rawLinesAdded: pr.rawAdditions || 0,
+      rawLinesDeleted: pr.rawDeletions || 0,
       commits: pr.commits || 0,
       comments: (pr.comments || 0) + (pr.review_comments || 0),
       reviews: pr.review_comments || 0,
@@ -945,6 +1170,8 @@ async function createOrUpdatePullRequest(pr, repoId, authorId, repoName) {
       url: `https://github.com/${GITHUB_ORG}/${repoName}/pull/${pr.number}`,
       linesAdded: pr.additions || 0,
       linesDeleted: pr.deletions || 0,
+      rawLinesAdded: pr.rawAdditions || 0,
+      rawLinesDeleted: pr.rawDeletions || 0,
       commits: pr.commits || 0,
       comments: (pr.comments || 0) + (pr.review_comments || 0),
       reviews: pr.review_comments || 0
@@ -952,6 +1179,128 @@ async function createOrUpdatePullRequest(pr, repoId, authorId, repoName) {
   });
 }
 
+// Create an event for a review or inline review comment, using the same ids as the webhook
+async function createReviewEvent(item, kind, repoId, contributorId) {
+  const pullRequest = await prisma.pullRequest.findFirst({
+    where: {
+      repoId,
+      url: { endsWith: `/pull/${item.pullRequest.number}` }
+    },
+    select: { id: true, authorId: true }
+  });
+
+  const isReview = kind === 'review';
+  const githubEventId = isReview ? `review_${item.id}_submitted` : `review_comment_${item.id}_created`;
+  const type = !isReview ? 'PR_COMMENTED' :
+    item.state === 'approved' ? 'PR_APPROVED' :
+    item.state === 'changes_requested' ? 'PR_CHANGES_REQUESTED' : 'PR_REVIEWED';
+  const occurredAt = new Date(isReview ? item.submittedAt : item.createdAt);
+  const details = isReview
+    ? {
+        state: item.state,
+        body: item.body,
+        submittedAt: item.submittedAt,
+        url: item.url,
+        prNumber: item.pullRequest.number,
+        prAuthorId: pullRequest?.authorId || null
+      }
+    : {
+        body: item.body,
+        path: item.path,
+        reviewId: item.reviewId,
+        createdAt: item.createdAt,
+        url: item.url,
+        prNumber: item.pullRequest.number,
+        prAuthorId: pullRequest?.authorId || null
+      };
+
+  return prisma.event.upsert({
+    where: { githubEventId },
+    create: {
+      githubEventId,
+      type,
+      action: isReview ? 'submitted' : 'created',
+      details,
+      rawJson: item,
+      pullRequestId: pullRequest?.id || null,
+      contributorId,
+      repoId,
+      occurredAt
+    },
+    update: {
+      type,
+      details,
+      rawJson: item,
+      pullRequestId: pullRequest?.id || null,
+      contributorId,
+      occurredAt
+    }
+  });
+}
+
+// Create or update issue record
+async function createOrUpdateIssue(issue, repoId, authorId, closedById) {
+  const data = {
+    number: issue.number,
+    title: issue.title,
+    state: issue.state === 'closed' ? 'CLOSED' : 'OPEN',
+    labels: issue.labels,
+    assignees: issue.assignees,
+    openedAt: new Date(issue.created_at),
+    closedAt: issue.closed_at ? new Date(issue.closed_at) : null,
+    url: issue.html_url,
+    repoId,
+    authorId
+  };
+
+  return prisma.issue.upsert({
+    where: { githubIssueId: BigInt(issue.id) },
+    create: {
+      githubIssueId: BigInt(issue.id),
+      ...data,
+      closedById
+    },
+    update: {
+      ...data,
+      // Don't wipe a closer the webhook already recorded
+      ...(closedById ? { closedById } : {})
+    }
+  });
+}
+
+// Create an opened/closed event for an issue, using the same ids as the webhook
+async function createIssueEvent(issue, action, issueId, repoId, contributorId) {
+  const githubEventId = `issue_${issue.id}_${action}`;
+  const occurredAt = new Date(action === 'opened' ? issue.created_at : issue.closed_at);
+  const details = {
+    title: issue.title,
+    number: issue.number,
+    labels: issue.labels,
+    assignees: issue.assignees
+  };
+
+  return prisma.event.upsert({
+    where: { githubEventId },
+    create: {
+      githubEventId,
+      type: action === 'opened' ? 'ISSUE_OPENED' : 'ISSUE_CLOSED',
+      action,
+      details,
+      rawJson: issue,
+      issueId,
+      contributorId,
+      repoId,
+      occurredAt
+    },
+    update: {
+      details,
+      issueId,
+      contributorId,
+      occurredAt
+    }
+  });
+}
+
 // Add retry functionality
 async function findFailedItems(numLogs = 0) {
   const logFiles = await fs.readdir(LOG_DIR);
@@ -1018,6 +1367,19 @@ async function retryFailedItems(teamId, numLogs = 0) {
     return;
   }
 
+  const authorRules = await loadAuthorRules(teamId);
+  const locExcludePatterns = await loadLocExcludePatterns(teamId);
+
+  // Failed items are logged by repository name, so look up each repository's id once
+  const repoIds = new Map();
+  const getRepoId = async (name) => {
+    if (!repoIds.has(name)) {
+      const { data: repoData } = await octokit.repos.get({ owner: GITHUB_ORG, repo: name });
+      repoIds.set(name, repoData.id.toString());
+    }
+    return repoIds.get(name);
+  };
+
   // Retry commits
   if (failed.commits.size > 0) {
     spinner.text = 'Retrying failed commits...';
@@ -1032,8 +1394,9 @@ async function retryFailedItems(teamId, numLogs = 0) {
         });
 
         // Get or create repo record
-        const dbRepo = await getOrCreateRepo(teamId, { name: repo, id: fullCommit.repository?.id?.toString() });
+        const dbRepo = await getOrCreateRepo(teamId, { name: repo, id: await getRepoId(repo) });
 
+        const lines = filterLineCounts(fullCommit.stats || {}, fullCommit.files, locExcludePatterns);
         const commit = {
           sha,
           message: fullCommit.commit.message,
@@ -1041,17 +1404,31 @@ async function retryFailedItems(teamId, numLogs = 0) {
             id: fullCommit.author?.id,
             login: fullCommit.author?.login,
             name: fullCommit.commit.author.name,
+            email: fullCommit.commit.author.email,
             avatar_url: fullCommit.author?.avatar_url
           },
           authoredAt: fullCommit.commit.author.date,
           committedAt: fullCommit.commit.committer.date,
           stats: {
-            additions: fullCommit.stats?.additions || 0,
-            deletions: fullCommit.stats?.deletions || 0
+            additions: lines.linesAdded,
+            deletions: lines.linesDeleted
+          },
+          rawStats: {
+            additions: lines.rawLinesAdded,
+            deletions: lines.rawLinesDeleted
           }
         };
 
-        const contributor = await getOrCreateContributor(teamId, commit.author);
+        // Commits without a linked account can still match a contributor by email
+        const linkedAuthor = commit.author.id ? commit.author : await findEmailAuthor(commit.author.email);
+        const commitAuthor = linkedAuthor &&
+          await resolveAuthor(authorRules, linkedAuthor, dbRepo.githubRepoId, findGitHubUser);
+        if (!commitAuthor) {
+          spinner.info(`Skipped commit ${sha} (unknown author or excluded by author rules)`);
+          continue;
+        }
+
+        const contributor = await getOrCreateContributor(teamId, commitAuthor);
         if (contributor) {
           await createCommit(commit, dbRepo.id, contributor.id, repo);
           spinner.succeed(`Successfully reprocessed commit ${sha}`);
@@ -1079,7 +1456,16 @@ async function retryFailedItems(teamId, numLogs = 0) {
         // Get or create repo record
         const dbRepo = await getOrCreateRepo(teamId, { name: repo, id: fullPR.base.repo.id.toString() });
 
+        const files = await octokit.paginate(octokit.pulls.listFiles, {
+          owner: GITHUB_ORG,
+          repo,
+          pull_number: parseInt(number),
+          per_page: 100
+        });
+        const lines = filterLineCounts(fullPR, files, locExcludePatterns);
+
         const pr = {
+          id: fullPR.id,
           number: parseInt(number),
           title: fullPR.title,
           body: fullPR.body,
@@ -1096,14 +1482,22 @@ async function retryFailedItems(teamId, numLogs = 0) {
           },
           mergedAt: fullPR.merged_at,
           closedAt: fullPR.closed_at,
-          additions: fullPR.additions || 0,
-          deletions: fullPR.deletions || 0,
+          additions: lines.linesAdded,
+          deletions: lines.linesDeleted,
+          rawAdditions: lines.rawLinesAdded,
+          rawDeletions: lines.rawLinesDeleted,
           commits: fullPR.commits || 0,
           comments: fullPR.comments || 0,
           review_comments: fullPR.review_comments || 0
         };
 
-        const contributor = await getOrCreateContributor(teamId, pr.user);
+        const prAuthor = await resolveAuthor(authorRules, pr.user, dbRepo.githubRepoId, findGitHubUser);
+        if (!prAuthor) {
+          spinner.info(`Skipped PR #${number} (excluded by author rules)`);
+          continue;
+        }
+
+        const contributor = await getOrCreateContributor(teamId, prAuthor);
         if (contributor) {
           await createOrUpdatePullRequest(pr, dbRepo.id, contributor.id, repo);
           spinner.succeed(`Successfully reprocessed PR #${number}`);
@@ -1123,6 +1517,10 @@ program
   .requiredOption('-s, --start-date <date>', 'Start date (YYYY-MM)')
   .requiredOption('-m, --months <number>', 'Number of months to process', parseInt)
   .option('-f, --force', 'Ignore saved progress state')
+  .option('--include-archived', 'Also sync activity from archived repositories')
+  .option('--recompute', 'Rebuild month stats from the database without fetching from GitHub')
+  .option('--scoring-profile <id>', 'With --recompute, rescore the months under this scoring profile')
+  .option('-o, --org <orgs>', 'Comma-separated organizations to sync (defaults to GITHUB_ORG)')
   .option('-r, --retry [number]', 'Retry failed items from logs, optionally specify number of recent log files to check', (value) => value ? parseInt(value) : 1)
   .parse(process.argv);
 
@@ -1132,9 +1530,18 @@ async function main() {
     await initialize();  // Initialize everything in the correct order
     
     const options = program.opts();
-    const teamId = await getTeamId();
+    const orgs = parseOrgs(options.org || process.env.GITHUB_ORG);
+    if (orgs.length === 0) {
+      throw new Error('GITHUB_ORG environment variable or --org option is required');
+    }
 
     if (options.retry !== undefined) {
+      // Failed items are logged by repository name only, so retry one org at a time
+      if (orgs.length > 1) {
+        throw new Error('Retry mode handles one organization at a time. Pick it with --org');
+      }
+      GITHUB_ORG = orgs[0];
+      const teamId = await getTeamId();
       const numLogs = options.retry;
       const logsMsg = ` from the last ${numLogs} log file${numLogs === 1 ? '' : 's'}`;
       await log(`Running in retry mode - will attempt to reprocess failed items${logsMsg}`);
@@ -1143,7 +1550,7 @@ async function main() {
     }
 
     await log('\nStarting GitHub sync script');
-    await log(`Command: sync-github.js --start-date ${options.startDate} --months ${options.months}${options.force ? ' --force' : ''}\n`);
+    await log(`Command: sync-github.js --start-date ${options.startDate} --months ${options.months}${options.org ? ` --org ${options.org}` : ''}${options.force ? ' --force' : ''}${options.includeArchived ? ' --include-archived' : ''}${options.recompute ? ' --recompute' : ''}${options.scoringProfile ? ` --scoring-profile ${options.scoringProfile}` : ''}\n`);
     
     // Validate start date
     const startDate = parse(options.startDate, 'yyyy-MM', new Date());
@@ -1151,117 +1558,68 @@ async function main() {
       throw new Error('Invalid start date format. Use YYYY-MM');
     }
 
+    if (options.recompute) {
+      await log('Running in recompute mode - rebuilding month stats from the database');
+      for (const org of orgs) {
+        GITHUB_ORG = org;
+        const teamId = await getTeamId();
+        if (options.scoringProfile &&
+            !(await prisma.scoringProfile.findFirst({ where: { id: options.scoringProfile, teamId } }))) {
+          throw new Error(`Scoring profile ${options.scoringProfile} doesn't belong to ${org}`);
+        }
+        for (let i = 0; i < options.months; i++) {
+          const currentMonth = startOfMonth(addMonths(startDate, i));
+          const spinner = createSpinner(`Recomputing ${org} ${format(currentMonth, 'MMMM yyyy')}...`);
+          const stats = await recomputeMonth(prismaMonthStore, teamId, currentMonth, options.scoringProfile);
+          spinner.succeed(`Recomputed ${org} ${format(currentMonth, 'MMMM yyyy')}: ` +
+            `${formatNumber(stats.overall.totalCommits)} commits, ` +
+            `${formatNumber(stats.overall.totalPrs)} PRs, ` +
+            `${formatNumber(stats.overall.activeContributors)} contributors`);
+        }
+      }
+      await log('Recompute completed successfully!', 'success');
+      return;
+    }
+
     // Initialize or load progress state
     let progressState = null;
     if (!options.force) {
       progressState = await loadProgressState();
     }
 
-    // Process each month
-    for (let i = 0; i < options.months; i++) {
-      const currentMonth = startOfMonth(addMonths(startDate, i));
-      const monthStr = format(currentMonth, 'MMMM yyyy');
+    // Sync each organization into its own team
+    for (const org of orgs) {
+      GITHUB_ORG = org;
+      const teamId = await getTeamId();
+      console.log(chalk.cyan(`\nSyncing organization ${org}...`));
+
+      // Process each month
+      for (let i = 0; i < options.months; i++) {
+        const currentMonth = startOfMonth(addMonths(startDate, i));
+        const monthStr = format(currentMonth, 'MMMM yyyy');
       
-      console.log(chalk.cyan(`\nProcessing ${monthStr}...`));
-      const spinner = createSpinner('Starting monthly processing...');
+        console.log(chalk.cyan(`\nProcessing ${monthStr}...`));
+        const spinner = createSpinner('Starting monthly processing...');
 
-      try {
-        const { monthStats, commits, pullRequests } = await withRetry(
-          () => processMonth(currentMonth, progressState, teamId),
-          `processing ${monthStr}`,
-          progressState
-        );
-
-        spinner.succeed(`Completed processing ${monthStr}`);
-        await updateMonthStats(teamId, currentMonth, monthStats);
-        
-        // Get existing commits and PRs from database
-        const existingCommits = new Set((await prisma.commit.findMany({
-          where: { 
-            repoId: { in: Object.keys(monthStats.repositories) },
-            committedAt: {
-              gte: startOfMonth(currentMonth),
-              lt: startOfMonth(addMonths(currentMonth, 1))
-            }
-          },
-          select: { githubCommitId: true }
-        })).map(c => c.githubCommitId));
-
-        const existingPRs = new Set((await prisma.pullRequest.findMany({
-          where: { 
-            repoId: { in: Object.keys(monthStats.repositories) },
-            openedAt: {
-              gte: startOfMonth(currentMonth),
-              lt: startOfMonth(addMonths(currentMonth, 1))
-            }
-          },
-          select: { githubPrId: true }
-        })).map(pr => pr.githubPrId));
-
-        // For contributors, we still want to check all existing ones since they persist across months
-        const existingContributors = new Set((await prisma.contributor.findMany({
-          where: { teamId },
-          select: { githubUserId: true }
-        })).map(c => c.githubUserId));
-        
-        // Initialize dbStats with default values
-        const dbStats = {
-          total: {
-            newCommits: 0,
-            existingCommits: 0,
-            newPRs: 0,
-            existingPRs: 0,
-            newContributors: 0
-          },
-          apiCallsRemaining: (await octokit.rateLimit.get()).data.rate.remaining
-        };
-        
-        // Add stats for each repository
-        Object.entries(monthStats.repositories).forEach(([repoId, stats]) => {
-          // Count new vs existing commits for this repo
-          const repoCommits = commits.filter(c => c.repository === repoId);
-          const newCommitsCount = repoCommits.filter(c => !existingCommits.has(c.sha)).length;
-          const existingCommitsCount = repoCommits.length - newCommitsCount;
-
-          // Count new vs existing PRs for this repo
-          const repoPRs = pullRequests.filter(pr => pr.repository === repoId);
-          const newPRsCount = repoPRs.filter(pr => !existingPRs.has(pr.number)).length;
-          const existingPRsCount = repoPRs.length - newPRsCount;
-
-          // Count new vs existing contributors for this repo
-          const repoContributors = new Set([
-            ...repoCommits.map(c => c.author?.id?.toString()).filter(Boolean),
-            ...repoPRs.map(pr => pr.user?.id?.toString()).filter(Boolean)
-          ]);
-          const newContributorsCount = Array.from(repoContributors).filter(id => !existingContributors.has(id)).length;
-
-          dbStats[repoId] = {
-            newCommits: newCommitsCount,
-            existingCommits: existingCommitsCount,
-            newPRs: newPRsCount,
-            existingPRs: existingPRsCount,
-            newContributors: newContributorsCount
-          };
+        try {
+          const syncStats = await withRetry(
+            () => processMonth(currentMonth, progressState, teamId),
+            `processing ${monthStr}`,
+            progressState
+          );
 
-          // Add to totals
-          dbStats.total.newCommits += newCommitsCount;
-          dbStats.total.existingCommits += existingCommitsCount;
-          dbStats.total.newPRs += newPRsCount;
-          dbStats.total.existingPRs += existingPRsCount;
-        });
+          spinner.succeed(`Completed processing ${monthStr}`);
 
-        // Calculate total new contributors
-        const allContributors = new Set([
-          ...Object.values(monthStats.contributors).map(c => c.githubUserId)
-        ]);
-        dbStats.total.newContributors = Array.from(allContributors)
-          .filter(id => !existingContributors.has(id)).length;
+          // Save stats rebuilt from everything stored for the month, including webhook activity
+          const monthStats = await recomputeMonth(prismaMonthStore, teamId, currentMonth);
 
-        await printMonthSummary(monthStats, dbStats);
+          const apiCallsRemaining = (await octokit.rateLimit.get()).data.rate.remaining;
+          await printMonthSummary(monthStats, syncStats, apiCallsRemaining);
 
-      } catch (error) {
-        spinner.fail(`Failed to process ${monthStr}`);
-        throw error;
+        } catch (error) {
+          spinner.fail(`Failed to process ${monthStr}`);
+          throw error;
+        }
       }
     }
 
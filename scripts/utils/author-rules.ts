@@ -0,0 +1,71 @@
+// Per-team rules for whose activity counts, shared by the webhook and the sync script:
+// ALIAS credits one author's activity to another login (e.g. a bot to the person driving it),
+// IGNORE skips an author, and RESTRICT_REPO only keeps the listed authors in a repository.
+export type AuthorRuleType = 'ALIAS' | 'IGNORE' | 'RESTRICT_REPO';
+
+export interface AuthorRule {
+  type: AuthorRuleType;
+  githubLogin: string | null;
+  targetLogin: string | null;
+  githubRepoId: string | null;
+  allowedLogins: string[] | null;
+}
+
+interface RuleUser {
+  id: number | string;
+  login: string;
+}
+
+export const AUTHOR_RULE_TYPES: AuthorRuleType[] = ['ALIAS', 'IGNORE', 'RESTRICT_REPO'];
+
+const sameLogin = (a: string | null | undefined, b: string | null | undefined) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+// Login to credit for `login`'s activity in the repository, or null to skip the activity.
+// Aliases are applied first, so IGNORE and RESTRICT_REPO see the login being credited.
+export function resolveAuthorLogin(
+  rules: AuthorRule[],
+  login: string,
+  githubRepoId?: string | number | null
+): string | null {
+  const applicable = rules.filter(rule =>
+    !rule.githubRepoId || rule.githubRepoId === githubRepoId?.toString()
+  );
+
+  // An alias for this repository wins over one for every repository
+  const alias = applicable
+    .filter(rule => rule.type === 'ALIAS' && rule.targetLogin && sameLogin(rule.githubLogin, login))
+    .sort((a, b) => Number(!!b.githubRepoId) - Number(!!a.githubRepoId))[0];
+  const resolved = alias ? alias.targetLogin : login;
+
+  if (applicable.some(rule => rule.type === 'IGNORE' && sameLogin(rule.githubLogin, resolved))) {
+    return null;
+  }
+
+  const restricted = applicable.some(rule =>
+    rule.type === 'RESTRICT_REPO' &&
+    rule.githubRepoId &&
+    !(rule.allowedLogins || []).some(allowed => sameLogin(allowed, resolved))
+  );
+  return restricted ? null : resolved;
+}
+
+// Apply the rules to a GitHub user ({ id, login, ... }). Returns the user itself, the alias
+// target looked up with `findUser(login)`, or null when the activity should be skipped.
+export async function resolveAuthor<T extends RuleUser>(
+  rules: AuthorRule[],
+  user: T | null | undefined,
+  githubRepoId: string | number | null | undefined,
+  findUser: (login: string) => Promise<T | null>
+): Promise<T | null> {
+  if (!user?.login) return user ?? null;
+
+  const login = resolveAuthorLogin(rules, user.login, githubRepoId);
+  if (!login) return null;
+  if (sameLogin(login, user.login)) return user;
+
+  const target = await findUser(login);
+  if (!target) {
+    throw new Error(`Alias target ${login} for ${user.login} isn't a GitHub user`);
+  }
+  return target;
+}
@@ -0,0 +1,146 @@
+// Contribution scores, shared by the sync script, the webhook, merge-contributors and the
+// dashboard. Each metric is normalized to 0-1 against the rest of the team that month,
+// weighted, and summed into a score out of 100 (when the weights add up to 1).
+
+export interface ScoreWeights {
+  loc: number;             // Lines of code
+  mergedPRs: number;       // Merged Pull Requests
+  commits: number;         // Total commits
+  reviews: number;         // Reviews given on other people's PRs
+  reviewComments: number;  // Inline review comments written
+  tabs: number;            // Total tabs
+  premiumRequests: number; // Total premium requests
+}
+
+export type ScoreMetric = keyof ScoreWeights;
+
+// How a metric is scaled against the team:
+//   MAX         share of the highest value; one huge month flattens everyone else
+//   PERCENTILE  share of the team at or below the value, ignoring how far ahead anyone is
+//   LOG         like MAX on a log scale, so outliers count for less
+//   ZSCORE      standard deviations from the team mean, capped at ±2 and mapped to 0-1
+export type NormalizationStrategy = 'MAX' | 'PERCENTILE' | 'LOG' | 'ZSCORE';
+
+export const NORMALIZATION_STRATEGIES: NormalizationStrategy[] = ['MAX', 'PERCENTILE', 'LOG', 'ZSCORE'];
+
+const ZSCORE_CAP = 2;
+
+// The Month.stats contributor fields a score is calculated from
+export interface ScoreInput {
+  githubUserId: string;
+  login: string;
+  linesAdded: number;
+  linesRemoved: number;
+  mergedPrs: number;
+  totalCommits: number;
+  reviewsGiven?: number;
+  reviewCommentsWritten?: number;
+  tabs?: number;
+  premiumRequests?: number;
+}
+
+// One metric's share of a contributor's score
+export interface ScoreComponent {
+  value: number;       // The contributor's count
+  teamMax: number;     // Highest count on the team that month
+  normalized: number;  // The count scaled to 0-1 by the profile's normalization
+  weight: number;
+  points: number;      // weight × normalized × 100; a score is its components' points, rounded
+}
+
+export type ScoreBreakdown = Record<ScoreMetric, ScoreComponent>;
+
+export interface ContributorScore {
+  score: number;
+  login: string;
+  breakdown: ScoreBreakdown;
+}
+
+// Scores keyed by githubUserId
+export type ContributorScores = Record<string, ContributorScore>;
+
+// Weights for teams without a scoring profile, matching the Default profile every team starts on
+export const SCORE_WEIGHTS: ScoreWeights = {
+  loc: 0.40,
+  mergedPRs: 0.10,
+  commits: 0.05,
+  reviews: 0.10,
+  reviewComments: 0.05,
+  tabs: 0.10,
+  premiumRequests: 0.20
+};
+
+// How each metric is read from a contributor's stats. Missing counts are zero.
+export const SCORE_METRICS: Record<ScoreMetric, (stats: ScoreInput) => number> = {
+  loc: stats => (stats.linesAdded || 0) + (stats.linesRemoved || 0),
+  mergedPRs: stats => stats.mergedPrs || 0,
+  commits: stats => stats.totalCommits || 0,
+  reviews: stats => stats.reviewsGiven || 0,
+  reviewComments: stats => stats.reviewCommentsWritten || 0,
+  tabs: stats => stats.tabs || 0,
+  premiumRequests: stats => stats.premiumRequests || 0
+};
+
+const METRIC_NAMES = Object.keys(SCORE_METRICS) as ScoreMetric[];
+
+// Build a function scaling one contributor's value of a metric to 0-1, given every
+// contributor's value. Whatever the strategy, a contributor with none of a metric gets 0.
+export function createNormalizer(values: number[], strategy: NormalizationStrategy = 'MAX'): (value: number) => number {
+  const max = values.reduce((highest, value) => Math.max(highest, value), 0);
+  if (!max) return () => 0;
+
+  switch (strategy) {
+    case 'PERCENTILE':
+      return value => value > 0 ? values.filter(other => other <= value).length / values.length : 0;
+    case 'LOG':
+      return value => value > 0 ? Math.log1p(value) / Math.log1p(max) : 0;
+    case 'ZSCORE': {
+      const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+      const deviation = Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+      return value => {
+        if (value <= 0) return 0;
+        if (!deviation) return 1;  // Everyone has the same, non-zero value
+        const z = Math.min(Math.max((value - mean) / deviation, -ZSCORE_CAP), ZSCORE_CAP);
+        return (z + ZSCORE_CAP) / (2 * ZSCORE_CAP);
+      };
+    }
+    case 'MAX':
+    default:
+      return value => value / max;
+  }
+}
+
+// Calculate contribution scores for all contributors
+export function calculateContributorScores(
+  contributorStats: ScoreInput[],
+  weights: ScoreWeights = SCORE_WEIGHTS,
+  normalization: NormalizationStrategy = 'MAX'
+): ContributorScores {
+  const normalizers = {} as Record<ScoreMetric, (value: number) => number>;
+  const teamMax = {} as Record<ScoreMetric, number>;
+  for (const metric of METRIC_NAMES) {
+    const values = contributorStats.map(SCORE_METRICS[metric]);
+    normalizers[metric] = createNormalizer(values, normalization);
+    teamMax[metric] = values.reduce((highest, value) => Math.max(highest, value), 0);
+  }
+
+  const scores: ContributorScores = {};
+  for (const stats of contributorStats) {
+    const breakdown = {} as ScoreBreakdown;
+    let points = 0;
+    for (const metric of METRIC_NAMES) {
+      const value = SCORE_METRICS[metric](stats);
+      const normalized = normalizers[metric](value);
+      const weight = weights[metric] || 0;
+      breakdown[metric] = { value, teamMax: teamMax[metric], normalized, weight, points: weight * normalized * 100 };
+      points += breakdown[metric].points;
+    }
+
+    scores[stats.githubUserId] = {
+      score: Math.round(points),
+      login: stats.login,  // Keep track of current login
+      breakdown
+    };
+  }
+  return scores;
+}
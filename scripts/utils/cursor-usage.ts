@@ -0,0 +1,248 @@
+// Cursor usage, shared by the import script and the /import-cursor-usage function. Cursor
+// reports usage per member and day, both in the team usage export (CSV) and from the Admin
+// API's daily usage endpoint; either way it's matched to contributors by their cursorEmail.
+
+// One member's usage for one day
+export interface CursorUsageRow {
+  date: string;             // yyyy-MM-dd (UTC)
+  email: string;            // Lowercased
+  tabs: number;             // Tab completions accepted
+  premiumRequests: number;  // Requests counted against the plan's fast requests, plus usage-based ones
+}
+
+// Usage matched to a contributor, ready to be stored as a CursorUsage row
+export interface MatchedCursorUsage extends Omit<CursorUsageRow, 'email'> {
+  contributorId: string;
+  teamId: string;
+}
+
+export interface CursorContributor {
+  id: string;
+  teamId: string;
+  cursorEmail: string | null;
+}
+
+type UsageRecord = Record<string, string | number | boolean | null | undefined>;
+
+export const CURSOR_API_URL = 'https://api.cursor.com';
+
+// The Admin API rejects ranges longer than this, so longer ones are fetched in chunks
+const MAX_API_RANGE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Column names differ between the export ("Tabs Accepted") and the API ("totalTabsAccepted"),
+// so both are compared lowercased with everything but letters and digits removed
+const COLUMNS = {
+  date: ['date'],
+  email: ['email', 'useremail'],
+  tabs: ['totaltabsaccepted', 'tabsaccepted'],
+  premiumRequests: ['premiumrequests'],
+  // Summed into premiumRequests when there's no premiumRequests column
+  includedRequests: ['subscriptionincludedreqs', 'subscriptionincludedrequests'],
+  usageBasedRequests: ['usagebasedreqs', 'usagebasedrequests']
+};
+
+function normalizeKey(key: string) {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function findValue(record: UsageRecord, names: string[]) {
+  const name = names.find(name => record[name] !== undefined && record[name] !== '');
+  return name ? record[name] : undefined;
+}
+
+function toCount(value: unknown) {
+  const count = Number(value);
+  return Number.isFinite(count) && count > 0 ? Math.round(count) : 0;
+}
+
+// Dates come as yyyy-MM-dd, ISO timestamps, or epoch milliseconds from the API
+function toDay(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  const date = typeof value === 'number' || /^\d+$/.test(String(value))
+    ? new Date(Number(value))
+    : new Date(/^\d{4}-\d{2}-\d{2}$/.test(String(value)) ? `${value}T00:00:00Z` : String(value));
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+// Map one export row or API record to a usage row. `where` names it in error messages.
+function toUsageRow(record: UsageRecord, where: string): CursorUsageRow | null {
+  const normalized: UsageRecord = {};
+  for (const [key, value] of Object.entries(record)) {
+    normalized[normalizeKey(key)] = value;
+  }
+
+  const email = String(findValue(normalized, COLUMNS.email) || '').trim().toLowerCase();
+  if (!email) return null;  // Removed members have no email left to match
+
+  const date = toDay(findValue(normalized, COLUMNS.date));
+  if (!date) {
+    throw new Error(`${where} has no valid date`);
+  }
+
+  const premiumRequests = findValue(normalized, COLUMNS.premiumRequests);
+  return {
+    date,
+    email,
+    tabs: toCount(findValue(normalized, COLUMNS.tabs)),
+    premiumRequests: premiumRequests !== undefined
+      ? toCount(premiumRequests)
+      : toCount(findValue(normalized, COLUMNS.includedRequests)) + toCount(findValue(normalized, COLUMNS.usageBasedRequests))
+  };
+}
+
+// Add up rows for the same member and day, so a day is never stored twice
+function combineRows(rows: CursorUsageRow[]): CursorUsageRow[] {
+  const combined = new Map<string, CursorUsageRow>();
+  for (const row of rows) {
+    const key = `${row.email}|${row.date}`;
+    const existing = combined.get(key);
+    if (existing) {
+      existing.tabs += row.tabs;
+      existing.premiumRequests += row.premiumRequests;
+    } else {
+      combined.set(key, { ...row });
+    }
+  }
+  return [...combined.values()];
+}
+
+// Split CSV text into rows of fields, following RFC 4180 quoting
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim()));
+}
+
+// Usage rows from Cursor's team usage export
+export function parseCursorUsageCsv(text: string): CursorUsageRow[] {
+  const [header, ...lines] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+
+  const columns = header.map(normalizeKey);
+  for (const [name, aliases] of [['date', COLUMNS.date], ['email', COLUMNS.email]] as const) {
+    if (!aliases.some(alias => columns.includes(alias))) {
+      throw new Error(`The CSV has no ${name} column`);
+    }
+  }
+  if (![...COLUMNS.tabs, ...COLUMNS.premiumRequests, ...COLUMNS.includedRequests].some(alias => columns.includes(alias))) {
+    throw new Error("The CSV has neither tab nor request columns. Is it Cursor's team usage export?");
+  }
+
+  const rows: CursorUsageRow[] = [];
+  lines.forEach((fields, index) => {
+    const record: UsageRecord = {};
+    columns.forEach((column, i) => { record[column] = fields[i]; });
+    const row = toUsageRow(record, `Line ${index + 2}`);
+    if (row) rows.push(row);
+  });
+  return combineRows(rows);
+}
+
+// Usage rows from the Admin API's daily usage records
+export function fromCursorApiRecords(records: UsageRecord[]): CursorUsageRow[] {
+  return combineRows(records
+    .map((record, index) => toUsageRow(record, `Record ${index + 1}`))
+    .filter((row): row is CursorUsageRow => !!row));
+}
+
+// Client for Cursor's Admin API. Point `baseUrl` at scripts/cursor-mock-server.js to try it locally.
+export function createCursorClient({ apiKey, baseUrl = CURSOR_API_URL }: { apiKey: string; baseUrl?: string }) {
+  const authorization = `Basic ${btoa(`${apiKey}:`)}`;
+
+  async function fetchRange(start: Date, end: Date) {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/teams/daily-usage-data`, {
+      method: 'POST',
+      headers: { 'Authorization': authorization, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ startDate: start.getTime(), endDate: end.getTime() })
+    });
+    if (!response.ok) {
+      throw new Error(`Cursor API responded ${response.status}: ${await response.text()}`);
+    }
+    const body = await response.json() as { data?: UsageRecord[] };
+    return body.data || [];
+  }
+
+  return {
+    // Usage for every day from `start` through `end`, both yyyy-MM-dd
+    async fetchDailyUsage(start: string, end: string): Promise<CursorUsageRow[]> {
+      const first = new Date(`${start}T00:00:00Z`);
+      const last = new Date(`${end}T00:00:00Z`);
+      if (isNaN(first.getTime()) || isNaN(last.getTime()) || first > last) {
+        throw new Error(`Invalid date range ${start} to ${end}`);
+      }
+
+      const records: UsageRecord[] = [];
+      for (let from = first; from <= last; from = new Date(from.getTime() + MAX_API_RANGE_DAYS * DAY_MS)) {
+        const to = new Date(Math.min(from.getTime() + (MAX_API_RANGE_DAYS - 1) * DAY_MS, last.getTime()));
+        records.push(...await fetchRange(from, new Date(to.getTime() + DAY_MS - 1)));
+      }
+      return fromCursorApiRecords(records);
+    }
+  };
+}
+
+// Credit usage to contributors whose cursorEmail matches, case-insensitively. An email
+// shared by contributors on several teams counts for each of them.
+export function matchCursorUsage(rows: CursorUsageRow[], contributors: CursorContributor[]) {
+  const byEmail = new Map<string, CursorContributor[]>();
+  for (const contributor of contributors) {
+    const email = contributor.cursorEmail?.trim().toLowerCase();
+    if (!email) continue;
+    byEmail.set(email, [...(byEmail.get(email) || []), contributor]);
+  }
+
+  const usage: MatchedCursorUsage[] = [];
+  const unmatchedEmails = new Set<string>();
+  for (const { email, ...day } of rows) {
+    const matches = byEmail.get(email);
+    if (!matches) {
+      unmatchedEmails.add(email);
+      continue;
+    }
+    for (const contributor of matches) {
+      usage.push({ ...day, contributorId: contributor.id, teamId: contributor.teamId });
+    }
+  }
+
+  return { usage, unmatchedEmails: [...unmatchedEmails].sort() };
+}
+
+// The months the usage falls in, as "teamId|yyyy-MM" keys
+export function getUsageMonths(usage: MatchedCursorUsage[]) {
+  return new Set(usage.map(day => `${day.teamId}|${day.date.slice(0, 7)}`));
+}
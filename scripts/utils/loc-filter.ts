@@ -0,0 +1,82 @@
+// Leave generated, vendored and lockfile changes out of line counts, using a team's
+// gitignore-style patterns (Team.locExcludePatterns):
+//   package-lock.json   a file name, in any directory
+//   *.snap              `*` and `?` match within one path segment
+//   dist/               a trailing slash matches everything under that directory, at any depth
+//   src/**/generated/   `**` matches any number of directories
+//   /docs/              a leading slash anchors the pattern to the repository root
+
+interface FileChange {
+  filename: string;
+  additions?: number;
+  deletions?: number;
+}
+
+export interface LineCounts {
+  rawLinesAdded: number;
+  rawLinesDeleted: number;
+  linesAdded: number;
+  linesDeleted: number;
+}
+
+function globToRegExp(pattern: string) {
+  const anchored = pattern.startsWith('/');
+  const directory = pattern.endsWith('/');
+  const body = pattern.replace(/^\/+/, '').replace(/\/+$/, '');
+
+  let source = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '*' && body[i + 1] === '*') {
+      if (body[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i++;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`${anchored ? '^' : '(?:^|/)'}${source}${directory ? '/' : '$'}`);
+}
+
+export function createPathFilter(patterns: string[] | null | undefined): (path: string) => boolean {
+  const regExps = (patterns || []).map(p => p.trim()).filter(Boolean).map(globToRegExp);
+  return (path: string) => regExps.some(regExp => regExp.test(path));
+}
+
+// Raw and filtered line counts for a commit or pull request. `files` is GitHub's per-file
+// list ({ filename, additions, deletions }); it can be truncated on very large changes, so
+// only the files we know are excluded are subtracted from the totals.
+export function filterLineCounts(
+  totals: { additions?: number; deletions?: number },
+  files: FileChange[] | null | undefined,
+  patterns: string[] | null | undefined
+): LineCounts {
+  const isExcluded = createPathFilter(patterns);
+  let excludedAdded = 0;
+  let excludedDeleted = 0;
+
+  for (const file of files || []) {
+    if (isExcluded(file.filename)) {
+      excludedAdded += file.additions || 0;
+      excludedDeleted += file.deletions || 0;
+    }
+  }
+
+  const rawLinesAdded = totals.additions || 0;
+  const rawLinesDeleted = totals.deletions || 0;
+  return {
+    rawLinesAdded,
+    rawLinesDeleted,
+    linesAdded: Math.max(rawLinesAdded - excludedAdded, 0),
+    linesDeleted: Math.max(rawLinesDeleted - excludedDeleted, 0)
+  };
+}
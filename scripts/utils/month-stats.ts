@@ -0,0 +1,457 @@
+import { calculateContributorScores } from './calculate-scores.ts';
+import type { NormalizationStrategy, ScoreBreakdown, ScoreWeights } from './calculate-scores.ts';
+
+interface MonthContributorStats {
+  login: string;
+  githubUserId: string;
+  totalCommits: number;
+  totalPrs: number;
+  mergedPrs: number;
+  linesAdded: number;
+  linesRemoved: number;
+  activeRepositories: string[];
+  contributionScore: number;
+  // How contributionScore was produced, one entry per weighted metric
+  scoreBreakdown: ScoreBreakdown | null;
+  tabs: number;
+  premiumRequests: number;
+  reviewsGiven: number;
+  approvals: number;
+  changesRequested: number;
+  reviewCommentsWritten: number;
+  issuesOpened: number;
+  issuesClosed: number;
+}
+
+interface MonthRepoStats {
+  name: string;
+  commits: number;
+  totalPrs: number;
+  mergedPrs: number;
+  linesAdded: number;
+  linesRemoved: number;
+  activeContributors: number;
+}
+
+export interface MonthStats {
+  overall: {
+    totalCommits: number;
+    totalPrs: number;
+    mergedPrs: number;
+    linesAdded: number;
+    linesRemoved: number;
+    activeContributors: number;
+    averageContributionScore: number;
+    issuesOpened: number;
+    issuesClosed: number;
+  };
+  repositories: Record<string, MonthRepoStats>;
+  contributors: Record<string, MonthContributorStats>;
+  // Profile the scores were calculated with, null for the default weights
+  scoringProfile?: MonthScoringProfile | null;
+}
+
+export interface MonthScoringProfile {
+  id: string;
+  name: string;
+  version: number;
+  normalization: NormalizationStrategy;
+}
+
+export interface ScoringProfile extends MonthScoringProfile {
+  weights: ScoreWeights;
+}
+
+interface ActivityUser {
+  githubUserId: string;
+  login: string;
+}
+
+export interface MonthActivity {
+  commits: {
+    authorGithubUserId: string;
+    authorLogin: string;
+    githubRepoId: string;
+    repoName: string;
+    linesAdded: number;
+    linesDeleted: number;
+  }[];
+  pullRequests: {
+    authorGithubUserId: string;
+    authorLogin: string;
+    githubRepoId: string;
+    repoName: string;
+    linesAdded: number;
+    linesDeleted: number;
+    openedInMonth: boolean;
+    mergedInMonth: boolean;
+  }[];
+  reviews: {
+    reviewerGithubUserId: string;
+    reviewerLogin: string;
+    githubRepoId: string;
+    repoName: string;
+    kind: 'review' | 'comment';
+    state?: string;
+  }[];
+  issues: {
+    githubRepoId: string;
+    repoName: string;
+    openedBy: ActivityUser | null;
+    closedBy: ActivityUser | null;
+  }[];
+  cursorUsage: {
+    githubUserId: string;
+    login: string;
+    tabs: number;
+    premiumRequests: number;
+  }[];
+}
+
+type StoredDate = Date | string | null;
+
+interface StoredContributor {
+  githubUserId: string;
+  githubLogin: string;
+}
+
+interface StoredRepo {
+  githubRepoId: string;
+  name: string;
+}
+
+// Rows loaded for a month, with the relations recomputeMonth needs embedded
+export interface MonthRows {
+  commits: {
+    linesAdded: number;
+    linesDeleted: number;
+    author: StoredContributor;
+    repo: StoredRepo;
+  }[];
+  pullRequests: {
+    linesAdded: number;
+    linesDeleted: number;
+    openedAt: StoredDate;
+    mergedAt: StoredDate;
+    author: StoredContributor;
+    repo: StoredRepo;
+  }[];
+  events: {
+    type: string;
+    action: string | null;
+    contributorId: string;
+    contributor: StoredContributor;
+    repo: StoredRepo;
+    pullRequest: { authorId: string } | null;
+  }[];
+  issues: {
+    openedAt: StoredDate;
+    closedAt: StoredDate;
+    author: StoredContributor;
+    closedBy: StoredContributor | null;
+    repo: StoredRepo;
+  }[];
+  // One row per contributor and day
+  cursorUsage: {
+    tabs: number;
+    premiumRequests: number;
+    contributor: StoredContributor;
+  }[];
+}
+
+export interface MonthStatsStore {
+  loadMonthRows(teamId: string, start: Date, end: Date): Promise<MonthRows>;
+  loadScoringProfile(teamId: string, profileId: string | null): Promise<ScoringProfile | null>;
+  loadMonthStats(teamId: string, monthStart: Date): Promise<MonthStats | null>;
+  saveMonthStats(teamId: string, monthStart: Date, stats: MonthStats): Promise<void>;
+}
+
+
+// Review event types that count toward a reviewer's stats
+export const REVIEW_EVENT_TYPES: string[] = ['PR_REVIEWED', 'PR_APPROVED', 'PR_CHANGES_REQUESTED', 'PR_COMMENTED'];
+
+// First instant of the month containing `date`, and of the month after it
+export function getMonthRange(date: Date) {
+  const start = new Date(date.getFullYear(), date.getMonth(), 1);
+  const end = new Date(date.getFullYear(), date.getMonth() + 1, 1);
+  return { start, end };
+}
+
+// Empty per-contributor stats entry
+export function createEmptyContributorStats(login: string, githubUserId: string): MonthContributorStats {
+  return {
+    login,
+    githubUserId,
+    totalCommits: 0,
+    totalPrs: 0,
+    mergedPrs: 0,
+    linesAdded: 0,
+    linesRemoved: 0,
+    activeRepositories: [],
+    contributionScore: 0,
+    scoreBreakdown: null,
+    tabs: 0,
+    premiumRequests: 0,
+    reviewsGiven: 0,
+    approvals: 0,
+    changesRequested: 0,
+    reviewCommentsWritten: 0,
+    issuesOpened: 0,
+    issuesClosed: 0
+  };
+}
+
+// Build a month's stats from the rows stored for it. Scores use the scoring
+// profile's weights, or the default weights without one.
+export function buildMonthStats(
+  { commits, pullRequests, reviews, issues, cursorUsage }: MonthActivity,
+  scoringProfile: ScoringProfile | null = null
+): MonthStats {
+  const stats: MonthStats = {
+    overall: {
+      totalCommits: 0,
+      totalPrs: 0,
+      mergedPrs: 0,
+      linesAdded: 0,
+      linesRemoved: 0,
+      activeContributors: 0,
+      averageContributionScore: 0,
+      issuesOpened: 0,
+      issuesClosed: 0
+    },
+    repositories: {},
+    contributors: {},
+    scoringProfile: scoringProfile
+      ? {
+          id: scoringProfile.id,
+          name: scoringProfile.name,
+          version: scoringProfile.version,
+          normalization: scoringProfile.normalization
+        }
+      : null
+  };
+
+  const repoContributors: Record<string, Set<string>> = {};
+
+  const getRepoStats = (githubRepoId: string, name: string) => {
+    if (!stats.repositories[githubRepoId]) {
+      stats.repositories[githubRepoId] = {
+        name,
+        commits: 0,
+        totalPrs: 0,
+        mergedPrs: 0,
+        linesAdded: 0,
+        linesRemoved: 0,
+        activeContributors: 0
+      };
+      repoContributors[githubRepoId] = new Set();
+    }
+    return stats.repositories[githubRepoId];
+  };
+
+  const getContributorStats = (githubUserId: string, login: string, githubRepoId: string) => {
+    if (!stats.contributors[githubUserId]) {
+      stats.contributors[githubUserId] = createEmptyContributorStats(login, githubUserId);
+    }
+    const contributorStats = stats.contributors[githubUserId];
+    if (!contributorStats.activeRepositories.includes(githubRepoId)) {
+      contributorStats.activeRepositories.push(githubRepoId);
+    }
+    repoContributors[githubRepoId].add(githubUserId);
+    return contributorStats;
+  };
+
+  for (const commit of commits) {
+    const repoStats = getRepoStats(commit.githubRepoId, commit.repoName);
+    const contributorStats = getContributorStats(commit.authorGithubUserId, commit.authorLogin, commit.githubRepoId);
+
+    repoStats.commits++;
+    repoStats.linesAdded += commit.linesAdded;
+    repoStats.linesRemoved += commit.linesDeleted;
+
+    contributorStats.totalCommits++;
+    contributorStats.linesAdded += commit.linesAdded;
+    contributorStats.linesRemoved += commit.linesDeleted;
+
+    stats.overall.totalCommits++;
+    stats.overall.linesAdded += commit.linesAdded;
+    stats.overall.linesRemoved += commit.linesDeleted;
+  }
+
+  // A PR counts in the month it was opened, and toward merged PRs in the month it was merged
+  for (const pr of pullRequests) {
+    const repoStats = getRepoStats(pr.githubRepoId, pr.repoName);
+    const contributorStats = getContributorStats(pr.authorGithubUserId, pr.authorLogin, pr.githubRepoId);
+
+    if (pr.openedInMonth) {
+      repoStats.totalPrs++;
+      repoStats.linesAdded += pr.linesAdded;
+      repoStats.linesRemoved += pr.linesDeleted;
+
+      contributorStats.totalPrs++;
+      contributorStats.linesAdded += pr.linesAdded;
+      contributorStats.linesRemoved += pr.linesDeleted;
+
+      stats.overall.totalPrs++;
+      stats.overall.linesAdded += pr.linesAdded;
+      stats.overall.linesRemoved += pr.linesDeleted;
+    }
+
+    if (pr.mergedInMonth) {
+      repoStats.mergedPrs++;
+      contributorStats.mergedPrs++;
+      stats.overall.mergedPrs++;
+    }
+  }
+
+  for (const review of reviews) {
+    getRepoStats(review.githubRepoId, review.repoName);
+    const contributorStats = getContributorStats(review.reviewerGithubUserId, review.reviewerLogin, review.githubRepoId);
+
+    if (review.kind === 'comment') {
+      contributorStats.reviewCommentsWritten++;
+    } else {
+      contributorStats.reviewsGiven++;
+      if (review.state === 'approved') {
+        contributorStats.approvals++;
+      } else if (review.state === 'changes_requested') {
+        contributorStats.changesRequested++;
+      }
+    }
+  }
+
+  for (const issue of issues) {
+    getRepoStats(issue.githubRepoId, issue.repoName);
+
+    if (issue.openedBy) {
+      getContributorStats(issue.openedBy.githubUserId, issue.openedBy.login, issue.githubRepoId).issuesOpened++;
+      stats.overall.issuesOpened++;
+    }
+    if (issue.closedBy) {
+      getContributorStats(issue.closedBy.githubUserId, issue.closedBy.login, issue.githubRepoId).issuesClosed++;
+      stats.overall.issuesClosed++;
+    }
+  }
+
+  // Cursor usage counts even for contributors with no GitHub activity this month
+  for (const usage of cursorUsage) {
+    if (!stats.contributors[usage.githubUserId]) {
+      stats.contributors[usage.githubUserId] = createEmptyContributorStats(usage.login, usage.githubUserId);
+    }
+    stats.contributors[usage.githubUserId].tabs += usage.tabs;
+    stats.contributors[usage.githubUserId].premiumRequests += usage.premiumRequests;
+  }
+
+  for (const [githubRepoId, contributors] of Object.entries(repoContributors)) {
+    stats.repositories[githubRepoId].activeContributors = contributors.size;
+  }
+  stats.overall.activeContributors = Object.keys(stats.contributors).length;
+
+  // Calculate contribution scores
+  const scores = calculateContributorScores(
+    Object.entries(stats.contributors).map(([githubUserId, contributorStats]) => ({
+      ...contributorStats,
+      githubUserId
+    })),
+    scoringProfile?.weights,
+    scoringProfile?.normalization
+  );
+
+  Object.entries(stats.contributors).forEach(([githubUserId, contributorStats]) => {
+    contributorStats.contributionScore = scores[githubUserId]?.score || 0;
+    contributorStats.scoreBreakdown = scores[githubUserId]?.breakdown || null;
+  });
+
+  const scoreValues = Object.values(scores).map(s => s.score);
+  stats.overall.averageContributionScore =
+    scoreValues.length > 0 ? scoreValues.reduce((a, b) => a + b) / scoreValues.length : 0;
+
+  return stats;
+}
+
+// Map the stored rows for a month to the activity buildMonthStats counts. Rows come
+// from either Prisma or Supabase, so dates may be Date objects or ISO strings.
+export function toMonthActivity(
+  { commits, pullRequests, events, issues, cursorUsage }: MonthRows,
+  start: Date,
+  end: Date
+): MonthActivity {
+  const inMonth = (date: StoredDate) => !!date && new Date(date) >= start && new Date(date) < end;
+
+  return {
+    commits: commits.map(commit => ({
+      authorGithubUserId: commit.author.githubUserId,
+      authorLogin: commit.author.githubLogin,
+      githubRepoId: commit.repo.githubRepoId,
+      repoName: commit.repo.name,
+      linesAdded: commit.linesAdded,
+      linesDeleted: commit.linesDeleted
+    })),
+    pullRequests: pullRequests.map(pr => ({
+      authorGithubUserId: pr.author.githubUserId,
+      authorLogin: pr.author.githubLogin,
+      githubRepoId: pr.repo.githubRepoId,
+      repoName: pr.repo.name,
+      linesAdded: pr.linesAdded,
+      linesDeleted: pr.linesDeleted,
+      openedInMonth: inMonth(pr.openedAt),
+      mergedInMonth: inMonth(pr.mergedAt)
+    })),
+    // Reviews count once when submitted; inline comments count when created, except on your own PR
+    reviews: events
+      .filter(event => event.type === 'PR_COMMENTED'
+        ? event.action === 'created' && event.contributorId !== event.pullRequest?.authorId
+        : event.action === 'submitted')
+      .map(event => ({
+        reviewerGithubUserId: event.contributor.githubUserId,
+        reviewerLogin: event.contributor.githubLogin,
+        githubRepoId: event.repo.githubRepoId,
+        repoName: event.repo.name,
+        kind: event.type === 'PR_COMMENTED' ? 'comment' as const : 'review' as const,
+        state: event.type === 'PR_APPROVED' ? 'approved' :
+          event.type === 'PR_CHANGES_REQUESTED' ? 'changes_requested' : 'commented'
+      })),
+    issues: issues.map(issue => ({
+      githubRepoId: issue.repo.githubRepoId,
+      repoName: issue.repo.name,
+      openedBy: inMonth(issue.openedAt)
+        ? { githubUserId: issue.author.githubUserId, login: issue.author.githubLogin }
+        : null,
+      closedBy: inMonth(issue.closedAt) && issue.closedBy
+        ? { githubUserId: issue.closedBy.githubUserId, login: issue.closedBy.githubLogin }
+        : null
+    })),
+    cursorUsage: cursorUsage.map(usage => ({
+      githubUserId: usage.contributor.githubUserId,
+      login: usage.contributor.githubLogin,
+      tabs: usage.tabs,
+      premiumRequests: usage.premiumRequests
+    }))
+  };
+}
+
+// Rebuild Month.stats for a team's month from the stored Commit, PullRequest, Event,
+// Issue and CursorUsage rows. `store` hides whether we're talking to Prisma or Supabase.
+// A month keeps the scoring profile it was scored with unless `scoringProfileId` picks
+// another one; months that were never scored use the team's active profile.
+export async function recomputeMonth(
+  store: MonthStatsStore,
+  teamId: string,
+  month: Date,
+  scoringProfileId: string | null = null
+): Promise<MonthStats> {
+  const { start, end } = getMonthRange(month);
+
+  const [rows, previousStats] = await Promise.all([
+    store.loadMonthRows(teamId, start, end),
+    store.loadMonthStats(teamId, start)
+  ]);
+  const scoringProfile = await store.loadScoringProfile(
+    teamId,
+    scoringProfileId || previousStats?.scoringProfile?.id || null
+  );
+
+  const stats = buildMonthStats(toMonthActivity(rows, start, end), scoringProfile);
+  await store.saveMonthStats(teamId, start, stats);
+  return stats;
+}
@@ -0,0 +1,77 @@
+import { REVIEW_EVENT_TYPES } from './month-stats.ts';
+
+// Month stats store backed by Prisma, for recomputeMonth in the CLI scripts
+export function createPrismaMonthStore(prisma) {
+  return {
+    async loadMonthRows(teamId, start, end) {
+      const inRange = { gte: start, lt: end };
+      const contributor = { select: { githubUserId: true, githubLogin: true } };
+      const repo = { select: { githubRepoId: true, name: true } };
+
+      const [commits, pullRequests, events, issues, cursorUsage] = await Promise.all([
+        prisma.commit.findMany({
+          where: { repo: { teamId }, committedAt: inRange },
+          select: { linesAdded: true, linesDeleted: true, author: contributor, repo }
+        }),
+        prisma.pullRequest.findMany({
+          where: { repo: { teamId }, OR: [{ openedAt: inRange }, { mergedAt: inRange }] },
+          select: { linesAdded: true, linesDeleted: true, openedAt: true, mergedAt: true, author: contributor, repo }
+        }),
+        prisma.event.findMany({
+          where: { repo: { teamId }, type: { in: REVIEW_EVENT_TYPES }, occurredAt: inRange },
+          select: {
+            type: true,
+            action: true,
+            contributorId: true,
+            contributor,
+            repo,
+            pullRequest: { select: { authorId: true } }
+          }
+        }),
+        prisma.issue.findMany({
+          where: { repo: { teamId }, OR: [{ openedAt: inRange }, { closedAt: inRange }] },
+          select: { openedAt: true, closedAt: true, author: contributor, closedBy: contributor, repo }
+        }),
+        prisma.cursorUsage.findMany({
+          where: { contributor: { teamId }, date: inRange },
+          select: { tabs: true, premiumRequests: true, contributor }
+        })
+      ]);
+
+      return { commits, pullRequests, events, issues, cursorUsage };
+    },
+
+    // The team's profile with the given id, falling back to its active profile
+    async loadScoringProfile(teamId, profileId) {
+      const select = { id: true, name: true, version: true, weights: true, normalization: true };
+      const profile = profileId
+        ? await prisma.scoringProfile.findFirst({ where: { id: profileId, teamId }, select })
+        : null;
+      return profile || prisma.scoringProfile.findFirst({ where: { teamId, isActive: true }, select });
+    },
+
+    async loadMonthStats(teamId, monthStart) {
+      const month = await prisma.month.findUnique({
+        where: { teamId_date: { teamId, date: monthStart } },
+        select: { stats: true }
+      });
+      return month?.stats || null;
+    },
+
+    async saveMonthStats(teamId, monthStart, stats) {
+      await prisma.month.upsert({
+        where: { 
+          teamId_date: { teamId, date: monthStart } 
+        },
+        create: { 
+          teamId,
+          date: monthStart,
+          stats 
+        },
+        update: { 
+          stats 
+        }
+      });
+    }
+  };
+}
@@ -4,27 +4,51 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Settings from "./pages/Settings";
+import Contributors from "./pages/Contributors";
+import RangeStats from "./pages/RangeStats";
+import Trends from "./pages/Trends";
+import Repository from "./pages/Repository";
 import TestSdr from "./pages/TestSdr";
 import V0PromptHighlightsPage from "./pages/V0PromptHighlights";
+import { AuthProvider } from "./components/auth/AuthProvider";
+import { RequireAuth } from "./components/auth/RequireAuth";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/:month" element={<Index />} />
-          <Route path="/contributor/:contributorId" element={<Index />} />
-          <Route path="/contributor/:contributorId/:month" element={<Index />} />
-          <Route path="/test-sdr" element={<TestSdr />} />
-          <Route path="/v0-prompt-highlights" element={<V0PromptHighlightsPage />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <RequireAuth>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/test-sdr" element={<TestSdr />} />
+              <Route path="/v0-prompt-highlights" element={<V0PromptHighlightsPage />} />
+              <Route path="/settings" element={<Settings />} />
+              <Route path="/admin/contributors" element={<Contributors />} />
+              {/* Routes without a team show the first team; /:team also matches the old /:month URLs */}
+              <Route path="/trends" element={<Trends />} />
+              <Route path="/range/:from/:to" element={<RangeStats />} />
+              <Route path="/repo/:githubRepoId/:month" element={<Repository />} />
+              <Route path="/contributor/:contributorId" element={<Index />} />
+              <Route path="/contributor/:contributorId/:month" element={<Index />} />
+              <Route path="/:team" element={<Index />} />
+              <Route path="/:team/:month" element={<Index />} />
+              <Route path="/:team/settings" element={<Settings />} />
+              <Route path="/:team/trends" element={<Trends />} />
+              <Route path="/:team/range/:from/:to" element={<RangeStats />} />
+              <Route path="/:team/repo/:githubRepoId/:month" element={<Repository />} />
+              <Route path="/:team/contributor/:contributorId" element={<Index />} />
+              <Route path="/:team/contributor/:contributorId/:month" element={<Index />} />
+            </Routes>
+          </RequireAuth>
+        </BrowserRouter>
+      </TooltipProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
@@ -1,10 +1,12 @@
 import { Avatar } from "@/components/ui/avatar";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { GitCommit, GitPullRequest, Star, Code2 } from "lucide-react";
+import { GitCommit, GitPullRequest, Star, Code2, MessageSquare } from "lucide-react";
 import { motion } from "framer-motion";
 import { parseISO } from "date-fns";
 import { formatInTimeZone } from 'date-fns-tz';
+import { RankMovement } from "@/components/RankMovement";
+import { Sparkline } from "@/components/Sparkline";
 
 interface ContributorCardProps {
   contributor: {
@@ -15,8 +17,12 @@ interface ContributorCardProps {
     mergedPrs: number;
     activeRepositories: string[];
     linesOfCode: number;
+    reviewsGiven: number;
     contributionScore: number;
     rank: number;
+    previousRank?: number | null;
+    // Scores in recent months, oldest first
+    recentScores?: (number | null)[] | null;
     lastActive?: string;
   };
   onClick: () => void;
@@ -52,8 +58,11 @@ export const ContributorCard = ({ contributor, onClick }: ContributorCardProps)
         className="p-6 cursor-pointer transition-all duration-100 ease-out relative overflow-hidden group glass-morphism hover:brightness-90 hover:translate-y-[2px] h-full flex flex-col"
         onClick={onClick}
       >
-        <div className="absolute top-4 right-4 z-10 bg-primary/10 text-primary w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm border border-primary/20">
-          #{contributor.rank}
+        <div className="absolute top-4 right-4 z-10 flex flex-col items-center gap-1">
+          <div className="bg-primary/10 text-primary w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm border border-primary/20">
+            #{contributor.rank}
+          </div>
+          <RankMovement rank={contributor.rank} previousRank={contributor.previousRank} />
         </div>
         
         <div className="flex items-start space-x-4 flex-1">
@@ -80,6 +89,10 @@ export const ContributorCard = ({ contributor, onClick }: ContributorCardProps)
                 <Code2 className="w-3 h-3" />
                 {contributor.linesOfCode.toLocaleString()} lines
               </Badge>
+              <Badge variant="secondary" className="flex items-center gap-1 neo-blur">
+                <MessageSquare className="w-3 h-3" />
+                {contributor.reviewsGiven} reviews
+              </Badge>
             </div>
           </div>
         </div>
@@ -94,9 +107,12 @@ export const ContributorCard = ({ contributor, onClick }: ContributorCardProps)
         <div className="mt-auto pt-4 border-t border-white/10">
           <div className="text-sm text-muted-foreground flex items-center justify-between">
             <span>Contribution Score</span>
-            <Badge variant="secondary" className="neo-blur">
-              {contributor.contributionScore}
-            </Badge>
+            <div className="flex items-center gap-2">
+              {contributor.recentScores && <Sparkline values={contributor.recentScores} />}
+              <Badge variant="secondary" className="neo-blur">
+                {contributor.contributionScore}
+              </Badge>
+            </div>
           </div>
         </div>
       </Card>
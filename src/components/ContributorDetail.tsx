@@ -11,38 +11,15 @@ import { MonthSelector } from "@/components/dashboard/MonthSelector";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabase";
-import { startOfMonth, endOfMonth } from "date-fns";
+import { startOfMonth, endOfMonth, subMonths } from "date-fns";
 import { cn } from "@/lib/utils";
-
-interface Month {
-  id: string;
-  date: string;
-  teamId: string;
-  createdAt: string;
-  stats: {
-    overall: {
-      totalPrs: number;
-      mergedPrs: number;
-      linesAdded: number;
-      linesRemoved: number;
-      totalCommits: number;
-      averageContributionScore: number;
-    };
-    contributors: Record<string, {
-      login?: string;
-      githubUserId?: string;
-      totalCommits: number;
-      totalPrs: number;
-      activeRepositories: string[];
-      linesAdded: number;
-      linesRemoved: number;
-      contributionScore: number;
-      rank?: number;
-      mergedPrs: number;
-    }>;
-    object_keys: string[];
-  };
-}
+import { formatScoringProfile } from "@/lib/scoring";
+import type { RepoRecord } from "@/lib/stats-api";
+import { useContributor, useContributorTimeline } from "@/hooks/use-stats";
+import { ScoreBreakdownChart } from "@/components/ScoreBreakdownChart";
+import { ContributorTimeline } from "@/components/ContributorTimeline";
+import { RankMovement } from "@/components/RankMovement";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
 
 interface Activity {
   id: string;
@@ -80,28 +57,16 @@ interface PullRequestResponse {
   repo: { name: string } | null;
 }
 
-interface ContributorData {
-  id: string;
-  name: string;
-  githubUserId: string;
-  githubLogin: string;
-  avatarUrl?: string;
-  cursorEmail?: string;
-  teamId: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
 interface ContributorDetailProps {
   login?: string;
+  teamId?: string;
   currentMonth: Date;
-  monthData: Month | null;
   onPreviousMonth: () => void;
   onNextMonth: () => void;
+  onMonthSelect?: (month: Date) => void;
   onBack: () => void;
   availableMonths: Date[];
-  lastActive?: string;
-  contributorRecords: Record<string, ContributorData>;
+  repoRecords: Record<string, RepoRecord>;
 }
 
 const formatTimestamp = (timestamp: string | undefined, format: 'date' | 'time' | 'full'): string => {
@@ -118,32 +83,28 @@ const formatTimestamp = (timestamp: string | undefined, format: 'date' | 'time'
 
 export const ContributorDetail = ({ 
   login, 
+  teamId,
   onBack, 
   currentMonth,
-  monthData,
   onPreviousMonth,
   onNextMonth,
+  onMonthSelect,
   availableMonths,
-  lastActive,
-  contributorRecords
+  repoRecords
 }: ContributorDetailProps) => {
   const isMobile = useIsMobile();
+  const { data: contributorRecord, isLoading: isContributorLoading } = useContributor(login);
+  const { data: timeline = [], isLoading: isTimelineLoading } = useContributorTimeline(teamId, contributorRecord?.githubUserId);
+  const monthEntry = timeline.find(entry => entry.month === format(currentMonth, "yyyy-MM"));
+  const previousMonthEntry = timeline.find(entry => entry.month === format(subMonths(currentMonth, 1), "yyyy-MM"));
 
   // Get activity data
   const { data: activities, isLoading } = useQuery({
-    queryKey: ["contributor-activity", login, format(currentMonth, "yyyy-MM")],
+    queryKey: ["contributor-activity", teamId, contributorRecord?.id, format(currentMonth, "yyyy-MM")],
+    enabled: !!contributorRecord,
     queryFn: async () => {
-      if (!login) return [];
-      
-      // Find the contributor record by login
-      const contributor = Object.values(contributorRecords).find(
-        record => record.githubLogin === login
-      );
-
-      if (!contributor) {
-        console.log('No contributor found for login:', login);
-        return [];
-      }
+      const contributor = contributorRecord;
+      if (!contributor || !teamId) return [];
 
       const monthStart = startOfMonth(currentMonth);
       const monthEnd = endOfMonth(currentMonth);
@@ -167,9 +128,10 @@ export const ContributorDetail = ({
             linesDeleted,
             committedAt,
             url,
-            repo:Repo(name)
+            repo:Repo!inner(name, teamId)
           `)
           .eq('authorId', contributor.id)
+          .eq('repo.teamId', teamId)
           .gte('committedAt', monthStart.toISOString())
           .lt('committedAt', monthEnd.toISOString())
           .order('committedAt', { ascending: false })
@@ -187,9 +149,10 @@ export const ContributorDetail = ({
             url,
             linesAdded,
             linesDeleted,
-            repo:Repo(name)
+            repo:Repo!inner(name, teamId)
           `)
           .eq('authorId', contributor.id)
+          .eq('repo.teamId', teamId)
           .gte('mergedAt', monthStart.toISOString())
           .lt('mergedAt', monthEnd.toISOString())
           .order('mergedAt', { ascending: false })
@@ -259,7 +222,15 @@ export const ContributorDetail = ({
     </div>
   );
 
-  if (!login || !monthData) {
+  if (isContributorLoading || isTimelineLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (!login || !contributorRecord) {
     return (
       <div className="text-center p-8">
         <h2 className="text-2xl font-bold">Contributor not found</h2>
@@ -267,12 +238,7 @@ export const ContributorDetail = ({
     );
   }
 
-  // Find contributor by login in the contributors object
-  const contributorEntry = Object.entries(monthData.stats.contributors).find(
-    ([_, contributor]) => contributor.login === login
-  );
-
-  if (!contributorEntry) {
+  if (!monthEntry) {
     return (
       <div className="text-center p-8">
         <h2 className="text-2xl font-bold">Contributor data not found</h2>
@@ -280,8 +246,9 @@ export const ContributorDetail = ({
     );
   }
 
-  const [githubUserId, contributor] = contributorEntry;
-  const avatar_url = `https://avatars.githubusercontent.com/u/${contributor.githubUserId || githubUserId}`;
+  const contributor = monthEntry.stats;
+  const avatar_url = `https://avatars.githubusercontent.com/u/${contributorRecord.githubUserId}`;
+  const lastActive = contributorRecord.updatedAt;
   const linesOfCode = (contributor.linesAdded || 0) + (contributor.linesRemoved || 0);
 
   const formattedLastActive = lastActive 
@@ -326,11 +293,35 @@ export const ContributorDetail = ({
                     {formatTimestamp(lastActive, 'full')}
                   </Badge>
                 </div>
+                {monthEntry.rank && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground">Rank</span>
+                    <Badge variant="secondary" className="neo-blur whitespace-nowrap">
+                      #{monthEntry.rank}{monthEntry.totalCount && ` of ${monthEntry.totalCount}`}
+                    </Badge>
+                    <RankMovement rank={monthEntry.rank} previousRank={previousMonthEntry?.rank} />
+                  </div>
+                )}
                 <div className="flex items-center gap-2">
                   <span className="text-sm text-muted-foreground">Contribution Score</span>
                   <Badge variant="secondary" className="neo-blur">
                     {contributor.contributionScore}
                   </Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {formatScoringProfile(monthEntry.scoringProfile)}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Reviews</span>
+                  <Badge variant="secondary" className="neo-blur whitespace-nowrap">
+                    {contributor.reviewsGiven || 0} given · {contributor.approvals || 0} approved · {contributor.changesRequested || 0} changes requested · {contributor.reviewCommentsWritten || 0} comments
+                  </Badge>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Issues</span>
+                  <Badge variant="secondary" className="neo-blur whitespace-nowrap">
+                    {contributor.issuesOpened || 0} opened · {contributor.issuesClosed || 0} closed
+                  </Badge>
                 </div>
               </div>
             </div>
@@ -395,6 +386,38 @@ export const ContributorDetail = ({
         </Card>
       </div>
 
+      {contributor.scoreBreakdown && (
+        <ScoreBreakdownChart
+          breakdown={contributor.scoreBreakdown}
+          score={contributor.contributionScore}
+          scoringProfile={monthEntry.scoringProfile}
+        />
+      )}
+
+      {contributor.activeRepositories?.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          <span className="text-sm text-muted-foreground">Repositories</span>
+          {contributor.activeRepositories.map(githubRepoId => {
+            // Resolve by githubRepoId so renamed repos show their current name
+            const repo = repoRecords[githubRepoId];
+            const name = repo?.name || monthEntry.repositories?.[githubRepoId]?.name || githubRepoId;
+            return (
+              <Badge
+                key={githubRepoId}
+                variant="secondary"
+                className={cn("neo-blur", (repo?.archived || repo?.deletedAt) && "opacity-60")}
+                title={repo?.previousNames?.length ? `Previously ${repo.previousNames.join(', ')}` : undefined}
+              >
+                {name}
+                {repo?.deletedAt ? ' (deleted)' : repo?.archived ? ' (archived)' : ''}
+              </Badge>
+            );
+          })}
+        </div>
+      )}
+
+      <ContributorTimeline timeline={timeline} currentMonth={currentMonth} onMonthSelect={onMonthSelect} />
+
       <Card className="glass-morphism overflow-hidden">
         <ScrollArea className="h-[calc(100vh-400px)]">
           <div className="p-4 space-y-2 max-w-full">
@@ -0,0 +1,106 @@
+import { format, parse, subMonths } from "date-fns";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import type { TimelineEntry } from "@/lib/stats-api";
+import { cn } from "@/lib/utils";
+import { RankMovement } from "@/components/RankMovement";
+import { Card } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const chartConfig = {
+  contributionScore: {
+    label: "Score",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const parseMonth = (month: string) => parse(month, 'yyyy-MM', new Date());
+
+interface ContributorTimelineProps {
+  // Newest first, as contributor_timeline returns it
+  timeline: TimelineEntry[];
+  currentMonth: Date;
+  onMonthSelect?: (month: Date) => void;
+}
+
+// Every month the contributor appears in, with their score, rank and activity
+export const ContributorTimeline = ({ timeline, currentMonth, onMonthSelect }: ContributorTimelineProps) => {
+  const ranksByMonth = new Map(timeline.map(entry => [entry.month, entry.rank]));
+  const currentMonthKey = format(currentMonth, 'yyyy-MM');
+  const chartData = [...timeline].reverse().map(entry => ({
+    month: format(parseMonth(entry.month), 'MMM yy'),
+    contributionScore: entry.stats.contributionScore || 0,
+  }));
+
+  return (
+    <Card className="p-4 md:p-6 glass-morphism mb-6">
+      <h3 className="text-lg font-semibold mb-4">History</h3>
+
+      {chartData.length > 1 && (
+        <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full mb-4">
+          <LineChart data={chartData}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="month" tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} width={40} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Line
+              dataKey="contributionScore"
+              type="monotone"
+              stroke="var(--color-contributionScore)"
+              strokeWidth={2}
+            />
+          </LineChart>
+        </ChartContainer>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Month</TableHead>
+            <TableHead>Rank</TableHead>
+            <TableHead className="text-right">Score</TableHead>
+            <TableHead className="text-right">Commits</TableHead>
+            <TableHead className="text-right">Merged PRs</TableHead>
+            <TableHead className="text-right">Lines</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {timeline.map(entry => {
+            const month = parseMonth(entry.month);
+            // Movement is against the calendar month before, like on the dashboard
+            const previousRank = ranksByMonth.get(format(subMonths(month, 1), 'yyyy-MM'));
+            return (
+              <TableRow
+                key={entry.month}
+                className={cn(
+                  onMonthSelect && "cursor-pointer",
+                  entry.month === currentMonthKey && "bg-muted/50"
+                )}
+                onClick={() => onMonthSelect?.(month)}
+              >
+                <TableCell className="font-medium">{format(month, 'MMMM yyyy')}</TableCell>
+                <TableCell>
+                  {entry.rank ? (
+                    <span className="inline-flex items-center gap-2">
+                      #{entry.rank}
+                      {entry.totalCount && <span className="text-muted-foreground">of {entry.totalCount}</span>}
+                      <RankMovement rank={entry.rank} previousRank={previousRank} />
+                    </span>
+                  ) : (
+                    <span className="text-muted-foreground">Not ranked</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{entry.stats.contributionScore || 0}</TableCell>
+                <TableCell className="text-right">{entry.stats.totalCommits || 0}</TableCell>
+                <TableCell className="text-right">{entry.stats.mergedPrs || 0}</TableCell>
+                <TableCell className="text-right">
+                  {((entry.stats.linesAdded || 0) + (entry.stats.linesRemoved || 0)).toLocaleString()}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </Card>
+  );
+};
@@ -0,0 +1,34 @@
+import { ArrowDown, ArrowUp, Minus } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface RankMovementProps {
+  rank: number;
+  // Null or missing when the contributor wasn't ranked the month before
+  previousRank?: number | null;
+  className?: string;
+}
+
+// Places gained or lost on the leaderboard since the month before
+export const RankMovement = ({ rank, previousRank, className }: RankMovementProps) => {
+  if (previousRank === null || previousRank === undefined) return null;
+  const places = previousRank - rank;
+  const title = places === 0
+    ? 'Same rank as last month'
+    : `${places > 0 ? 'Up' : 'Down'} ${Math.abs(places)} ${Math.abs(places) === 1 ? 'place' : 'places'} since last month`;
+  const Icon = places > 0 ? ArrowUp : places < 0 ? ArrowDown : Minus;
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-0.5 text-xs font-medium",
+        places > 0 ? "text-emerald-400" : places < 0 ? "text-red-400" : "text-muted-foreground",
+        className
+      )}
+      title={title}
+      aria-label={title}
+    >
+      <Icon className="h-3 w-3" />
+      {places !== 0 && Math.abs(places)}
+    </span>
+  );
+};
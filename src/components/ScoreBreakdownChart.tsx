@@ -0,0 +1,90 @@
+import { Bar, BarChart, XAxis, YAxis } from "recharts";
+import { Card } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart";
+import {
+  NORMALIZATION_LABELS,
+  SCORE_WEIGHT_KEYS,
+  SCORE_WEIGHT_LABELS,
+  formatScoringProfile,
+  type MonthScoringProfile,
+  type ScoreBreakdown,
+} from "@/lib/scoring";
+
+const chartConfig = {
+  points: {
+    label: "Points",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const formatPoints = (points: number) => points.toFixed(1);
+const formatPercent = (fraction: number) => `${Math.round(fraction * 1000) / 10}%`;
+
+interface ScoreBreakdownChartProps {
+  breakdown: ScoreBreakdown;
+  score: number;
+  scoringProfile?: MonthScoringProfile | null;
+}
+
+export const ScoreBreakdownChart = ({ breakdown, score, scoringProfile }: ScoreBreakdownChartProps) => {
+  const data = SCORE_WEIGHT_KEYS
+    .filter(metric => breakdown[metric])
+    .map(metric => ({
+      metric,
+      label: SCORE_WEIGHT_LABELS[metric],
+      ...breakdown[metric],
+    }));
+  const normalization = NORMALIZATION_LABELS[scoringProfile?.normalization || 'MAX'];
+
+  return (
+    <Card className="p-4 md:p-6 glass-morphism mb-6">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold">How the score of {score} was produced</h3>
+        <span className="text-xs text-muted-foreground">
+          {formatScoringProfile(scoringProfile)} · {normalization}
+        </span>
+      </div>
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+        <BarChart data={data} layout="vertical" margin={{ left: 8, right: 16 }}>
+          <XAxis type="number" dataKey="points" tickFormatter={formatPoints} />
+          <YAxis type="category" dataKey="label" width={150} tickLine={false} axisLine={false} />
+          <ChartTooltip
+            cursor={false}
+            content={({ active, payload }) => {
+              if (!active || !payload?.length) return null;
+              const item = payload[0].payload as (typeof data)[number];
+              return (
+                <div className="rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                  <p className="font-medium">{item.label}</p>
+                  <p className="text-muted-foreground">
+                    {item.value.toLocaleString()} of a team high of {item.teamMax.toLocaleString()}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {formatPercent(item.normalized)} × {formatPercent(item.weight)} weight = {formatPoints(item.points)} points
+                  </p>
+                </div>
+              );
+            }}
+          />
+          <Bar dataKey="points" fill="var(--color-points)" radius={4} />
+        </BarChart>
+      </ChartContainer>
+
+      <div className="mt-4 grid gap-1 text-xs text-muted-foreground">
+        {data.map(item => (
+          <div key={item.metric} className="flex justify-between gap-4">
+            <span>
+              {item.label}: {item.value.toLocaleString()} of {item.teamMax.toLocaleString()} → {formatPercent(item.normalized)} × {formatPercent(item.weight)}
+            </span>
+            <span className="font-medium text-foreground">{formatPoints(item.points)}</span>
+          </div>
+        ))}
+        <div className="flex justify-between gap-4 border-t border-border/50 pt-1 mt-1">
+          <span>Total, rounded</span>
+          <span className="font-medium text-foreground">{score}</span>
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,38 @@
+import { Line, LineChart, YAxis } from "recharts";
+import { ChartContainer, type ChartConfig } from "@/components/ui/chart";
+import { cn } from "@/lib/utils";
+
+const chartConfig = {
+  value: {
+    label: "Trend",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+interface SparklineProps {
+  // Oldest first, with null for gaps
+  values: (number | null)[];
+  className?: string;
+}
+
+// A small line with no axes or tooltip, for trends next to a number
+export const Sparkline = ({ values, className }: SparklineProps) => {
+  if (values.filter(value => value !== null).length < 2) return null;
+  const data = values.map(value => ({ value }));
+
+  return (
+    <ChartContainer config={chartConfig} className={cn("aspect-auto h-8 w-20", className)}>
+      <LineChart data={data} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+        <YAxis hide domain={['dataMin', 'dataMax']} />
+        <Line
+          dataKey="value"
+          type="monotone"
+          stroke="var(--color-value)"
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+};
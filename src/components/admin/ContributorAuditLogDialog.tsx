@@ -0,0 +1,86 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import {
+  adminFetch,
+  CONTRIBUTOR_FIELD_LABELS,
+  type AdminContributor,
+  type ContributorAuditEntry,
+  type ContributorField,
+} from "@/lib/admin";
+import type { Team } from "@/lib/teams";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface ContributorAuditLogDialogProps {
+  contributor: AdminContributor | null;
+  teams: Team[];
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ContributorAuditLogDialog = ({ contributor, teams, onOpenChange }: ContributorAuditLogDialogProps) => {
+  const { data: auditLog = [], isLoading } = useQuery({
+    queryKey: ["contributor-audit-log", contributor?.id],
+    enabled: !!contributor,
+    queryFn: () => adminFetch<{ auditLog: ContributorAuditEntry[] }>(
+      `/contributor-admin?contributorId=${encodeURIComponent(contributor!.id)}`
+    ).then(data => data.auditLog),
+  });
+
+  const formatValue = (field: ContributorField, value: string | boolean | null) => {
+    if (value === null || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (field === 'teamId') return teams.find(team => team.id === value)?.name || value;
+    if (field === 'deactivatedAt') return format(parseISO(value), 'MMM d, yyyy');
+    return value;
+  };
+
+  return (
+    <Dialog open={!!contributor} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>History of {contributor?.githubLogin}</DialogTitle>
+          <DialogDescription>Profile changes made on this page, newest first.</DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>When</TableHead>
+              <TableHead>By</TableHead>
+              <TableHead>Changes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {auditLog.map(entry => (
+              <TableRow key={entry.id}>
+                <TableCell className="whitespace-nowrap align-top">{format(parseISO(entry.createdAt), 'MMM d, yyyy HH:mm')}</TableCell>
+                <TableCell className="whitespace-nowrap align-top">
+                  {entry.actorLogin || entry.actorGithubUserId || <span className="text-muted-foreground">Unknown</span>}
+                </TableCell>
+                <TableCell className="space-y-1">
+                  {(Object.keys(entry.changes) as ContributorField[]).map(field => (
+                    <div key={field}>
+                      <span className="text-muted-foreground">{CONTRIBUTOR_FIELD_LABELS[field]}:</span>{' '}
+                      {formatValue(field, entry.changes[field]!.from)} → {formatValue(field, entry.changes[field]!.to)}
+                    </div>
+                  ))}
+                </TableCell>
+              </TableRow>
+            ))}
+            {!isLoading && auditLog.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={3} className="text-center text-muted-foreground">No changes yet.</TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+};
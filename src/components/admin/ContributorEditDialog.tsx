@@ -0,0 +1,159 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import type { AdminContributor, ContributorUpdate } from "@/lib/admin";
+import type { Team } from "@/lib/teams";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const contributorSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  cursorEmail: z.union([z.literal(''), z.string().trim().email('Enter an email address')]),
+  teamId: z.string().min(1, 'Pick a team'),
+  excludeFromLeaderboard: z.boolean(),
+});
+
+type ContributorFormValues = z.infer<typeof contributorSchema>;
+
+interface ContributorEditDialogProps {
+  contributor: AdminContributor | null;
+  teams: Team[];
+  isSaving: boolean;
+  onSave: (update: ContributorUpdate) => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ContributorEditDialog = ({ contributor, teams, isSaving, onSave, onOpenChange }: ContributorEditDialogProps) => {
+  const form = useForm<ContributorFormValues>({
+    resolver: zodResolver(contributorSchema),
+  });
+
+  useEffect(() => {
+    if (contributor) {
+      form.reset({
+        name: contributor.name,
+        cursorEmail: contributor.cursorEmail || '',
+        teamId: contributor.teamId,
+        excludeFromLeaderboard: contributor.excludeFromLeaderboard,
+      });
+    }
+  }, [contributor, form]);
+
+  return (
+    <Dialog open={!!contributor} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit {contributor?.githubLogin}</DialogTitle>
+          <DialogDescription>Changes are recorded in the contributor's history.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(values => contributor && onSave({
+              id: contributor.id,
+              name: values.name,
+              cursorEmail: values.cursorEmail || null,
+              teamId: values.teamId,
+              excludeFromLeaderboard: values.excludeFromLeaderboard,
+            }))}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Display name</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="cursorEmail"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Cursor email</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="name@company.com" {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormDescription>Cursor usage is matched to the contributor by this email.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="teamId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Team</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Pick a team" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {teams.map(team => (
+                        <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>GitHub activity counts for the team that owns the repository; Cursor usage counts for this one.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="excludeFromLeaderboard"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4">
+                  <div>
+                    <FormLabel>Exclude from leaderboard</FormLabel>
+                    <FormDescription>Still scored, but not shown in the dashboard's rankings.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button type="submit" disabled={isSaving}>{isSaving ? "Saving..." : "Save"}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabase";
+import { AuthContext, type AuthState, type TeamMembership } from "@/lib/auth";
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const queryClient = useQueryClient();
+  const [session, setSession] = useState<Session | null>(null);
+  const [isSessionLoading, setIsSessionLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setIsSessionLoading(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Read from the GitHub identity, not user_metadata, which users can change themselves.
+  // The identity's id is the GitHub user id (identity_id is Supabase's own).
+  const githubIdentity = session?.user.identities?.find(identity => identity.provider === 'github');
+  const githubUserId: string | null = githubIdentity?.id ?? null;
+  const githubLogin: string | null = githubIdentity?.identity_data?.user_name ?? null;
+
+  const { data: memberships = [], isLoading: isMembershipsLoading } = useQuery({
+    queryKey: ["memberships", githubUserId],
+    enabled: !!githubUserId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('TeamMember')
+        .select('id, teamId, githubUserId, githubLogin, role')
+        .eq('githubUserId', githubUserId)
+        .returns<TeamMembership[]>();
+      if (error) throw error;
+      return data || [];
+    }
+  });
+
+  const signIn = useCallback(async () => {
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider: 'github',
+      options: { redirectTo: window.location.href },
+    });
+    if (error) throw error;
+  }, []);
+
+  // Cached queries were made as the signed-in user, so drop them too
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+    queryClient.clear();
+  }, [queryClient]);
+
+  const value = useMemo<AuthState>(() => ({
+    session,
+    githubUserId,
+    githubLogin,
+    memberships,
+    isLoading: isSessionLoading || (!!githubUserId && isMembershipsLoading),
+    signIn,
+    signOut,
+  }), [session, githubUserId, githubLogin, memberships, isSessionLoading, isMembershipsLoading, signIn, signOut]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
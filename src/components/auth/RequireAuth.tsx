@@ -0,0 +1,53 @@
+import type { ReactNode } from "react";
+import { toast } from "sonner";
+import { Github } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+
+// Only signed-in members of at least one team get past this
+export const RequireAuth = ({ children }: { children: ReactNode }) => {
+  const { session, githubLogin, memberships, isLoading, signIn, signOut } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen p-6 md:p-8 flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (session && memberships.length > 0) {
+    return <>{children}</>;
+  }
+
+  return (
+    <div className="min-h-screen p-6 md:p-8 flex items-center justify-center">
+      <Card className="p-6 neo-blur max-w-md w-full text-center">
+        <h1 className="text-2xl font-bold text-gradient mb-2">Dev Team Dashboard</h1>
+        {!session ? (
+          <>
+            <p className="text-sm text-muted-foreground mb-6">Sign in with your GitHub account to see your team's stats.</p>
+            <Button
+              onClick={() => signIn().catch(() => {
+                toast.error("Couldn't start the GitHub sign-in");
+              })}
+            >
+              <Github className="h-4 w-4 mr-2" />
+              Sign in with GitHub
+            </Button>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground mb-6">
+              You're signed in as <span className="font-medium text-foreground">{githubLogin}</span>, but you're not
+              a member of any team yet. Ask a team admin to add you.
+            </p>
+            <Button variant="outline" onClick={() => signOut()}>Sign out</Button>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
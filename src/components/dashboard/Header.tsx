@@ -1,6 +1,12 @@
 import { useIsMobile } from "@/hooks/use-mobile";
 import { MonthSelector } from "./MonthSelector";
+import { TeamSwitcher } from "./TeamSwitcher";
+import { RangePicker } from "./RangePicker";
 import { useNavigate } from "react-router-dom";
+import { LogOut, Settings, TrendingUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { Team } from "@/lib/teams";
+import type { StatsRange } from "@/lib/date-ranges";
 
 interface HeaderProps {
   currentMonth: Date;
@@ -8,6 +14,16 @@ interface HeaderProps {
   onNextMonth: () => void;
   onMonthChange: (date: Date) => void;
   availableMonths: Date[];
+  teams?: Team[];
+  selectedTeamId?: string;
+  onTeamChange?: (team: Team) => void;
+  trendsPath?: string;
+  // Settings are only linked for team admins
+  settingsPath?: string;
+  onSignOut?: () => void;
+  // Offers the range picker for weeks, sprints, quarters and custom ranges
+  sprintStart?: Date;
+  onRangeChange?: (range: StatsRange) => void;
 }
 
 export const Header = ({ 
@@ -15,10 +31,20 @@ export const Header = ({
   onPreviousMonth, 
   onNextMonth, 
   onMonthChange,
-  availableMonths 
+  availableMonths,
+  teams = [],
+  selectedTeamId,
+  onTeamChange,
+  trendsPath,
+  settingsPath,
+  onSignOut,
+  sprintStart,
+  onRangeChange
 }: HeaderProps) => {
   const isMobile = useIsMobile();
   const navigate = useNavigate();
+  // Only offer a switcher when there's more than one organization to pick from
+  const showTeamSwitcher = teams.length > 1 && !!selectedTeamId && !!onTeamChange;
 
   const handleHomeClick = () => {
     onMonthChange(new Date());
@@ -38,14 +64,59 @@ export const Header = ({
           </p>
         </div>
       </div>
-      {!isMobile && (
-        <MonthSelector
-          currentMonth={currentMonth}
-          onPreviousMonth={onPreviousMonth}
-          onNextMonth={onNextMonth}
-          availableMonths={availableMonths}
-        />
-      )}
+      <div className={`flex items-center gap-4 ${isMobile ? 'justify-center mt-4' : ''}`}>
+        {showTeamSwitcher && (
+          <TeamSwitcher
+            teams={teams}
+            selectedTeamId={selectedTeamId!}
+            onTeamChange={onTeamChange!}
+          />
+        )}
+        {!isMobile && (
+          <MonthSelector
+            currentMonth={currentMonth}
+            onPreviousMonth={onPreviousMonth}
+            onNextMonth={onNextMonth}
+            availableMonths={availableMonths}
+          />
+        )}
+        {sprintStart && onRangeChange && (
+          <RangePicker sprintStart={sprintStart} onRangeChange={onRangeChange} />
+        )}
+        {trendsPath && (
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Trends"
+            onClick={() => navigate(trendsPath)}
+            className="hover:bg-white/10"
+          >
+            <TrendingUp className="h-4 w-4" />
+          </Button>
+        )}
+        {settingsPath && (
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Settings"
+            onClick={() => navigate(settingsPath)}
+            className="hover:bg-white/10"
+          >
+            <Settings className="h-4 w-4" />
+          </Button>
+        )}
+        {onSignOut && (
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Sign out"
+            onClick={onSignOut}
+            className="hover:bg-white/10"
+          >
+            <LogOut className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
     </div>
   );
 };
\ No newline at end of file
@@ -1,18 +1,45 @@
 import { Card } from "@/components/ui/card";
 import { GitPullRequest, Code2, GitCommit } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface Overall {
+  totalPrs: number;
+  mergedPrs: number;
+  linesAdded: number;
+  linesRemoved: number;
+  totalCommits: number;
+}
 
 interface OverallStatsProps {
-  overall: {
-    totalPrs: number;
-    mergedPrs: number;
-    linesAdded: number;
-    linesRemoved: number;
-    totalCommits: number;
-    averageContributionScore: number;
-  };
+  overall: Overall;
+  // The month before, for month-over-month changes
+  previous?: Overall | null;
 }
 
-export const OverallStats = ({ overall }: OverallStatsProps) => {
+// Change from the previous month, as a percentage when there's something to compare with
+const Delta = ({ value, previous }: { value: number; previous?: number }) => {
+  if (previous === undefined) return null;
+  const change = value - previous;
+  const label = change === 0
+    ? 'No change'
+    : previous > 0
+      ? `${change > 0 ? '+' : ''}${Math.round((change / previous) * 100)}%`
+      : `${change > 0 ? '+' : ''}${change.toLocaleString()}`;
+
+  return (
+    <p
+      className={cn(
+        "text-xs truncate",
+        change > 0 ? "text-emerald-400" : change < 0 ? "text-red-400" : "text-muted-foreground"
+      )}
+      title={`${previous.toLocaleString()} the month before`}
+    >
+      {label} <span className="text-muted-foreground">vs last month</span>
+    </p>
+  );
+};
+
+export const OverallStats = ({ overall, previous }: OverallStatsProps) => {
   return (
     <div className="grid grid-cols-2 md:grid-cols-4 gap-2 md:gap-4 mb-6">
       <Card className="p-2 md:p-4 glass-morphism">
@@ -21,6 +48,7 @@ export const OverallStats = ({ overall }: OverallStatsProps) => {
           <div className="flex-1 min-w-0">
             <p className="text-xs md:text-sm text-muted-foreground truncate">Total Commits</p>
             <p className="text-lg md:text-2xl font-semibold text-gradient">{overall.totalCommits}</p>
+            <Delta value={overall.totalCommits} previous={previous?.totalCommits} />
           </div>
         </div>
       </Card>
@@ -30,6 +58,7 @@ export const OverallStats = ({ overall }: OverallStatsProps) => {
           <div className="flex-1 min-w-0">
             <p className="text-xs md:text-sm text-muted-foreground truncate">Merged PRs</p>
             <p className="text-lg md:text-2xl font-semibold text-gradient">{overall.mergedPrs}</p>
+            <Delta value={overall.mergedPrs} previous={previous?.mergedPrs} />
           </div>
         </div>
       </Card>
@@ -39,6 +68,7 @@ export const OverallStats = ({ overall }: OverallStatsProps) => {
           <div className="flex-1 min-w-0">
             <p className="text-xs md:text-sm text-muted-foreground truncate">Lines Added</p>
             <p className="text-lg md:text-2xl font-semibold text-emerald-400">+{overall.linesAdded.toLocaleString()}</p>
+            <Delta value={overall.linesAdded} previous={previous?.linesAdded} />
           </div>
         </div>
       </Card>
@@ -48,9 +78,10 @@ export const OverallStats = ({ overall }: OverallStatsProps) => {
           <div className="flex-1 min-w-0">
             <p className="text-xs md:text-sm text-muted-foreground truncate">Lines Removed</p>
             <p className="text-lg md:text-2xl font-semibold text-red-400">-{overall.linesRemoved.toLocaleString()}</p>
+            <Delta value={overall.linesRemoved} previous={previous?.linesRemoved} />
           </div>
         </div>
       </Card>
     </div>
   );
-}; 
\ No newline at end of file
+};
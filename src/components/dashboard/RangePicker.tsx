@@ -0,0 +1,84 @@
+import { useState } from "react";
+import type { DateRange } from "react-day-picker";
+import { CalendarRange } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  getPeriodRange,
+  getRangeLength,
+  MAX_RANGE_DAYS,
+  RANGE_PERIOD_LABELS,
+  type StatsRange,
+} from "@/lib/date-ranges";
+
+const PRESET_PERIODS = ['week', 'sprint', 'quarter'] as const;
+
+interface RangePickerProps {
+  range?: StatsRange | null;
+  sprintStart: Date;
+  onRangeChange: (range: StatsRange) => void;
+}
+
+// The current week, sprint or quarter in one click, or any days picked on the calendar
+export const RangePicker = ({ range, sprintStart, onRangeChange }: RangePickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [selection, setSelection] = useState<DateRange | undefined>();
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) setSelection(range ? { from: range.from, to: range.to } : undefined);
+  };
+
+  const choose = (newRange: StatsRange) => {
+    setOpen(false);
+    onRangeChange(newRange);
+  };
+
+  const isTooLong = !!selection?.from && !!selection.to &&
+    getRangeLength({ from: selection.from, to: selection.to }) > MAX_RANGE_DAYS;
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Pick a date range" className="hover:bg-white/10">
+          <CalendarRange className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <div className="flex gap-2 p-3 pb-0">
+          {PRESET_PERIODS.map(period => (
+            <Button
+              key={period}
+              variant="outline"
+              size="sm"
+              onClick={() => choose(getPeriodRange(period, new Date(), sprintStart))}
+            >
+              This {RANGE_PERIOD_LABELS[period].toLowerCase()}
+            </Button>
+          ))}
+        </div>
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          defaultMonth={selection?.from}
+          selected={selection}
+          onSelect={setSelection}
+          disabled={{ after: new Date() }}
+        />
+        <div className="flex items-center justify-between gap-4 p-3 pt-0">
+          <span className="text-xs text-muted-foreground">
+            {isTooLong ? `Pick at most ${MAX_RANGE_DAYS} days` : 'Pick the first and last day'}
+          </span>
+          <Button
+            size="sm"
+            disabled={!selection?.from || !selection.to || isTooLong}
+            onClick={() => selection?.from && selection.to && choose({ from: selection.from, to: selection.to })}
+          >
+            Show range
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
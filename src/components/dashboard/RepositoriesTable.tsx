@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import type { MonthRepository, RepoMonthStats, RepoRecord } from "@/lib/stats-api";
+import { cn } from "@/lib/utils";
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const SORT_COLUMNS = {
+  commits: { label: 'Commits', value: (stats: RepoMonthStats) => stats.commits || 0 },
+  totalPrs: { label: 'PRs', value: (stats: RepoMonthStats) => stats.totalPrs || 0 },
+  mergedPrs: { label: 'Merged PRs', value: (stats: RepoMonthStats) => stats.mergedPrs || 0 },
+  lines: {
+    label: 'Lines',
+    value: (stats: RepoMonthStats) => (stats.linesAdded || 0) + (stats.linesRemoved || 0),
+  },
+  activeContributors: { label: 'Contributors', value: (stats: RepoMonthStats) => stats.activeContributors || 0 },
+} as const;
+
+type SortColumn = keyof typeof SORT_COLUMNS;
+
+interface RepositoriesTableProps {
+  repositories: MonthRepository[];
+  reposById: Record<string, RepoRecord>;
+  onRepoSelect: (githubRepoId: string) => void;
+}
+
+// The month's repositories, busiest first by the chosen column
+export const RepositoriesTable = ({ repositories, reposById, onRepoSelect }: RepositoriesTableProps) => {
+  const [sortColumn, setSortColumn] = useState<SortColumn>('commits');
+  const [ascending, setAscending] = useState(false);
+
+  const { value } = SORT_COLUMNS[sortColumn];
+  const sorted = [...repositories].sort((a, b) =>
+    (ascending ? 1 : -1) * (value(a.stats) - value(b.stats)) || a.stats.name.localeCompare(b.stats.name)
+  );
+
+  const handleSort = (column: SortColumn) => {
+    if (column === sortColumn) {
+      setAscending(!ascending);
+    } else {
+      setSortColumn(column);
+      setAscending(false);
+    }
+  };
+
+  return (
+    <Card className="p-4 md:p-6 glass-morphism mt-8">
+      <h2 className="text-lg font-semibold mb-4">Repositories</h2>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Repository</TableHead>
+            {(Object.keys(SORT_COLUMNS) as SortColumn[]).map(column => (
+              <TableHead key={column} className="text-right">
+                <button
+                  type="button"
+                  onClick={() => handleSort(column)}
+                  className={cn(
+                    "inline-flex items-center gap-1 hover:text-foreground",
+                    column === sortColumn && "text-foreground"
+                  )}
+                >
+                  {SORT_COLUMNS[column].label}
+                  {column === sortColumn && (ascending
+                    ? <ArrowUp className="h-3 w-3" />
+                    : <ArrowDown className="h-3 w-3" />)}
+                </button>
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sorted.map(({ githubRepoId, stats }) => {
+            // Resolve by githubRepoId so renamed repos show their current name
+            const repo = reposById[githubRepoId];
+            return (
+              <TableRow key={githubRepoId} className="cursor-pointer" onClick={() => onRepoSelect(githubRepoId)}>
+                <TableCell className={cn("font-medium", (repo?.archived || repo?.deletedAt) && "opacity-60")}>
+                  {repo?.name || stats.name}
+                  {repo?.deletedAt ? ' (deleted)' : repo?.archived ? ' (archived)' : ''}
+                </TableCell>
+                <TableCell className="text-right">{stats.commits || 0}</TableCell>
+                <TableCell className="text-right">{stats.totalPrs || 0}</TableCell>
+                <TableCell className="text-right">{stats.mergedPrs || 0}</TableCell>
+                <TableCell className="text-right">
+                  <span className="text-emerald-400">+{(stats.linesAdded || 0).toLocaleString()}</span>{' '}
+                  <span className="text-red-400">-{(stats.linesRemoved || 0).toLocaleString()}</span>
+                </TableCell>
+                <TableCell className="text-right">{stats.activeContributors || 0}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </Card>
+  );
+};
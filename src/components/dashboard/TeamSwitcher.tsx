@@ -0,0 +1,30 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Team } from "@/lib/teams";
+
+interface TeamSwitcherProps {
+  teams: Team[];
+  selectedTeamId: string;
+  onTeamChange: (team: Team) => void;
+}
+
+export const TeamSwitcher = ({ teams, selectedTeamId, onTeamChange }: TeamSwitcherProps) => {
+  const handleValueChange = (teamId: string) => {
+    const team = teams.find(t => t.id === teamId);
+    if (team) onTeamChange(team);
+  };
+
+  return (
+    <Select value={selectedTeamId} onValueChange={handleValueChange}>
+      <SelectTrigger className="w-48 glass-morphism" aria-label="Select team">
+        <SelectValue placeholder="Select team" />
+      </SelectTrigger>
+      <SelectContent>
+        {teams.map(team => (
+          <SelectItem key={team.id} value={team.id}>
+            {team.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -0,0 +1,334 @@
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Trash2 } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+type AuthorRuleType = 'ALIAS' | 'IGNORE' | 'RESTRICT_REPO';
+
+interface AuthorRule {
+  id: string;
+  type: AuthorRuleType;
+  githubLogin: string | null;
+  targetLogin: string | null;
+  githubRepoId: string | null;
+  allowedLogins: string[] | null;
+  createdAt: string;
+}
+
+interface RepoOption {
+  githubRepoId: string;
+  name: string;
+}
+
+const RULE_LABELS: Record<AuthorRuleType, string> = {
+  ALIAS: 'Alias',
+  IGNORE: 'Ignore',
+  RESTRICT_REPO: 'Restrict repository',
+};
+
+// Select items can't have an empty value, so "every repository" gets its own
+const ALL_REPOSITORIES = 'all';
+
+const parseLogins = (value: string) =>
+  value.split(',').map(login => login.trim()).filter(Boolean);
+
+const ruleSchema = z.object({
+  type: z.enum(['ALIAS', 'IGNORE', 'RESTRICT_REPO']),
+  githubLogin: z.string().trim(),
+  targetLogin: z.string().trim(),
+  githubRepoId: z.string(),
+  allowedLogins: z.string(),
+}).superRefine((values, ctx) => {
+  if (values.type !== 'RESTRICT_REPO' && !values.githubLogin) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['githubLogin'], message: 'Author login is required' });
+  }
+  if (values.type === 'ALIAS' && !values.targetLogin) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['targetLogin'], message: 'Login to credit is required' });
+  }
+  if (values.type === 'RESTRICT_REPO' && values.githubRepoId === ALL_REPOSITORIES) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['githubRepoId'], message: 'Pick the repository to restrict' });
+  }
+  if (values.type === 'RESTRICT_REPO' && parseLogins(values.allowedLogins).length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['allowedLogins'], message: 'List at least one login' });
+  }
+});
+
+type RuleFormValues = z.infer<typeof ruleSchema>;
+
+const defaultValues: RuleFormValues = {
+  type: 'ALIAS',
+  githubLogin: '',
+  targetLogin: '',
+  githubRepoId: ALL_REPOSITORIES,
+  allowedLogins: '',
+};
+
+interface AuthorRulesSettingsProps {
+  teamId: string;
+}
+
+export const AuthorRulesSettings = ({ teamId }: AuthorRulesSettingsProps) => {
+  const queryClient = useQueryClient();
+  const form = useForm<RuleFormValues>({
+    resolver: zodResolver(ruleSchema),
+    defaultValues,
+  });
+  const type = form.watch('type');
+
+  const { data: rules = [], isLoading } = useQuery({
+    queryKey: ["author-rules", teamId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('AuthorRule')
+        .select('id, type, githubLogin, targetLogin, githubRepoId, allowedLogins, createdAt')
+        .eq('teamId', teamId)
+        .order('createdAt')
+        .returns<AuthorRule[]>();
+      if (error) throw error;
+      return data || [];
+    }
+  });
+
+  const { data: repos = [] } = useQuery({
+    queryKey: ["repos", teamId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('Repo')
+        .select('githubRepoId, name')
+        .eq('teamId', teamId)
+        .is('deletedAt', null)
+        .order('name')
+        .returns<RepoOption[]>();
+      if (error) throw error;
+      return data || [];
+    }
+  });
+
+  const repoNames = Object.fromEntries(repos.map(repo => [repo.githubRepoId, repo.name]));
+
+  const createRule = useMutation({
+    mutationFn: async (values: RuleFormValues) => {
+      const now = new Date().toISOString();
+      const { error } = await supabase.from('AuthorRule').insert({
+        id: crypto.randomUUID(),
+        teamId,
+        type: values.type,
+        githubLogin: values.type === 'RESTRICT_REPO' ? null : values.githubLogin,
+        targetLogin: values.type === 'ALIAS' ? values.targetLogin : null,
+        githubRepoId: values.githubRepoId === ALL_REPOSITORIES ? null : values.githubRepoId,
+        allowedLogins: values.type === 'RESTRICT_REPO' ? parseLogins(values.allowedLogins) : [],
+        createdAt: now,
+        updatedAt: now,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Rule added");
+      form.reset(defaultValues);
+      queryClient.invalidateQueries({ queryKey: ["author-rules", teamId] });
+    },
+    onError: () => {
+      toast.error("Failed to add rule");
+    }
+  });
+
+  const deleteRule = useMutation({
+    mutationFn: async (ruleId: string) => {
+      const { error } = await supabase.from('AuthorRule').delete().eq('id', ruleId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Rule removed");
+      queryClient.invalidateQueries({ queryKey: ["author-rules", teamId] });
+    },
+    onError: () => {
+      toast.error("Failed to remove rule");
+    }
+  });
+
+  const describeRule = (rule: AuthorRule) => {
+    switch (rule.type) {
+      case 'ALIAS':
+        return `Credit ${rule.githubLogin} as ${rule.targetLogin}`;
+      case 'IGNORE':
+        return `Skip ${rule.githubLogin}`;
+      case 'RESTRICT_REPO':
+        return `Only count ${(rule.allowedLogins || []).join(', ')}`;
+    }
+  };
+
+  return (
+    <Card className="p-6 neo-blur">
+      <h2 className="text-xl font-semibold mb-1">Author rules</h2>
+      <p className="text-sm text-muted-foreground mb-6">
+        Decide whose activity counts. The webhook and the sync script apply these rules as activity
+        comes in, so re-run the sync for months that were synced before a rule changed.
+      </p>
+
+      <Table className="mb-8">
+        <TableHeader>
+          <TableRow>
+            <TableHead>Type</TableHead>
+            <TableHead>Rule</TableHead>
+            <TableHead>Repository</TableHead>
+            <TableHead className="w-12" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rules.map(rule => (
+            <TableRow key={rule.id}>
+              <TableCell>{RULE_LABELS[rule.type]}</TableCell>
+              <TableCell>{describeRule(rule)}</TableCell>
+              <TableCell>
+                {rule.githubRepoId ? repoNames[rule.githubRepoId] || rule.githubRepoId : 'All repositories'}
+              </TableCell>
+              <TableCell>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove rule"
+                  disabled={deleteRule.isPending}
+                  onClick={() => deleteRule.mutate(rule.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+          {!isLoading && rules.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={4} className="text-center text-muted-foreground">
+                No rules yet. Everyone's activity counts.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(values => createRule.mutate(values))} className="grid gap-4 md:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Type</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(RULE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="githubRepoId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Repository</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {type !== 'RESTRICT_REPO' && (
+                      <SelectItem value={ALL_REPOSITORIES}>All repositories</SelectItem>
+                    )}
+                    {repos.map(repo => (
+                      <SelectItem key={repo.githubRepoId} value={repo.githubRepoId}>{repo.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {type !== 'RESTRICT_REPO' && (
+            <FormField
+              control={form.control}
+              name="githubLogin"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Author login</FormLabel>
+                  <FormControl>
+                    <Input placeholder="lovable-dev[bot]" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          {type === 'ALIAS' && (
+            <FormField
+              control={form.control}
+              name="targetLogin"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Credit to</FormLabel>
+                  <FormControl>
+                    <Input placeholder="octocat" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          {type === 'RESTRICT_REPO' && (
+            <FormField
+              control={form.control}
+              name="allowedLogins"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Allowed logins</FormLabel>
+                  <FormControl>
+                    <Input placeholder="octocat, hubot" {...field} />
+                  </FormControl>
+                  <FormDescription>Comma-separated. Everyone else's activity in the repository is skipped.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          <div className="md:col-span-2">
+            <Button type="submit" disabled={createRule.isPending}>
+              {createRule.isPending ? "Adding..." : "Add rule"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </Card>
+  );
+};
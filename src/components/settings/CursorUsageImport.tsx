@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/lib/supabase";
+import { adminFetch } from "@/lib/admin";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface ImportResult {
+  imported: number;
+  contributors: number;
+  unmatchedEmails: string[];
+  months: string[];
+}
+
+interface CursorUsageImportProps {
+  teamId: string;
+}
+
+export const CursorUsageImport = ({ teamId }: CursorUsageImportProps) => {
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const { data: lastDay } = useQuery({
+    queryKey: ["cursor-usage", teamId, "last-day"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('CursorUsage')
+        .select('date, contributor:Contributor!inner(teamId)')
+        .eq('contributor.teamId', teamId)
+        .order('date', { ascending: false })
+        .limit(1)
+        .returns<{ date: string }[]>();
+      if (error) throw error;
+      return data?.[0]?.date || null;
+    }
+  });
+
+  const importUsage = useMutation({
+    mutationFn: async () => adminFetch<ImportResult>(`/import-cursor-usage?teamId=${encodeURIComponent(teamId)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/csv' },
+      body: await file!.text(),
+    }),
+    onSuccess: (data) => {
+      setResult(data);
+      toast.success(`Imported ${data.imported} days of Cursor usage`);
+      queryClient.invalidateQueries({ queryKey: ["cursor-usage", teamId] });
+      queryClient.invalidateQueries({ queryKey: ["month-contributors"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to import Cursor usage");
+    }
+  });
+
+  return (
+    <Card className="p-6 neo-blur">
+      <h2 className="text-xl font-semibold mb-1">Cursor usage</h2>
+      <p className="text-sm text-muted-foreground mb-6">
+        Upload the team usage export from Cursor's dashboard to count tabs and premium requests.
+        Rows are matched to contributors by their Cursor email, days already imported are replaced,
+        and the months they fall in are rebuilt.
+        {lastDay && <> Usage is imported up to {format(parseISO(lastDay), 'MMM d, yyyy')}.</>}
+      </p>
+
+      <form
+        onSubmit={event => {
+          event.preventDefault();
+          importUsage.mutate();
+        }}
+        className="space-y-4"
+      >
+        <div className="space-y-2">
+          <Label htmlFor="cursor-usage-file">Usage export (CSV)</Label>
+          <Input
+            id="cursor-usage-file"
+            type="file"
+            accept=".csv,text/csv"
+            onChange={event => setFile(event.target.files?.[0] || null)}
+          />
+        </div>
+        <Button type="submit" disabled={!file || importUsage.isPending}>
+          {importUsage.isPending ? "Importing..." : "Import usage"}
+        </Button>
+      </form>
+
+      {result && (
+        <div className="mt-6 text-sm space-y-2">
+          <p>
+            Imported {result.imported} days for {result.contributors} contributors
+            {result.months.length > 0 && <> and rebuilt {result.months.map(month => format(parseISO(`${month}-01`), 'MMMM yyyy')).join(', ')}</>}.
+          </p>
+          {result.unmatchedEmails.length > 0 && (
+            <p className="text-muted-foreground">
+              No contributor has the Cursor email {result.unmatchedEmails.join(', ')}, so that usage was skipped.
+              Set their Cursor email and import again.
+            </p>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
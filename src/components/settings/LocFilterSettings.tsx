@@ -0,0 +1,121 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+const parsePatterns = (value: string) =>
+  value.split('\n').map(pattern => pattern.trim()).filter(Boolean);
+
+const patternsSchema = z.object({
+  patterns: z.string(),
+});
+
+type PatternsFormValues = z.infer<typeof patternsSchema>;
+
+interface LocFilterSettingsProps {
+  teamId: string;
+}
+
+export const LocFilterSettings = ({ teamId }: LocFilterSettingsProps) => {
+  const queryClient = useQueryClient();
+  const form = useForm<PatternsFormValues>({
+    resolver: zodResolver(patternsSchema),
+    defaultValues: { patterns: '' },
+  });
+
+  const { data: patterns, isLoading } = useQuery({
+    queryKey: ["loc-exclude-patterns", teamId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('Team')
+        .select('locExcludePatterns')
+        .eq('id', teamId)
+        .returns<{ locExcludePatterns: string[] | null }[]>()
+        .single();
+      if (error) throw error;
+      return data.locExcludePatterns || [];
+    }
+  });
+
+  useEffect(() => {
+    if (patterns) {
+      form.reset({ patterns: patterns.join('\n') });
+    }
+  }, [patterns, form]);
+
+  const savePatterns = useMutation({
+    mutationFn: async (values: PatternsFormValues) => {
+      const { error } = await supabase
+        .from('Team')
+        .update({ locExcludePatterns: parsePatterns(values.patterns), updatedAt: new Date().toISOString() })
+        .eq('id', teamId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Line count filters saved");
+      queryClient.invalidateQueries({ queryKey: ["loc-exclude-patterns", teamId] });
+    },
+    onError: () => {
+      toast.error("Failed to save line count filters");
+    }
+  });
+
+  return (
+    <Card className="p-6 neo-blur">
+      <h2 className="text-xl font-semibold mb-1">Line count filters</h2>
+      <p className="text-sm text-muted-foreground mb-6">
+        Changes to matching files are left out of lines added and removed, so lockfiles, build output
+        and generated code don't inflate anyone's numbers. Both counts are stored; re-run the sync
+        with --force for months that were synced before a filter changed.
+      </p>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(values => savePatterns.mutate(values))} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="patterns"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Excluded paths</FormLabel>
+                <FormControl>
+                  <Textarea
+                    rows={10}
+                    className="font-mono text-sm"
+                    placeholder={"package-lock.json\ndist/\n*.snap"}
+                    disabled={isLoading}
+                    {...field}
+                  />
+                </FormControl>
+                <FormDescription>
+                  One pattern per line. A trailing slash matches a directory at any depth, * and ? match
+                  within a path segment, ** matches across directories, and a leading slash anchors to the
+                  repository root.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <Button type="submit" disabled={savePatterns.isPending || isLoading}>
+            {savePatterns.isPending ? "Saving..." : "Save filters"}
+          </Button>
+        </form>
+      </Form>
+    </Card>
+  );
+};
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import {
+  NORMALIZATION_LABELS,
+  NORMALIZATION_STRATEGIES,
+  SCORE_WEIGHTS,
+  rankContributors,
+  type NormalizationStrategy,
+  type ScoreInput,
+  type ScoreWeights,
+} from "@/lib/scoring";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface MonthOption {
+  id: string;
+  date: string;
+}
+
+interface ActiveProfile {
+  weights: ScoreWeights;
+  normalization: NormalizationStrategy;
+}
+
+interface ScoringComparisonProps {
+  teamId: string;
+}
+
+// How the team's ranking for a month would look under each normalization strategy,
+// keeping the active profile's weights
+export const ScoringComparison = ({ teamId }: ScoringComparisonProps) => {
+  const [selectedMonthId, setSelectedMonthId] = useState<string>();
+
+  const { data: months = [] } = useQuery({
+    queryKey: ["months", teamId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('Month')
+        .select('id, date')
+        .eq('teamId', teamId)
+        .order('date', { ascending: false })
+        .returns<MonthOption[]>();
+      if (error) throw error;
+      return data || [];
+    }
+  });
+
+  const { data: activeProfile } = useQuery({
+    queryKey: ["scoring-profiles", teamId, "active"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ScoringProfile')
+        .select('weights, normalization')
+        .eq('teamId', teamId)
+        .eq('isActive', true)
+        .returns<ActiveProfile[]>()
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const monthId = selectedMonthId || months[0]?.id;
+
+  const { data: contributors = [], isLoading } = useQuery({
+    queryKey: ["month-contributors", monthId],
+    enabled: !!monthId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('Month')
+        .select('stats')
+        .eq('id', monthId)
+        .returns<{ stats: { contributors?: Record<string, ScoreInput> } }[]>()
+        .single();
+      if (error) throw error;
+      return Object.entries(data.stats.contributors || {}).map(([githubUserId, stats]) => ({
+        ...stats,
+        githubUserId,
+      }));
+    }
+  });
+
+  const weights = activeProfile?.weights || SCORE_WEIGHTS;
+  const baseline = activeProfile?.normalization || 'MAX';
+  const rankings = Object.fromEntries(
+    NORMALIZATION_STRATEGIES.map(strategy => [strategy, rankContributors(contributors, weights, strategy)])
+  ) as Record<NormalizationStrategy, ReturnType<typeof rankContributors>>;
+
+  const ordered = [...contributors].sort((a, b) =>
+    rankings[baseline][a.githubUserId].rank - rankings[baseline][b.githubUserId].rank
+  );
+
+  return (
+    <Card className="p-6 neo-blur">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-xl font-semibold mb-1">Compare normalization</h2>
+          <p className="text-sm text-muted-foreground">
+            Rankings under each strategy with the active profile's weights. Arrows show movement against
+            {' '}{NORMALIZATION_LABELS[baseline]}, the active strategy.
+          </p>
+        </div>
+        <Select value={monthId} onValueChange={setSelectedMonthId}>
+          <SelectTrigger className="md:w-48">
+            <SelectValue placeholder="Pick a month" />
+          </SelectTrigger>
+          <SelectContent>
+            {months.map(month => (
+              <SelectItem key={month.id} value={month.id}>{format(parseISO(month.date), 'MMMM yyyy')}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Contributor</TableHead>
+            {NORMALIZATION_STRATEGIES.map(strategy => (
+              <TableHead key={strategy} className="text-right">{NORMALIZATION_LABELS[strategy]}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {ordered.map(contributor => (
+            <TableRow key={contributor.githubUserId}>
+              <TableCell>{contributor.login}</TableCell>
+              {NORMALIZATION_STRATEGIES.map(strategy => {
+                const { score, rank } = rankings[strategy][contributor.githubUserId];
+                const movement = rankings[baseline][contributor.githubUserId].rank - rank;
+                return (
+                  <TableCell key={strategy} className="text-right whitespace-nowrap">
+                    <span className="text-muted-foreground mr-2">#{rank}</span>
+                    {score}
+                    {movement !== 0 && (
+                      <span className={movement > 0 ? "text-emerald-400 ml-2" : "text-red-400 ml-2"}>
+                        {movement > 0 ? <ArrowUp className="inline h-3 w-3" /> : <ArrowDown className="inline h-3 w-3" />}
+                        {Math.abs(movement)}
+                      </span>
+                    )}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          ))}
+          {!isLoading && ordered.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={NORMALIZATION_STRATEGIES.length + 1} className="text-center text-muted-foreground">
+                No contributors in this month.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </Card>
+  );
+};
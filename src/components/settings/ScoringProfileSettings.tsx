@@ -0,0 +1,258 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/lib/supabase";
+import {
+  NORMALIZATION_LABELS,
+  NORMALIZATION_STRATEGIES,
+  SCORE_WEIGHT_KEYS,
+  SCORE_WEIGHT_LABELS,
+  formatScoringProfile,
+  type ScoreWeights,
+  type ScoringProfile,
+} from "@/lib/scoring";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const percentage = z.coerce.number().min(0, 'At least 0').max(100, 'At most 100');
+
+// Weights are edited as percentages and stored as fractions that add up to 1
+const profileSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  normalization: z.enum(['MAX', 'PERCENTILE', 'LOG', 'ZSCORE']),
+  weights: z.object({
+    loc: percentage,
+    mergedPRs: percentage,
+    commits: percentage,
+    reviews: percentage,
+    reviewComments: percentage,
+    tabs: percentage,
+    premiumRequests: percentage,
+  }),
+}).superRefine((values, ctx) => {
+  const total = SCORE_WEIGHT_KEYS.reduce((sum, key) => sum + values.weights[key], 0);
+  if (Math.abs(total - 100) > 0.01) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['name'], message: `Weights add up to ${total}%, not 100%` });
+  }
+});
+
+type ProfileFormValues = z.infer<typeof profileSchema>;
+
+const mapWeights = (weights: Partial<ScoreWeights>, scale: (weight: number) => number) =>
+  SCORE_WEIGHT_KEYS.reduce((mapped, key) => ({ ...mapped, [key]: scale(weights[key] || 0) }), {} as ScoreWeights);
+
+const toPercentages = (weights: ScoreWeights) => mapWeights(weights, weight => Math.round(weight * 10000) / 100);
+
+const toFractions = (weights: Partial<ScoreWeights>) => mapWeights(weights, weight => weight / 100);
+
+interface ScoringProfileSettingsProps {
+  teamId: string;
+}
+
+export const ScoringProfileSettings = ({ teamId }: ScoringProfileSettingsProps) => {
+  const queryClient = useQueryClient();
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileSchema),
+  });
+
+  const { data: profiles = [], isLoading } = useQuery({
+    queryKey: ["scoring-profiles", teamId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ScoringProfile')
+        .select('id, name, version, weights, normalization, isActive, createdAt')
+        .eq('teamId', teamId)
+        .order('name')
+        .order('version', { ascending: false })
+        .returns<ScoringProfile[]>();
+      if (error) throw error;
+      return data || [];
+    }
+  });
+
+  const activeProfile = profiles.find(profile => profile.isActive);
+
+  useEffect(() => {
+    if (activeProfile) {
+      form.reset({
+        name: activeProfile.name,
+        normalization: activeProfile.normalization,
+        weights: toPercentages(activeProfile.weights),
+      });
+    }
+  }, [activeProfile, form]);
+
+  // Only one profile is active at a time; the RPC swaps it in one transaction
+  const setActiveProfile = async (profileId: string) => {
+    const { error } = await supabase.rpc('activate_scoring_profile', { profile_id: profileId });
+    if (error) throw error;
+  };
+
+  const saveVersion = useMutation({
+    // The RPC numbers the version and activates it in one transaction
+    mutationFn: async (values: ProfileFormValues) => {
+      const { error } = await supabase.rpc('save_scoring_profile', {
+        team_id: teamId,
+        profile_name: values.name,
+        profile_weights: toFractions(values.weights),
+        profile_normalization: values.normalization,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Scoring profile saved");
+      queryClient.invalidateQueries({ queryKey: ["scoring-profiles", teamId] });
+    },
+    onError: () => {
+      toast.error("Failed to save scoring profile");
+    }
+  });
+
+  const activate = useMutation({
+    mutationFn: setActiveProfile,
+    onSuccess: () => {
+      toast.success("Scoring profile activated");
+      queryClient.invalidateQueries({ queryKey: ["scoring-profiles", teamId] });
+    },
+    onError: () => {
+      toast.error("Failed to activate scoring profile");
+    }
+  });
+
+  return (
+    <Card className="p-6 neo-blur">
+      <h2 className="text-xl font-semibold mb-1">Scoring profile</h2>
+      <p className="text-sm text-muted-foreground mb-6">
+        How much each metric counts toward contribution scores. Saving adds a new version and makes it
+        active for months that haven't been scored yet. Months already scored keep their profile until
+        they're rescored with /recompute-scores or the sync script's --scoring-profile option.
+      </p>
+
+      <Table className="mb-8">
+        <TableHeader>
+          <TableRow>
+            <TableHead>Profile</TableHead>
+            <TableHead>Weights</TableHead>
+            <TableHead>Saved</TableHead>
+            <TableHead className="w-28" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {profiles.map(profile => (
+            <TableRow key={profile.id}>
+              <TableCell className="whitespace-nowrap">{formatScoringProfile(profile)}</TableCell>
+              <TableCell className="text-xs text-muted-foreground">
+                {NORMALIZATION_LABELS[profile.normalization]} · {SCORE_WEIGHT_KEYS.map(key => `${SCORE_WEIGHT_LABELS[key]} ${toPercentages(profile.weights)[key]}%`).join(' · ')}
+              </TableCell>
+              <TableCell className="whitespace-nowrap">{format(parseISO(profile.createdAt), 'MMM d, yyyy')}</TableCell>
+              <TableCell>
+                {profile.isActive ? (
+                  <Badge variant="secondary" className="neo-blur">Active</Badge>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={activate.isPending}
+                    onClick={() => activate.mutate(profile.id)}
+                  >
+                    Activate
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+          {!isLoading && profiles.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={4} className="text-center text-muted-foreground">
+                No profiles yet. Scores use the default weights.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(values => saveVersion.mutate(values))} className="grid gap-4 md:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Profile name</FormLabel>
+                <FormControl>
+                  <Input placeholder="Default" {...field} value={field.value ?? ''} />
+                </FormControl>
+                <FormDescription>Saving under an existing name adds the next version of that profile.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="normalization"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Normalization</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Pick a strategy" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {NORMALIZATION_STRATEGIES.map(strategy => (
+                      <SelectItem key={strategy} value={strategy}>{NORMALIZATION_LABELS[strategy]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>How each metric is scaled against the rest of the team.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {SCORE_WEIGHT_KEYS.map(key => (
+            <FormField
+              key={key}
+              control={form.control}
+              name={`weights.${key}`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{SCORE_WEIGHT_LABELS[key]} (%)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={0} max={100} step="any" {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+
+          <div className="md:col-span-2">
+            <Button type="submit" disabled={saveVersion.isPending || isLoading}>
+              {saveVersion.isPending ? "Saving..." : "Save new version"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </Card>
+  );
+};
@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import { formatRange, getPeriodRange, getSprintStart, parseDay, SPRINT_LENGTH_DAYS } from "@/lib/date-ranges";
+import type { Team } from "@/lib/teams";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface SprintSettingsProps {
+  team: Team;
+}
+
+export const SprintSettings = ({ team }: SprintSettingsProps) => {
+  const queryClient = useQueryClient();
+  const [sprintStartDate, setSprintStartDate] = useState(team.sprintStartDate || '');
+
+  useEffect(() => {
+    setSprintStartDate(team.sprintStartDate || '');
+  }, [team.sprintStartDate]);
+
+  const saveSprintStart = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('Team')
+        .update({ sprintStartDate: sprintStartDate || null, updatedAt: new Date().toISOString() })
+        .eq('id', team.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Sprint cadence saved");
+      queryClient.invalidateQueries({ queryKey: ["teams"] });
+    },
+    onError: () => {
+      toast.error("Failed to save sprint cadence");
+    }
+  });
+
+  const isValid = !sprintStartDate || !!parseDay(sprintStartDate);
+  const currentSprint = isValid
+    ? getPeriodRange('sprint', new Date(), getSprintStart(sprintStartDate))
+    : null;
+
+  return (
+    <Card className="p-6 neo-blur">
+      <h2 className="text-xl font-semibold mb-1">Sprints</h2>
+      <p className="text-sm text-muted-foreground mb-6">
+        Sprints run {SPRINT_LENGTH_DAYS / 7} weeks back to back. Pick the first day of any sprint and the
+        dashboard's sprint ranges line up with it.
+      </p>
+
+      <form
+        onSubmit={event => {
+          event.preventDefault();
+          saveSprintStart.mutate();
+        }}
+        className="space-y-4"
+      >
+        <div className="space-y-2">
+          <Label htmlFor="sprint-start-date">A sprint's first day</Label>
+          <Input
+            id="sprint-start-date"
+            type="date"
+            className="md:w-60"
+            value={sprintStartDate}
+            onChange={event => setSprintStartDate(event.target.value)}
+          />
+          {currentSprint && (
+            <p className="text-sm text-muted-foreground">The current sprint is {formatRange(currentSprint)}.</p>
+          )}
+        </div>
+
+        <Button type="submit" disabled={!isValid || saveSprintStart.isPending}>
+          {saveSprintStart.isPending ? "Saving..." : "Save sprint cadence"}
+        </Button>
+      </form>
+    </Card>
+  );
+};
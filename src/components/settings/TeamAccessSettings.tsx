@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Trash2 } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { TEAM_ROLE_LABELS, useAuth, type TeamMembership, type TeamRole } from "@/lib/auth";
+import type { Team } from "@/lib/teams";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const ROLES = Object.keys(TEAM_ROLE_LABELS) as TeamRole[];
+
+interface TeamAccessSettingsProps {
+  team: Team;
+}
+
+export const TeamAccessSettings = ({ team }: TeamAccessSettingsProps) => {
+  const queryClient = useQueryClient();
+  const { githubUserId } = useAuth();
+  const [login, setLogin] = useState('');
+  const [role, setRole] = useState<TeamRole>('ENGINEER');
+
+  const { data: members = [], isLoading } = useQuery({
+    queryKey: ["team-members", team.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('TeamMember')
+        .select('id, teamId, githubUserId, githubLogin, role')
+        .eq('teamId', team.id)
+        .order('githubLogin')
+        .returns<TeamMembership[]>();
+      if (error) throw error;
+      return data || [];
+    }
+  });
+
+  const onError = (action: string) => (error: Error) => {
+    toast.error(error.message || `Failed to ${action}`);
+  };
+
+  const setEngineerOnlyMode = useMutation({
+    mutationFn: async (engineerOnlyMode: boolean) => {
+      const { error } = await supabase
+        .from('Team')
+        .update({ engineerOnlyMode, updatedAt: new Date().toISOString() })
+        .eq('id', team.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Engineer-only mode saved");
+      queryClient.invalidateQueries({ queryKey: ["teams"] });
+    },
+    onError: onError('save engineer-only mode')
+  });
+
+  // Members are matched by GitHub user id, which is what Supabase Auth knows them by
+  const addMember = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`https://api.github.com/users/${encodeURIComponent(login.trim())}`);
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? `GitHub has no user ${login.trim()}` : 'Failed to look up the GitHub user');
+      }
+      const user: { id: number; login: string } = await response.json();
+      if (members.some(member => member.githubUserId === String(user.id))) {
+        throw new Error(`${user.login} is already a member`);
+      }
+
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from('TeamMember')
+        .insert({
+          id: crypto.randomUUID(),
+          teamId: team.id,
+          githubUserId: String(user.id),
+          githubLogin: user.login,
+          role,
+          createdAt: now,
+          updatedAt: now,
+        });
+      if (error) throw error;
+      return user.login;
+    },
+    onSuccess: (addedLogin) => {
+      toast.success(`Added ${addedLogin}`);
+      setLogin('');
+      queryClient.invalidateQueries({ queryKey: ["team-members", team.id] });
+    },
+    onError: onError('add member')
+  });
+
+  const updateRole = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: TeamRole }) => {
+      const { error } = await supabase
+        .from('TeamMember')
+        .update({ role, updatedAt: new Date().toISOString() })
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["team-members", team.id] }),
+    onError: onError('change role')
+  });
+
+  const removeMember = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('TeamMember')
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["team-members", team.id] }),
+    onError: onError('remove member')
+  });
+
+  return (
+    <Card className="p-6 neo-blur">
+      <h2 className="text-xl font-semibold mb-1">Access</h2>
+      <p className="text-sm text-muted-foreground mb-6">
+        People sign in with GitHub and see the teams they're a member of. Admins manage settings and members,
+        managers see everyone's stats, and engineers see everyone's stats unless engineer-only mode is on.
+      </p>
+
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <div>
+          <Label htmlFor="engineer-only-mode">Engineer-only mode</Label>
+          <p className="text-sm text-muted-foreground">
+            Engineers see the team totals and their own stats, but not anyone else's.
+          </p>
+        </div>
+        <Switch
+          id="engineer-only-mode"
+          checked={team.engineerOnlyMode}
+          disabled={setEngineerOnlyMode.isPending}
+          onCheckedChange={checked => setEngineerOnlyMode.mutate(checked)}
+        />
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Member</TableHead>
+            <TableHead className="w-40">Role</TableHead>
+            <TableHead className="w-12" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {members.map(member => {
+            // Admins can't demote or remove themselves, so a team always keeps an admin
+            const isSelf = member.githubUserId === githubUserId;
+            return (
+              <TableRow key={member.id}>
+                <TableCell className="font-medium">{member.githubLogin}</TableCell>
+                <TableCell>
+                  <Select
+                    value={member.role}
+                    disabled={isSelf || updateRole.isPending}
+                    onValueChange={value => updateRole.mutate({ id: member.id, role: value as TeamRole })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROLES.map(option => (
+                        <SelectItem key={option} value={option}>{TEAM_ROLE_LABELS[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Remove ${member.githubLogin}`}
+                    disabled={isSelf || removeMember.isPending}
+                    onClick={() => removeMember.mutate(member.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+          {!isLoading && members.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={3} className="text-center text-muted-foreground">No members yet.</TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+
+      <form
+        onSubmit={event => {
+          event.preventDefault();
+          addMember.mutate();
+        }}
+        className="flex flex-col md:flex-row gap-2 mt-6"
+      >
+        <Input
+          placeholder="GitHub login"
+          value={login}
+          onChange={event => setLogin(event.target.value)}
+        />
+        <Select value={role} onValueChange={value => setRole(value as TeamRole)}>
+          <SelectTrigger className="md:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ROLES.map(option => (
+              <SelectItem key={option} value={option}>{TEAM_ROLE_LABELS[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="submit" disabled={!login.trim() || addMember.isPending}>
+          {addMember.isPending ? "Adding..." : "Add member"}
+        </Button>
+      </form>
+    </Card>
+  );
+};
@@ -0,0 +1,149 @@
+import { useMemo } from "react";
+import { keepPreviousData, useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import {
+  fetchContributorByLogin,
+  fetchContributorTimeline,
+  fetchLeaderboard,
+  fetchMonthRepositories,
+  fetchMonthSummaries,
+  fetchRangeStats,
+  fetchRepoActivity,
+  fetchRepoContributors,
+  fetchRepos,
+  fetchTeams,
+  fetchTeamTrends,
+  LEADERBOARD_PAGE_SIZE,
+  MONTHS_PAGE_SIZE,
+  type RepoRecord,
+} from "@/lib/stats-api";
+
+// Stats only change when the webhook or a sync rebuilds a month, so cached pages are reused
+// for a while rather than refetched on every visit
+const STATS_STALE_TIME = 5 * 60 * 1000;
+
+export function useTeams() {
+  return useQuery({
+    queryKey: ["teams"],
+    queryFn: fetchTeams,
+    staleTime: STATS_STALE_TIME,
+  });
+}
+
+// A team's months newest first, a page at a time
+export function useMonthSummaries(teamId?: string) {
+  const query = useInfiniteQuery({
+    queryKey: ["month-summaries", teamId],
+    enabled: !!teamId,
+    staleTime: STATS_STALE_TIME,
+    initialPageParam: undefined as string | undefined,
+    queryFn: ({ pageParam }) => fetchMonthSummaries(teamId!, pageParam),
+    getNextPageParam: lastPage =>
+      lastPage.length === MONTHS_PAGE_SIZE ? lastPage[lastPage.length - 1].month : undefined,
+  });
+  const months = useMemo(() => query.data?.pages.flat() ?? [], [query.data]);
+  return { ...query, months };
+}
+
+// A month's leaderboard in rank order, a page at a time
+export function useLeaderboard(teamId?: string, month?: string) {
+  const query = useInfiniteQuery({
+    queryKey: ["leaderboard", teamId, month],
+    enabled: !!teamId && !!month,
+    staleTime: STATS_STALE_TIME,
+    placeholderData: keepPreviousData,
+    initialPageParam: 0,
+    queryFn: ({ pageParam }) => fetchLeaderboard(teamId!, month!, pageParam),
+    getNextPageParam: (lastPage, pages) =>
+      lastPage.length === LEADERBOARD_PAGE_SIZE ? pages.length * LEADERBOARD_PAGE_SIZE : undefined,
+  });
+  const entries = useMemo(() => query.data?.pages.flat() ?? [], [query.data]);
+  return { ...query, entries };
+}
+
+// A month's repositories with their totals, busiest first
+export function useMonthRepositories(teamId?: string, month?: string) {
+  return useQuery({
+    queryKey: ["month-repositories", teamId, month],
+    enabled: !!teamId && !!month,
+    staleTime: STATS_STALE_TIME,
+    queryFn: () => fetchMonthRepositories(teamId!, month!),
+  });
+}
+
+// Who worked in a repository that month, with their commits and pull requests there
+export function useRepoContributors(teamId?: string, githubRepoId?: string, month?: string) {
+  return useQuery({
+    queryKey: ["repo-contributors", teamId, githubRepoId, month],
+    enabled: !!teamId && !!githubRepoId && !!month,
+    staleTime: STATS_STALE_TIME,
+    queryFn: () => fetchRepoContributors(teamId!, githubRepoId!, month!),
+  });
+}
+
+// Takes the Repo row id, not the GitHub one
+export function useRepoActivity(repoId?: string, month?: string) {
+  return useQuery({
+    queryKey: ["repo-activity", repoId, month],
+    enabled: !!repoId && !!month,
+    staleTime: STATS_STALE_TIME,
+    queryFn: () => fetchRepoActivity(repoId!, month!),
+  });
+}
+
+// Every month of the team oldest first, with totals and per-repository stats
+export function useTeamTrends(teamId?: string) {
+  return useQuery({
+    queryKey: ["team-trends", teamId],
+    enabled: !!teamId,
+    staleTime: STATS_STALE_TIME,
+    queryFn: () => fetchTeamTrends(teamId!),
+  });
+}
+
+export function useContributor(login?: string) {
+  return useQuery({
+    queryKey: ["contributor", login?.toLowerCase()],
+    enabled: !!login,
+    staleTime: STATS_STALE_TIME,
+    queryFn: () => fetchContributorByLogin(login!),
+  });
+}
+
+// Every month of the team the contributor appears in, newest first
+export function useContributorTimeline(teamId?: string, githubUserId?: string) {
+  return useQuery({
+    queryKey: ["contributor-timeline", teamId, githubUserId],
+    enabled: !!teamId && !!githubUserId,
+    staleTime: STATS_STALE_TIME,
+    queryFn: () => fetchContributorTimeline(teamId!, githubUserId!),
+  });
+}
+
+// The team's repositories keyed by githubRepoId, so renamed repos show their latest name
+export function useRepos(teamId?: string) {
+  const query = useQuery({
+    queryKey: ["repos", teamId],
+    enabled: !!teamId,
+    staleTime: STATS_STALE_TIME,
+    queryFn: () => fetchRepos(teamId!),
+  });
+  const reposById = useMemo(
+    () => (query.data ?? []).reduce((acc, repo) => {
+      acc[repo.githubRepoId] = repo;
+      return acc;
+    }, {} as Record<string, RepoRecord>),
+    [query.data]
+  );
+  return { ...query, reposById };
+}
+
+// Stats for a range of days (yyyy-MM-dd, both included)
+export function useRangeStats(teamId?: string, from?: string, to?: string) {
+  return useQuery({
+    queryKey: ["range-stats", teamId, from, to],
+    enabled: !!teamId && !!from && !!to,
+    staleTime: STATS_STALE_TIME,
+    retry: false,
+    queryFn: () => fetchRangeStats(teamId!, from!, to!),
+  });
+}
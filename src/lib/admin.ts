@@ -0,0 +1,74 @@
+import { supabase } from "@/lib/supabase";
+
+export class AdminRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'AdminRequestError';
+  }
+}
+
+// Call an admin endpoint and return its `data`. The Pages Functions check the signed-in
+// user's admin role from their session token.
+export async function adminFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...init.headers,
+      'Authorization': `Bearer ${session?.access_token || ''}`,
+    },
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new AdminRequestError(body.message || `Request failed with ${response.status}`, response.status);
+  }
+  return body.data as T;
+}
+
+export interface AdminContributor {
+  id: string;
+  name: string;
+  githubUserId: string;
+  githubLogin: string;
+  avatarUrl: string | null;
+  cursorEmail: string | null;
+  teamId: string;
+  excludeFromLeaderboard: boolean;
+  deactivatedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ContributorField = 'name' | 'cursorEmail' | 'teamId' | 'excludeFromLeaderboard' | 'deactivatedAt';
+
+export type ContributorChanges = Partial<Record<ContributorField, {
+  from: string | boolean | null;
+  to: string | boolean | null;
+}>>;
+
+export interface ContributorAuditEntry {
+  id: string;
+  changes: ContributorChanges;
+  // Who made the change; null for changes made before it was recorded
+  actorGithubUserId: string | null;
+  actorLogin: string | null;
+  createdAt: string;
+}
+
+export interface ContributorUpdate {
+  id: string;
+  name?: string;
+  cursorEmail?: string | null;
+  teamId?: string;
+  excludeFromLeaderboard?: boolean;
+  deactivated?: boolean;
+}
+
+export const CONTRIBUTOR_FIELD_LABELS: Record<ContributorField, string> = {
+  name: 'Name',
+  cursorEmail: 'Cursor email',
+  teamId: 'Team',
+  excludeFromLeaderboard: 'Excluded from leaderboard',
+  deactivatedAt: 'Deactivated',
+};
@@ -0,0 +1,48 @@
+import { createContext, useContext } from "react";
+import type { Session } from "@supabase/supabase-js";
+
+export type TeamRole = 'ADMIN' | 'MANAGER' | 'ENGINEER';
+
+export interface TeamMembership {
+  id: string;
+  teamId: string;
+  githubUserId: string;
+  githubLogin: string;
+  role: TeamRole;
+}
+
+export const TEAM_ROLE_LABELS: Record<TeamRole, string> = {
+  ADMIN: 'Admin',
+  MANAGER: 'Manager',
+  ENGINEER: 'Engineer',
+};
+
+export interface AuthState {
+  session: Session | null;
+  // GitHub user id and login of the signed-in user, from their GitHub identity
+  githubUserId: string | null;
+  githubLogin: string | null;
+  memberships: TeamMembership[];
+  isLoading: boolean;
+  signIn: () => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthState | null>(null);
+
+export function useAuth() {
+  const auth = useContext(AuthContext);
+  if (!auth) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return auth;
+}
+
+export function getTeamRole(memberships: TeamMembership[], teamId?: string) {
+  return memberships.find(membership => membership.teamId === teamId)?.role || null;
+}
+
+// Engineers only see everyone's stats when the team has engineer-only mode turned off
+export function canSeeTeamDetails(role: TeamRole | null, engineerOnlyMode: boolean) {
+  return role === 'ADMIN' || role === 'MANAGER' || (role === 'ENGINEER' && !engineerOnlyMode);
+}
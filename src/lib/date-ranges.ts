@@ -0,0 +1,115 @@
+import {
+  addDays,
+  addQuarters,
+  differenceInCalendarDays,
+  endOfISOWeek,
+  endOfQuarter,
+  format,
+  isSameDay,
+  isValid,
+  parse,
+  startOfISOWeek,
+  startOfQuarter,
+} from "date-fns";
+
+// Stats for ranges other than calendar months. Ranges are whole days with both ends
+// included, and show up in URLs as /range/2025-02-03/2025-02-16.
+
+export type RangePeriod = 'week' | 'sprint' | 'quarter' | 'custom';
+
+export interface StatsRange {
+  from: Date;
+  to: Date;
+}
+
+export const RANGE_PERIOD_LABELS: Record<RangePeriod, string> = {
+  week: 'Week',
+  sprint: 'Sprint',
+  quarter: 'Quarter',
+  custom: 'Custom',
+};
+
+export const SPRINT_LENGTH_DAYS = 14;
+
+// Where sprints are counted from for teams that haven't set Team.sprintStartDate
+const DEFAULT_SPRINT_START = new Date(2024, 0, 1);
+
+// Ranges are built from the stored rows on each request, so the API caps them at a year
+export const MAX_RANGE_DAYS = 366;
+
+const DAY_FORMAT = 'yyyy-MM-dd';
+
+export function formatDay(date: Date) {
+  return format(date, DAY_FORMAT);
+}
+
+export function parseDay(value?: string | null) {
+  if (!value) return null;
+  const date = parse(value, DAY_FORMAT, new Date());
+  return isValid(date) ? date : null;
+}
+
+// Team.sprintStartDate comes back as yyyy-MM-dd
+export function getSprintStart(sprintStartDate?: string | null) {
+  return parseDay(sprintStartDate) || DEFAULT_SPRINT_START;
+}
+
+// The week, sprint or quarter containing `date`
+export function getPeriodRange(period: Exclude<RangePeriod, 'custom'>, date: Date, sprintStart: Date): StatsRange {
+  switch (period) {
+    case 'week':
+      return { from: startOfISOWeek(date), to: endOfISOWeek(date) };
+    case 'sprint': {
+      const sprintIndex = Math.floor(differenceInCalendarDays(date, sprintStart) / SPRINT_LENGTH_DAYS);
+      const from = addDays(sprintStart, sprintIndex * SPRINT_LENGTH_DAYS);
+      return { from, to: addDays(from, SPRINT_LENGTH_DAYS - 1) };
+    }
+    case 'quarter':
+      return { from: startOfQuarter(date), to: endOfQuarter(date) };
+  }
+}
+
+export function getRangeLength(range: StatsRange) {
+  return differenceInCalendarDays(range.to, range.from) + 1;
+}
+
+// Which period a range lines up with, so shared links step the same way they were made
+export function getRangePeriod(range: StatsRange, sprintStart: Date): RangePeriod {
+  for (const period of ['week', 'sprint', 'quarter'] as const) {
+    const candidate = getPeriodRange(period, range.from, sprintStart);
+    if (isSameDay(candidate.from, range.from) && isSameDay(candidate.to, range.to)) {
+      return period;
+    }
+  }
+  return 'custom';
+}
+
+// The range before (-1) or after (1) this one: the previous or next period, or for custom
+// ranges the same number of days right before or after
+export function shiftRange(range: StatsRange, direction: 1 | -1, sprintStart: Date): StatsRange {
+  const period = getRangePeriod(range, sprintStart);
+  if (period === 'quarter') {
+    return getPeriodRange('quarter', addQuarters(range.from, direction), sprintStart);
+  }
+  const days = getRangeLength(range) * direction;
+  return { from: addDays(range.from, days), to: addDays(range.to, days) };
+}
+
+export function formatRange(range: StatsRange) {
+  if (range.from.getFullYear() !== range.to.getFullYear()) {
+    return `${format(range.from, 'MMM d, yyyy')} – ${format(range.to, 'MMM d, yyyy')}`;
+  }
+  return `${format(range.from, 'MMM d')} – ${format(range.to, 'MMM d, yyyy')}`;
+}
+
+export function getRangePath(range: StatsRange) {
+  return `/range/${formatDay(range.from)}/${formatDay(range.to)}`;
+}
+
+// The range in /range/:from/:to, or null when the days aren't valid
+export function parseRangeParams(from?: string, to?: string): StatsRange | null {
+  const start = parseDay(from);
+  const end = parseDay(to);
+  if (!start || !end || end < start) return null;
+  return { from: start, to: end };
+}
@@ -0,0 +1,76 @@
+import {
+  calculateContributorScores,
+  NORMALIZATION_STRATEGIES,
+  SCORE_WEIGHTS,
+  type NormalizationStrategy,
+  type ScoreBreakdown,
+  type ScoreComponent,
+  type ScoreInput,
+  type ScoreMetric,
+  type ScoreWeights,
+} from "../../scripts/utils/calculate-scores";
+
+// Scores are calculated by the same module the sync script and the webhook use
+export { calculateContributorScores, NORMALIZATION_STRATEGIES, SCORE_WEIGHTS };
+export type { NormalizationStrategy, ScoreBreakdown, ScoreComponent, ScoreInput, ScoreMetric, ScoreWeights };
+
+export const SCORE_WEIGHT_LABELS: Record<ScoreMetric, string> = {
+  loc: 'Lines of code',
+  mergedPRs: 'Merged pull requests',
+  commits: 'Commits',
+  reviews: 'Reviews given',
+  reviewComments: 'Review comments written',
+  tabs: 'Tabs',
+  premiumRequests: 'Premium requests',
+};
+
+export const SCORE_WEIGHT_KEYS = Object.keys(SCORE_WEIGHT_LABELS) as ScoreMetric[];
+
+export const NORMALIZATION_LABELS: Record<NormalizationStrategy, string> = {
+  MAX: 'Share of max',
+  PERCENTILE: 'Percentile rank',
+  LOG: 'Log-scaled',
+  ZSCORE: 'Z-score (capped)',
+};
+
+// The profile recorded in Month.stats
+export interface MonthScoringProfile {
+  id: string;
+  name: string;
+  version: number;
+  normalization?: NormalizationStrategy;
+}
+
+export interface ScoringProfile extends MonthScoringProfile {
+  weights: ScoreWeights;
+  normalization: NormalizationStrategy;
+  isActive: boolean;
+  createdAt: string;
+}
+
+// Months scored before profiles existed, or for teams without one, used the default weights
+export function formatScoringProfile(profile?: MonthScoringProfile | null) {
+  return profile ? `${profile.name} v${profile.version}` : 'Default weights';
+}
+
+export interface RankedScore {
+  score: number;
+  rank: number;
+}
+
+// Scores and ranks by githubUserId, ordered like the dashboard: highest score first, then by login
+export function rankContributors(
+  contributors: ScoreInput[],
+  weights: ScoreWeights,
+  normalization: NormalizationStrategy
+): Record<string, RankedScore> {
+  const scores = calculateContributorScores(contributors, weights, normalization);
+  const ranked = [...contributors].sort((a, b) =>
+    (scores[b.githubUserId]?.score || 0) - (scores[a.githubUserId]?.score || 0) ||
+    (a.login || '').localeCompare(b.login || '')
+  );
+  return Object.fromEntries(ranked.map((contributor, index) => [
+    contributor.githubUserId,
+    { score: scores[contributor.githubUserId]?.score || 0, rank: index + 1 },
+  ]));
+}
@@ -0,0 +1,294 @@
+import { addMonths, parse } from "date-fns";
+import { supabase } from "@/lib/supabase";
+import type { MonthScoringProfile, ScoreBreakdown } from "@/lib/scoring";
+import type { Team } from "@/lib/teams";
+
+// Typed wrappers around the read API, the Postgres functions added from the add_stats_read_api
+// migration on. They run as the signed-in user, so they only return what their role allows.
+// Months are named as yyyy-MM.
+
+export const MONTHS_PAGE_SIZE = 24;
+export const LEADERBOARD_PAGE_SIZE = 24;
+export const RECENT_ACTIVITY_LIMIT = 20;
+
+export interface MonthOverall {
+  totalPrs: number;
+  mergedPrs: number;
+  linesAdded: number;
+  linesRemoved: number;
+  totalCommits: number;
+  averageContributionScore: number;
+}
+
+// A contributor's entry in Month.stats
+export interface ContributorMonthStats {
+  login?: string;
+  githubUserId?: string;
+  totalCommits: number;
+  totalPrs: number;
+  mergedPrs: number;
+  activeRepositories: string[];
+  linesAdded: number;
+  linesRemoved: number;
+  contributionScore: number;
+  scoreBreakdown?: ScoreBreakdown | null;
+  reviewsGiven?: number;
+  approvals?: number;
+  changesRequested?: number;
+  reviewCommentsWritten?: number;
+  issuesOpened?: number;
+  issuesClosed?: number;
+  tabs?: number;
+  premiumRequests?: number;
+}
+
+export interface MonthSummary {
+  id: string;
+  month: string;
+  overall: MonthOverall;
+  scoringProfile: MonthScoringProfile | null;
+  contributorCount: number;
+  updatedAt: string;
+}
+
+export interface LeaderboardEntry {
+  githubUserId: string;
+  login: string;
+  name: string | null;
+  avatarUrl: string | null;
+  lastActive: string | null;
+  stats: ContributorMonthStats;
+  rank: number;
+  // Entries on the whole leaderboard, as far as the signed-in user may see it
+  totalCount: number;
+  // Null when the contributor wasn't ranked the calendar month before
+  previousRank: number | null;
+  // Scores in the team's months up to six months back, oldest first, with null for months
+  // the contributor wasn't active in
+  recentScores: (number | null)[] | null;
+}
+
+export interface TimelineEntry {
+  month: string;
+  stats: ContributorMonthStats;
+  // Null for months the contributor was left off the leaderboard
+  rank: number | null;
+  totalCount: number | null;
+  scoringProfile: MonthScoringProfile | null;
+  repositories: Record<string, { name: string }> | null;
+}
+
+export interface ContributorProfile {
+  id: string;
+  name: string;
+  githubUserId: string;
+  githubLogin: string;
+  avatarUrl: string | null;
+  updatedAt: string;
+}
+
+export interface RepoRecord {
+  id: string;
+  name: string;
+  githubRepoId: string;
+  archived: boolean;
+  deletedAt?: string;
+  previousNames: string[];
+}
+
+// A repository's entry in Month.stats
+export interface RepoMonthStats {
+  name: string;
+  commits: number;
+  totalPrs: number;
+  mergedPrs: number;
+  linesAdded: number;
+  linesRemoved: number;
+  activeContributors: number;
+}
+
+export interface MonthRepository {
+  githubRepoId: string;
+  stats: RepoMonthStats;
+}
+
+// A contributor's commits and pull requests in one repository for a month
+export interface RepoContributor {
+  githubUserId: string;
+  login: string;
+  avatarUrl: string | null;
+  commits: number;
+  totalPrs: number;
+  mergedPrs: number;
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+export interface RepoCommit {
+  id: string;
+  message: string;
+  linesAdded: number;
+  linesDeleted: number;
+  committedAt: string;
+  url: string | null;
+  author: { githubLogin: string } | null;
+}
+
+export interface RepoPullRequest {
+  id: string;
+  title: string;
+  status: 'OPEN' | 'CLOSED' | 'MERGED';
+  openedAt: string | null;
+  mergedAt: string | null;
+  url: string | null;
+  linesAdded: number;
+  linesDeleted: number;
+  author: { githubLogin: string } | null;
+}
+
+export interface TrendMonth {
+  month: string;
+  overall: MonthOverall;
+  repositories: Record<string, RepoMonthStats>;
+}
+
+// Stats for a range of days from /range-stats, which builds them from the stored rows
+export interface RangeStats {
+  from: string;
+  to: string;
+  overall: MonthOverall;
+  scoringProfile: MonthScoringProfile | null;
+  totalCount: number;
+  contributors: {
+    githubUserId: string;
+    login: string;
+    lastActive: string | null;
+    stats: ContributorMonthStats;
+    rank: number;
+  }[];
+}
+
+export async function fetchTeams() {
+  const { data, error } = await supabase
+    .from('Team')
+    .select('id, name, githubOrgName, engineerOnlyMode, sprintStartDate')
+    .order('name')
+    .returns<Team[]>();
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchMonthSummaries(teamId: string, beforeMonth?: string) {
+  const { data, error } = await supabase
+    .rpc('month_summaries', { team_id: teamId, before_month: beforeMonth ?? null, page_size: MONTHS_PAGE_SIZE })
+    .returns<MonthSummary[]>();
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchLeaderboard(teamId: string, month: string, pageOffset = 0) {
+  const { data, error } = await supabase
+    .rpc('leaderboard', { team_id: teamId, month, page_offset: pageOffset, page_size: LEADERBOARD_PAGE_SIZE })
+    .returns<LeaderboardEntry[]>();
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchMonthRepositories(teamId: string, month: string) {
+  const { data, error } = await supabase
+    .rpc('month_repositories', { team_id: teamId, month })
+    .returns<MonthRepository[]>();
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchRepoContributors(teamId: string, githubRepoId: string, month: string) {
+  const { data, error } = await supabase
+    .rpc('repository_contributors', { team_id: teamId, github_repo_id: githubRepoId, month })
+    .returns<RepoContributor[]>();
+  if (error) throw error;
+  return data || [];
+}
+
+// The latest commits and pull requests opened or merged in a repository that month. Row-level
+// security leaves out other contributors' activity for engineers in engineer-only mode.
+export async function fetchRepoActivity(repoId: string, month: string) {
+  const start = parse(month, 'yyyy-MM', new Date());
+  const from = start.toISOString();
+  const to = addMonths(start, 1).toISOString();
+
+  const [{ data: commits, error: commitError }, { data: pullRequests, error: prError }] = await Promise.all([
+    supabase
+      .from('Commit')
+      .select('id, message, linesAdded, linesDeleted, committedAt, url, author:Contributor(githubLogin)')
+      .eq('repoId', repoId)
+      .gte('committedAt', from)
+      .lt('committedAt', to)
+      .order('committedAt', { ascending: false })
+      .limit(RECENT_ACTIVITY_LIMIT)
+      .returns<RepoCommit[]>(),
+    supabase
+      .from('PullRequest')
+      .select('id, title, status, openedAt, mergedAt, url, linesAdded, linesDeleted, author:Contributor(githubLogin)')
+      .eq('repoId', repoId)
+      .or(`and(openedAt.gte.${from},openedAt.lt.${to}),and(mergedAt.gte.${from},mergedAt.lt.${to})`)
+      .order('openedAt', { ascending: false })
+      .limit(RECENT_ACTIVITY_LIMIT)
+      .returns<RepoPullRequest[]>(),
+  ]);
+  if (commitError) throw commitError;
+  if (prError) throw prError;
+  return { commits: commits || [], pullRequests: pullRequests || [] };
+}
+
+export async function fetchTeamTrends(teamId: string) {
+  const { data, error } = await supabase
+    .rpc('team_trends', { team_id: teamId })
+    .returns<TrendMonth[]>();
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchContributorTimeline(teamId: string, githubUserId: string) {
+  const { data, error } = await supabase
+    .rpc('contributor_timeline', { team_id: teamId, github_user_id: githubUserId })
+    .returns<TimelineEntry[]>();
+  if (error) throw error;
+  return data || [];
+}
+
+// Logins are matched ignoring case, like GitHub does
+export async function fetchContributorByLogin(login: string) {
+  const { data, error } = await supabase
+    .from('Contributor')
+    .select('id, name, githubUserId, githubLogin, avatarUrl, updatedAt')
+    .ilike('githubLogin', login.replace(/[\\%_]/g, '\\$&'))
+    .returns<ContributorProfile[]>()
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchRepos(teamId: string) {
+  const { data, error } = await supabase
+    .from('Repo')
+    .select('id, name, githubRepoId, archived, deletedAt, previousNames')
+    .eq('teamId', teamId)
+    .returns<RepoRecord[]>();
+  if (error) throw error;
+  return data || [];
+}
+
+// The Pages Function checks the signed-in user's role from their session token
+export async function fetchRangeStats(teamId: string, from: string, to: string) {
+  const { data: { session } } = await supabase.auth.getSession();
+  const params = new URLSearchParams({ teamId, from, to });
+  const response = await fetch(`/range-stats?${params}`, {
+    headers: { 'Authorization': `Bearer ${session?.access_token || ''}` },
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.message || `Request failed with ${response.status}`);
+  }
+  return body.data as RangeStats;
+}
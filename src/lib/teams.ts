@@ -0,0 +1,18 @@
+export interface Team {
+  id: string;
+  name: string;
+  githubOrgName: string | null;
+  // Engineers see their own stats and the team totals, but not everyone else's
+  engineerOnlyMode: boolean;
+  // yyyy-MM-dd of any day a sprint started on, see getSprintStart
+  sprintStartDate: string | null;
+}
+
+// URL segment for a team: its GitHub org name, falling back to the id for teams without one
+export function getTeamSlug(team: Team) {
+  return (team.githubOrgName || team.id).toLowerCase();
+}
+
+export function findTeamBySlug(teams: Team[], slug?: string) {
+  return teams.find(team => getTeamSlug(team) === slug?.toLowerCase());
+}
@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { ChevronLeft, History, Pencil } from "lucide-react";
+import { useTeams } from "@/hooks/use-stats";
+import {
+  adminFetch,
+  type AdminContributor,
+  type ContributorUpdate,
+} from "@/lib/admin";
+import { useAuth } from "@/lib/auth";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { ContributorEditDialog } from "@/components/admin/ContributorEditDialog";
+import { ContributorAuditLogDialog } from "@/components/admin/ContributorAuditLogDialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const Contributors = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { memberships } = useAuth();
+  // Admins manage the contributors first seen in their teams
+  const adminTeamIds = memberships.filter(membership => membership.role === 'ADMIN').map(membership => membership.teamId);
+  const isAdmin = adminTeamIds.length > 0;
+  const [search, setSearch] = useState('');
+  const [showDeactivated, setShowDeactivated] = useState(false);
+  const [editing, setEditing] = useState<AdminContributor | null>(null);
+  const [viewingHistory, setViewingHistory] = useState<AdminContributor | null>(null);
+  const [deactivating, setDeactivating] = useState<AdminContributor | null>(null);
+
+  const { data: teams = [] } = useTeams();
+
+  const { data: contributors = [], isLoading, error } = useQuery({
+    queryKey: ["admin-contributors"],
+    enabled: isAdmin,
+    retry: false,
+    queryFn: () => adminFetch<{ contributors: AdminContributor[] }>('/contributor-admin')
+      .then(data => data.contributors),
+  });
+
+  const updateContributor = useMutation({
+    mutationFn: (update: ContributorUpdate) => adminFetch<{ contributor: AdminContributor }>('/contributor-admin', {
+      method: 'PATCH',
+      body: JSON.stringify(update),
+    }),
+    onSuccess: ({ contributor }) => {
+      toast.success(`Saved ${contributor.githubLogin}`);
+      setEditing(null);
+      setDeactivating(null);
+      queryClient.invalidateQueries({ queryKey: ["admin-contributors"] });
+      queryClient.invalidateQueries({ queryKey: ["contributor-audit-log", contributor.id] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update contributor");
+    }
+  });
+
+  const query = search.trim().toLowerCase();
+  const visible = contributors.filter(contributor =>
+    (showDeactivated || !contributor.deactivatedAt) &&
+    (!query || [contributor.githubLogin, contributor.name, contributor.cursorEmail]
+      .some(value => value?.toLowerCase().includes(query)))
+  );
+  const teamName = (teamId: string) => teams.find(team => team.id === teamId)?.name || teamId;
+
+  return (
+    <div className="min-h-screen p-6 md:p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center mb-8">
+          <Button
+            variant="ghost"
+            onClick={() => navigate(-1)}
+            size="icon"
+            className="mr-1 hover:bg-white/10 cursor-pointer focus:ring-2 focus:ring-white/20"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <div className="ml-2">
+            <h1 className="text-3xl font-bold text-gradient">Contributors</h1>
+            <p className="text-muted-foreground text-sm">Profiles, Cursor emails, teams and leaderboard visibility</p>
+          </div>
+        </div>
+
+        {!isAdmin ? (
+          <p className="text-muted-foreground">Only team admins can manage contributors.</p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner />
+          </div>
+        ) : error ? (
+          <p className="text-muted-foreground">{error.message || "Couldn't load the contributors."}</p>
+        ) : (
+          <Card className="p-6 neo-blur">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+              <Input
+                placeholder="Search by login, name or email"
+                value={search}
+                onChange={event => setSearch(event.target.value)}
+                className="md:w-80"
+              />
+              <div className="flex items-center gap-2">
+                <Switch id="show-deactivated" checked={showDeactivated} onCheckedChange={setShowDeactivated} />
+                <Label htmlFor="show-deactivated">Show deactivated</Label>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Contributor</TableHead>
+                  <TableHead>Cursor email</TableHead>
+                  <TableHead>Team</TableHead>
+                  <TableHead>On leaderboard</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-48" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map(contributor => (
+                  <TableRow key={contributor.id} className={contributor.deactivatedAt ? "opacity-60" : undefined}>
+                    <TableCell>
+                      <div className="flex items-center gap-3">
+                        <Avatar className="h-8 w-8">
+                          <AvatarImage src={contributor.avatarUrl || `https://avatars.githubusercontent.com/u/${contributor.githubUserId}`} />
+                          <AvatarFallback>{contributor.githubLogin.slice(0, 2).toUpperCase()}</AvatarFallback>
+                        </Avatar>
+                        <div>
+                          <div className="font-medium">{contributor.name}</div>
+                          <div className="text-xs text-muted-foreground">{contributor.githubLogin}</div>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {contributor.cursorEmail || <span className="text-muted-foreground">—</span>}
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">{teamName(contributor.teamId)}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={!contributor.excludeFromLeaderboard}
+                        disabled={updateContributor.isPending}
+                        aria-label={`Show ${contributor.githubLogin} on the leaderboard`}
+                        onCheckedChange={checked => updateContributor.mutate({
+                          id: contributor.id,
+                          excludeFromLeaderboard: !checked,
+                        })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {contributor.deactivatedAt ? (
+                        <Badge variant="outline" className="whitespace-nowrap">
+                          Deactivated {format(parseISO(contributor.deactivatedAt), 'MMM d, yyyy')}
+                        </Badge>
+                      ) : (
+                        <Badge variant="secondary" className="neo-blur">Active</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" aria-label="Edit" onClick={() => setEditing(contributor)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" aria-label="History" onClick={() => setViewingHistory(contributor)}>
+                          <History className="h-4 w-4" />
+                        </Button>
+                        {contributor.deactivatedAt ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={updateContributor.isPending}
+                            onClick={() => updateContributor.mutate({ id: contributor.id, deactivated: false })}
+                          >
+                            Reactivate
+                          </Button>
+                        ) : (
+                          <Button variant="ghost" size="sm" onClick={() => setDeactivating(contributor)}>
+                            Deactivate
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {visible.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      {contributors.length === 0 ? 'No contributors yet.' : 'No contributors match.'}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+      </div>
+
+      <ContributorEditDialog
+        contributor={editing}
+        teams={teams.filter(team => adminTeamIds.includes(team.id))}
+        isSaving={updateContributor.isPending}
+        onSave={update => updateContributor.mutate(update)}
+        onOpenChange={open => !open && setEditing(null)}
+      />
+
+      <ContributorAuditLogDialog
+        contributor={viewingHistory}
+        teams={teams}
+        onOpenChange={open => !open && setViewingHistory(null)}
+      />
+
+      <Dialog open={!!deactivating} onOpenChange={open => !open && setDeactivating(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Deactivate {deactivating?.githubLogin}?</DialogTitle>
+            <DialogDescription>
+              For people who have left. Their history stays on the months they were active, and they're left
+              off the dashboard from next month on. You can reactivate them later.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setDeactivating(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              disabled={updateContributor.isPending}
+              onClick={() => deactivating && updateContributor.mutate({ id: deactivating.id, deactivated: true })}
+            >
+              Deactivate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Contributors;
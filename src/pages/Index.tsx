@@ -1,75 +1,35 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
 import { ContributorCard } from "@/components/ContributorCard";
 import { ContributorDetail } from "@/components/ContributorDetail";
-import { format, subMonths, startOfMonth, isFuture, parse } from "date-fns";
+import { format, isValid, parse, subMonths } from "date-fns";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { AnimatePresence, motion } from "framer-motion";
 import { Header } from "@/components/dashboard/Header";
 import { MonthSelector } from "@/components/dashboard/MonthSelector";
 import { OverallStats } from "@/components/dashboard/OverallStats";
+import { RepositoriesTable } from "@/components/dashboard/RepositoriesTable";
 import { useNavigate, useParams } from "react-router-dom";
 import { LoadingSpinner } from "@/components/LoadingSpinner";
-import { supabase } from "@/lib/supabase";
-import { Badge } from "@/components/ui/badge";
-
-interface Contributor {
-  login?: string;
-  githubUserId?: string;
-  totalCommits: number;
-  totalPrs: number;
-  mergedPrs: number;
-  activeRepositories: string[];
-  linesAdded: number;
-  linesRemoved: number;
-  contributionScore: number;
-  rank?: number;
-}
-
-interface ContributorLastActive {
-  githubUserId: string;
-  updatedAt: string;
-}
-
-interface Month {
-  id: string;
-  date: string;
-  teamId: string;
-  createdAt: string;
-  stats: {
-    overall: {
-      totalPrs: number;
-      mergedPrs: number;
-      linesAdded: number;
-      linesRemoved: number;
-      totalCommits: number;
-      averageContributionScore: number;
-    };
-    contributors: Record<string, Contributor>;
-    object_keys: string[];
-  };
-}
-
-interface ContributorData {
-  id: string;
-  name: string;
-  githubUserId: string;
-  githubLogin: string;
-  avatarUrl?: string;
-  cursorEmail?: string;
-  teamId: string;
-  createdAt: string;
-  updatedAt: string;
-}
+import { findTeamBySlug, getTeamSlug, type Team } from "@/lib/teams";
+import { getRangePath, getSprintStart } from "@/lib/date-ranges";
+import { formatScoringProfile } from "@/lib/scoring";
+import { canSeeTeamDetails, getTeamRole, useAuth } from "@/lib/auth";
+import { useLeaderboard, useMonthRepositories, useMonthSummaries, useRepos, useTeams } from "@/hooks/use-stats";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
 
 const Index = () => {
   const navigate = useNavigate();
-  const { contributorId, month } = useParams();
+  const { team: teamParam, contributorId, month: monthParam } = useParams();
+  // Single-segment URLs from before teams existed (/january-2025) name a month, not a team
+  const isLegacyMonthPath = !!teamParam && !monthParam && isValid(parse(teamParam, 'MMMM-yyyy', new Date()));
+  const teamSlug = isLegacyMonthPath ? undefined : teamParam;
+  const month = isLegacyMonthPath ? teamParam : monthParam;
   const isMobile = useIsMobile();
+  const { githubLogin, memberships, signOut } = useAuth();
   const [isLoading, setIsLoading] = useState(true);
   const [showContent, setShowContent] = useState(false);
-  const [monthsData, setMonthsData] = useState<Month[]>([]);
-  const [currentMonthData, setCurrentMonthData] = useState<Month | null>(null);
-  const [availableMonths, setAvailableMonths] = useState<Date[]>([]);
+  const [mountedAt] = useState(Date.now);
   const [dashboardMonth, setDashboardMonth] = useState(() => {
     if (!contributorId && month) {
       try {
@@ -92,153 +52,134 @@ const Index = () => {
     return new Date();
   });
 
-  // Track all known contributor IDs from Month stats
-  const [knownContributorIds, setKnownContributorIds] = useState<Set<string>>(new Set());
-  // Store full contributor records from database
-  const [contributorRecords, setContributorRecords] = useState<Record<string, ContributorData>>({});
+  const { data: teams = [], isLoading: isTeamsLoading, error: teamsError } = useTeams();
+  // Unknown or missing team slugs fall back to the first team
+  const selectedTeam = useMemo(
+    () => findTeamBySlug(teams, teamSlug) || teams[0] || null,
+    [teams, teamSlug]
+  );
+  const teamRole = getTeamRole(memberships, selectedTeam?.id);
+  // In engineer-only mode engineers get the team totals and their own entry, nothing else
+  const isRestricted = !!selectedTeam && !canSeeTeamDetails(teamRole, selectedTeam.engineerOnlyMode);
+  const isOtherContributor = !!contributorId && contributorId.toLowerCase() !== githubLogin?.toLowerCase();
 
   // Get the current active month based on the view
   const currentMonth = contributorId ? contributorMonth : dashboardMonth;
-  const formattedMonth = format(currentMonth, "MMMM yyyy");
+  const currentMonthKey = format(currentMonth, "yyyy-MM");
   const urlFormattedMonth = format(currentMonth, "MMMM-yyyy").toLowerCase();
 
-  // Fetch all months data at once
-  useEffect(() => {
-    const fetchAllData = async () => {
-      // Only show loading on initial data load
-      if (monthsData.length === 0) {
-        setIsLoading(true);
-        setShowContent(false);
-      }
+  const {
+    months,
+    isLoading: isMonthsLoading,
+    error: monthsError,
+    hasNextPage: hasOlderMonths,
+    isFetchingNextPage: isFetchingOlderMonths,
+    fetchNextPage: fetchOlderMonths,
+  } = useMonthSummaries(selectedTeam?.id);
+  const availableMonths = useMemo(() => months.map(m => parse(m.month, 'yyyy-MM', new Date())), [months]);
+  const currentMonthSummary = months.find(m => m.month === currentMonthKey) || null;
+  const previousMonthKey = format(subMonths(currentMonth, 1), "yyyy-MM");
+  const previousMonthSummary = months.find(m => m.month === previousMonthKey) || null;
 
-      try {
-        // Fetch all months
-        const { data, error } = await supabase
-          .from('Month')
-          .select('*')
-          .order('date', { ascending: false });
+  // The leaderboard is only loaded for months that have stats
+  const {
+    entries: leaderboard,
+    hasNextPage: hasMoreContributors,
+    isFetchingNextPage: isFetchingMoreContributors,
+    fetchNextPage: fetchMoreContributors,
+  } = useLeaderboard(selectedTeam?.id, !contributorId && currentMonthSummary ? currentMonthKey : undefined);
+  const { data: monthRepositories = [] } = useMonthRepositories(
+    selectedTeam?.id,
+    !contributorId && currentMonthSummary ? currentMonthKey : undefined
+  );
+  const { reposById } = useRepos(selectedTeam?.id);
 
-        if (error) throw error;
-        if (!data) return;
+  // Dashboard paths are prefixed with the selected team
+  const teamPath = useCallback((path: string, team: Team | null = selectedTeam) =>
+    team ? `/${getTeamSlug(team)}${path}` : path || '/',
+  [selectedTeam]);
 
-        setMonthsData(data);
-        setAvailableMonths(data.map(m => new Date(m.date)));
-        
-        // Get unique contributor IDs from all months
-        const newContributorIds = new Set<string>();
-        data.forEach(month => {
-          Object.entries(month.stats.contributors).forEach(([_, contributor]: [string, Contributor]) => {
-            if (contributor.githubUserId) {
-              newContributorIds.add(contributor.githubUserId);
-            }
-          });
-        });
-        
-        // Fetch ALL contributors at once
-        const { data: contributorData, error: contributorError } = await supabase
-          .from('Contributor')
-          .select('*')
-          .returns<ContributorData[]>();
+  const dashboardPath = useCallback((date: Date, team: Team | null = selectedTeam) =>
+    teamPath(
+      format(date, "yyyy-MM") !== format(new Date(), "yyyy-MM") ? `/${format(date, "MMMM-yyyy").toLowerCase()}` : '',
+      team
+    ),
+  [selectedTeam, teamPath]);
 
-        if (contributorError) throw contributorError;
-        if (contributorData) {
-          // Store all contributor data
-          const contributors = contributorData.reduce((acc, curr) => {
-            acc[curr.githubUserId] = curr;
-            return acc;
-          }, {} as Record<string, ContributorData>);
-          
-          setContributorRecords(contributors);
-          setKnownContributorIds(new Set(contributorData.map(c => c.githubUserId)));
-        }
+  const isDataLoading = isTeamsLoading || (!!selectedTeam && isMonthsLoading);
 
-        // Set initial month data
-        const monthStart = startOfMonth(currentMonth);
-        const initialMonthData = data.find(
-          m => format(new Date(m.date), "yyyy-MM") === format(monthStart, "yyyy-MM")
-        );
-        
-        if (initialMonthData) {
-          setCurrentMonthData(initialMonthData);
-        } else {
-          setCurrentMonthData(null);
-        }
+  useEffect(() => {
+    const error = teamsError || monthsError;
+    if (error) console.error('Error fetching data:', error);
+  }, [teamsError, monthsError]);
 
-        // Only show loading animation on initial load
-        if (monthsData.length === 0) {
-          const loadingEndTime = Math.max(1200 - (Date.now() - startTime), 0);
-          setTimeout(() => {
-            setIsLoading(false);
-            setTimeout(() => {
-              setShowContent(true);
-            }, 300);
-          }, loadingEndTime);
-        }
-      } catch (error) {
-        console.error('Error fetching data:', error);
-        setIsLoading(false);
-        setShowContent(true);
-      }
-    };
+  // Only show the loading animation on the initial load, for at least 1.2 seconds
+  useEffect(() => {
+    if (isDataLoading || !isLoading) return;
 
-    const startTime = Date.now();
-    fetchAllData();
-  }, []); // Only run on mount
+    const timeout = setTimeout(() => {
+      setIsLoading(false);
+      setTimeout(() => {
+        setShowContent(true);
+      }, 300);
+    }, Math.max(1200 - (Date.now() - mountedAt), 0));
+    return () => clearTimeout(timeout);
+  }, [isDataLoading, isLoading, mountedAt]);
 
-  // Remove the fetchSingleContributor effect since we load all data upfront
+  // Links to a month older than the loaded pages load pages until they reach it
   useEffect(() => {
-    const monthStart = startOfMonth(currentMonth);
-    const monthData = monthsData.find(
-      m => format(new Date(m.date), "yyyy-MM") === format(monthStart, "yyyy-MM")
-    );
-    setCurrentMonthData(monthData || null);
-  }, [currentMonth, monthsData]);
+    const oldestMonth = months[months.length - 1]?.month;
+    if (oldestMonth && currentMonthKey < oldestMonth && hasOlderMonths && !isFetchingOlderMonths) {
+      fetchOlderMonths();
+    }
+  }, [months, currentMonthKey, hasOlderMonths, isFetchingOlderMonths, fetchOlderMonths]);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape' && contributorId) {
-        const dashboardMonthStr = format(dashboardMonth, "MMMM-yyyy").toLowerCase();
-        if (format(dashboardMonth, "yyyy-MM") !== format(new Date(), "yyyy-MM")) {
-          navigate(`/${dashboardMonthStr}`);
-        } else {
-          navigate('/');
-        }
+        navigate(dashboardPath(dashboardMonth));
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [contributorId, navigate, dashboardMonth]);
+  }, [contributorId, navigate, dashboardMonth, dashboardPath]);
 
   const handleMonthChange = (newMonth: Date) => {
     const monthString = format(newMonth, "MMMM-yyyy").toLowerCase();
     if (contributorId) {
       setContributorMonth(newMonth);
-      navigate(`/contributor/${contributorId}/${monthString}`);
+      navigate(teamPath(`/contributor/${contributorId}/${monthString}`));
     } else {
       setDashboardMonth(newMonth);
-      if (format(newMonth, "yyyy-MM") !== format(new Date(), "yyyy-MM")) {
-        navigate(`/${monthString}`);
-      } else {
-        navigate('/');
-      }
+      navigate(dashboardPath(newMonth));
     }
   };
 
-  // Update handlePreviousMonth and handleNextMonth
+  // Keep the dashboard month when switching teams
+  const handleTeamChange = (team: Team) => {
+    navigate(dashboardPath(dashboardMonth, team));
+  };
+
   const handlePreviousMonth = () => {
     const currentIndex = availableMonths.findIndex(
-      m => format(m, "yyyy-MM") === format(currentMonth, "yyyy-MM")
+      m => format(m, "yyyy-MM") === currentMonthKey
     );
     
     if (currentIndex < availableMonths.length - 1) {
       handleMonthChange(availableMonths[currentIndex + 1]);
+    } else if (hasOlderMonths) {
+      // At the oldest loaded month, load the next page first
+      fetchOlderMonths().then(({ data }) => {
+        const older = data?.pages.flat()[currentIndex + 1];
+        if (older) handleMonthChange(parse(older.month, 'yyyy-MM', new Date()));
+      });
     }
   };
 
   const handleNextMonth = () => {
     const currentIndex = availableMonths.findIndex(
-      m => format(m, "yyyy-MM") === format(currentMonth, "yyyy-MM")
+      m => format(m, "yyyy-MM") === currentMonthKey
     );
     
     if (currentIndex > 0) {
@@ -302,6 +243,14 @@ const Index = () => {
               <Header 
                 {...monthSelectorProps}
                 onMonthChange={handleMonthChange}
+                teams={teams}
+                selectedTeamId={selectedTeam?.id}
+                onTeamChange={handleTeamChange}
+                settingsPath={teamRole === 'ADMIN' ? teamPath('/settings') : undefined}
+                trendsPath={teamPath('/trends')}
+                onSignOut={signOut}
+                sprintStart={getSprintStart(selectedTeam?.sprintStartDate)}
+                onRangeChange={range => navigate(teamPath(getRangePath(range)))}
               />
               
               {isMobile && (
@@ -319,7 +268,7 @@ const Index = () => {
                   >
                     <LoadingSpinner />
                   </motion.div>
-                ) : showContent && currentMonthData ? (
+                ) : showContent && currentMonthSummary ? (
                   <motion.div 
                     key="content"
                   >
@@ -328,7 +277,15 @@ const Index = () => {
                       animate={{ opacity: 1 }}
                       transition={{ duration: 0.3 }}
                     >
-                      <OverallStats overall={currentMonthData.stats.overall} />
+                      <OverallStats overall={currentMonthSummary.overall} previous={previousMonthSummary?.overall} />
+                      <p className="text-xs text-muted-foreground mb-4">
+                        Scored with {formatScoringProfile(currentMonthSummary.scoringProfile)}
+                      </p>
+                      {isRestricted && (
+                        <p className="text-sm text-muted-foreground mb-4">
+                          You're seeing the team totals and your own stats. Ask a team admin or manager about the rest.
+                        </p>
+                      )}
                     </motion.div>
                     <motion.div 
                       className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4"
@@ -336,38 +293,49 @@ const Index = () => {
                       initial="hidden"
                       animate="show"
                     >
-                      {currentMonthData.stats.contributors && 
-                        Object.entries(currentMonthData.stats.contributors)
-                          .sort(([, a], [, b]) => {
-                            const scoreCompare = (b.contributionScore || 0) - (a.contributionScore || 0);
-                            if (scoreCompare === 0) {
-                              return a.login?.localeCompare(b.login || '') || 0;
-                            }
-                            return scoreCompare;
-                          })
-                          .map(([login, contributor], index) => (
-                            <ContributorCard
-                              key={login}
-                              contributor={{
-                                login: contributor.login || login,
-                                avatar_url: `https://avatars.githubusercontent.com/u/${contributor.githubUserId || login}`,
-                                totalCommits: contributor.totalCommits,
-                                totalPrs: contributor.totalPrs,
-                                mergedPrs: contributor.mergedPrs,
-                                activeRepositories: contributor.activeRepositories || [],
-                                linesOfCode: (contributor.linesAdded || 0) + (contributor.linesRemoved || 0),
-                                contributionScore: contributor.contributionScore || 0,
-                                rank: index + 1,
-                                lastActive: contributorRecords[contributor.githubUserId || login]?.updatedAt
-                              }}
-                              onClick={() => {
-                                setContributorMonth(dashboardMonth);
-                                navigate(`/contributor/${contributor.login || login}/${urlFormattedMonth}`);
-                              }}
-                            />
-                          ))
-                      }
+                      {leaderboard.map(entry => (
+                        <ContributorCard
+                          key={entry.githubUserId}
+                          contributor={{
+                            login: entry.login,
+                            avatar_url: `https://avatars.githubusercontent.com/u/${entry.githubUserId}`,
+                            totalCommits: entry.stats.totalCommits,
+                            totalPrs: entry.stats.totalPrs,
+                            mergedPrs: entry.stats.mergedPrs,
+                            activeRepositories: entry.stats.activeRepositories || [],
+                            linesOfCode: (entry.stats.linesAdded || 0) + (entry.stats.linesRemoved || 0),
+                            reviewsGiven: entry.stats.reviewsGiven || 0,
+                            contributionScore: entry.stats.contributionScore || 0,
+                            rank: entry.rank,
+                            previousRank: entry.previousRank,
+                            recentScores: entry.recentScores,
+                            lastActive: entry.lastActive ?? undefined
+                          }}
+                          onClick={() => {
+                            setContributorMonth(dashboardMonth);
+                            navigate(teamPath(`/contributor/${entry.login}/${urlFormattedMonth}`));
+                          }}
+                        />
+                      ))}
                     </motion.div>
+                    {hasMoreContributors && (
+                      <div className="flex justify-center mt-6">
+                        <Button
+                          variant="outline"
+                          disabled={isFetchingMoreContributors}
+                          onClick={() => fetchMoreContributors()}
+                        >
+                          {isFetchingMoreContributors ? "Loading..." : "Show more contributors"}
+                        </Button>
+                      </div>
+                    )}
+                    {monthRepositories.length > 0 && (
+                      <RepositoriesTable
+                        repositories={monthRepositories}
+                        reposById={reposById}
+                        onRepoSelect={githubRepoId => navigate(teamPath(`/repo/${githubRepoId}/${urlFormattedMonth}`))}
+                      />
+                    )}
                   </motion.div>
                 ) : null}
               </AnimatePresence>
@@ -382,30 +350,28 @@ const Index = () => {
             transition={{ duration: 0.2 }}
             className="max-w-7xl mx-auto"
           >
-            <ContributorDetail
-              login={contributorId}
-              currentMonth={contributorMonth}
-              monthData={currentMonthData}
-              onPreviousMonth={handlePreviousMonth}
-              onNextMonth={handleNextMonth}
-              availableMonths={availableMonths}
-              lastActive={(() => {
-                // Find the contributor record by matching githubLogin
-                const contributor = Object.values(contributorRecords).find(
-                  record => record.githubLogin === contributorId
-                );
-                return contributor?.updatedAt;
-              })()}
-              contributorRecords={contributorRecords}
-              onBack={() => {
-                const dashboardMonthStr = format(dashboardMonth, "MMMM-yyyy").toLowerCase();
-                if (format(dashboardMonth, "yyyy-MM") !== format(new Date(), "yyyy-MM")) {
-                  navigate(`/${dashboardMonthStr}`);
-                } else {
-                  navigate('/');
-                }
-              }}
-            />
+            {isRestricted && isOtherContributor ? (
+              <Card className="p-6 neo-blur max-w-md mx-auto text-center">
+                <p className="text-sm text-muted-foreground mb-6">
+                  You can only see your own details. The team totals are on the dashboard.
+                </p>
+                <Button variant="outline" onClick={() => navigate(dashboardPath(dashboardMonth))}>
+                  Back to the dashboard
+                </Button>
+              </Card>
+            ) : (
+              <ContributorDetail
+                login={contributorId}
+                teamId={selectedTeam?.id}
+                currentMonth={contributorMonth}
+                onPreviousMonth={handlePreviousMonth}
+                onNextMonth={handleNextMonth}
+                onMonthSelect={handleMonthChange}
+                availableMonths={availableMonths}
+                repoRecords={reposById}
+                onBack={() => navigate(dashboardPath(dashboardMonth))}
+              />
+            )}
           </motion.div>
         )}
       </AnimatePresence>
@@ -0,0 +1,159 @@
+import { useNavigate, useParams } from "react-router-dom";
+import { format, isFuture } from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { useTeams, useRangeStats } from "@/hooks/use-stats";
+import { canSeeTeamDetails, getTeamRole, useAuth } from "@/lib/auth";
+import { findTeamBySlug, getTeamSlug, type Team } from "@/lib/teams";
+import { formatScoringProfile } from "@/lib/scoring";
+import {
+  formatRange,
+  getRangePath,
+  getRangePeriod,
+  getSprintStart,
+  parseRangeParams,
+  RANGE_PERIOD_LABELS,
+  shiftRange,
+  type StatsRange,
+} from "@/lib/date-ranges";
+import { ContributorCard } from "@/components/ContributorCard";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { OverallStats } from "@/components/dashboard/OverallStats";
+import { RangePicker } from "@/components/dashboard/RangePicker";
+import { TeamSwitcher } from "@/components/dashboard/TeamSwitcher";
+import { Button } from "@/components/ui/button";
+
+// Stats for a week, sprint, quarter or any other range of days, built from the stored
+// commits and pull requests rather than the monthly rollups
+const RangeStats = () => {
+  const navigate = useNavigate();
+  const { team: teamSlug, from, to } = useParams();
+  const { memberships } = useAuth();
+  const { data: teams = [], isLoading: isTeamsLoading } = useTeams();
+
+  // Like the dashboard, unknown or missing team slugs fall back to the first team
+  const team = findTeamBySlug(teams, teamSlug) || teams[0];
+  const range = parseRangeParams(from, to);
+  const sprintStart = getSprintStart(team?.sprintStartDate);
+  const isRestricted = !!team && !canSeeTeamDetails(getTeamRole(memberships, team.id), team.engineerOnlyMode);
+
+  const { data: stats, isLoading, error } = useRangeStats(team?.id, range ? from : undefined, range ? to : undefined);
+
+  const teamPath = (path: string, target: Team | undefined = team) => target ? `/${getTeamSlug(target)}${path}` : path || '/';
+  const showRange = (newRange: StatsRange, target?: Team) => navigate(teamPath(getRangePath(newRange), target));
+
+  if (isTeamsLoading) {
+    return (
+      <div className="min-h-screen p-6 md:p-8 flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  const previousRange = range && shiftRange(range, -1, sprintStart);
+  const nextRange = range && shiftRange(range, 1, sprintStart);
+
+  return (
+    <div className="min-h-screen p-6 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex flex-col md:flex-row md:items-center gap-4 mb-8">
+          <div className="flex items-center">
+            <Button
+              variant="ghost"
+              onClick={() => navigate(teamPath(''))}
+              size="icon"
+              className="mr-1 hover:bg-white/10 cursor-pointer focus:ring-2 focus:ring-white/20"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <div className="ml-2">
+              <h1 className="text-3xl font-bold text-gradient">{range ? formatRange(range) : 'Date range'}</h1>
+              <p className="text-muted-foreground text-sm">
+                {range && `${RANGE_PERIOD_LABELS[getRangePeriod(range, sprintStart)]} · `}{team?.name}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2 md:ml-auto">
+            {teams.length > 1 && team && range && (
+              <TeamSwitcher
+                teams={teams}
+                selectedTeamId={team.id}
+                onTeamChange={newTeam => showRange(range, newTeam)}
+              />
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Previous range"
+              disabled={!previousRange}
+              onClick={() => previousRange && showRange(previousRange)}
+              className="hover:bg-white/10"
+            >
+              <ChevronLeft className="h-5 w-5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Next range"
+              disabled={!nextRange || isFuture(nextRange.from)}
+              onClick={() => nextRange && showRange(nextRange)}
+              className="hover:bg-white/10"
+            >
+              <ChevronRight className="h-5 w-5" />
+            </Button>
+            <RangePicker range={range} sprintStart={sprintStart} onRangeChange={newRange => showRange(newRange)} />
+          </div>
+        </div>
+
+        {!range ? (
+          <p className="text-muted-foreground">That isn't a valid range. Pick one with the calendar button.</p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner />
+          </div>
+        ) : error ? (
+          <p className="text-muted-foreground">{error.message || "Couldn't load the stats for this range."}</p>
+        ) : stats ? (
+          <>
+            <OverallStats overall={stats.overall} />
+            <p className="text-xs text-muted-foreground mb-4">
+              Scored with {formatScoringProfile(stats.scoringProfile)}
+            </p>
+            {isRestricted && (
+              <p className="text-sm text-muted-foreground mb-4">
+                You're seeing the team totals and your own stats. Ask a team admin or manager about the rest.
+              </p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+              {stats.contributors.map(entry => (
+                <ContributorCard
+                  key={entry.githubUserId}
+                  contributor={{
+                    login: entry.login,
+                    avatar_url: `https://avatars.githubusercontent.com/u/${entry.githubUserId}`,
+                    totalCommits: entry.stats.totalCommits,
+                    totalPrs: entry.stats.totalPrs,
+                    mergedPrs: entry.stats.mergedPrs,
+                    activeRepositories: entry.stats.activeRepositories || [],
+                    linesOfCode: (entry.stats.linesAdded || 0) + (entry.stats.linesRemoved || 0),
+                    reviewsGiven: entry.stats.reviewsGiven || 0,
+                    contributionScore: entry.stats.contributionScore || 0,
+                    rank: entry.rank,
+                    lastActive: entry.lastActive ?? undefined
+                  }}
+                  // Contributor pages are by month, so open the month the range ends in
+                  onClick={() => navigate(teamPath(`/contributor/${entry.login}/${format(range.to, "MMMM-yyyy").toLowerCase()}`))}
+                />
+              ))}
+            </div>
+            {stats.contributors.length === 0 && (
+              <p className="text-muted-foreground">No activity in this range.</p>
+            )}
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+export default RangeStats;
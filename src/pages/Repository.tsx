@@ -0,0 +1,278 @@
+import { addMonths, format, isFuture, isValid, parse, subMonths } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
+import { useNavigate, useParams } from "react-router-dom";
+import { ChevronLeft, ChevronRight, GitCommit, GitPullRequest } from "lucide-react";
+import { useMonthRepositories, useRepoActivity, useRepoContributors, useRepos, useTeams } from "@/hooks/use-stats";
+import { canSeeTeamDetails, getTeamRole, useAuth } from "@/lib/auth";
+import { findTeamBySlug, getTeamSlug, type Team } from "@/lib/teams";
+import type { MonthRepository } from "@/lib/stats-api";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { OverallStats } from "@/components/dashboard/OverallStats";
+import { TeamSwitcher } from "@/components/dashboard/TeamSwitcher";
+import { Avatar } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const formatTimestamp = (timestamp: string | null) => timestamp
+  ? formatInTimeZone(new Date(timestamp + 'Z'), 'America/New_York', 'MMM d, h:mm a \'EST\'') // Stored as UTC
+  : 'Unknown';
+
+// OverallStats takes the team's field names
+const toOverall = (repository?: MonthRepository) => repository && {
+  ...repository.stats,
+  totalCommits: repository.stats.commits,
+};
+
+// A repository's month: its totals, who worked in it and its latest commits and pull requests
+const Repository = () => {
+  const navigate = useNavigate();
+  const { team: teamSlug, githubRepoId, month: monthParam } = useParams();
+  const { memberships } = useAuth();
+  const { data: teams = [], isLoading: isTeamsLoading } = useTeams();
+
+  // Like the dashboard, unknown or missing team slugs fall back to the first team
+  const team = findTeamBySlug(teams, teamSlug) || teams[0];
+  const isRestricted = !!team && !canSeeTeamDetails(getTeamRole(memberships, team.id), team.engineerOnlyMode);
+
+  const parsedMonth = monthParam ? parse(monthParam, 'MMMM-yyyy', new Date()) : null;
+  const month = parsedMonth && isValid(parsedMonth) ? parsedMonth : null;
+  const monthKey = month ? format(month, 'yyyy-MM') : undefined;
+  const previousMonthKey = month ? format(subMonths(month, 1), 'yyyy-MM') : undefined;
+
+  const { reposById, isLoading: isReposLoading } = useRepos(team?.id);
+  const repo = githubRepoId ? reposById[githubRepoId] : undefined;
+  const { data: repositories = [], isLoading: isRepositoriesLoading } = useMonthRepositories(team?.id, monthKey);
+  const { data: previousRepositories = [] } = useMonthRepositories(team?.id, previousMonthKey);
+  const { data: contributors = [], isLoading: isContributorsLoading } = useRepoContributors(team?.id, githubRepoId, monthKey);
+  const { data: activity, isLoading: isActivityLoading } = useRepoActivity(repo?.id, monthKey);
+
+  const repository = repositories.find(entry => entry.githubRepoId === githubRepoId);
+  const previousRepository = previousRepositories.find(entry => entry.githubRepoId === githubRepoId);
+  const name = repo?.name || repository?.stats.name || githubRepoId;
+
+  const teamPath = (path: string, target: Team | undefined = team) => target ? `/${getTeamSlug(target)}${path}` : path || '/';
+  const monthPath = (date: Date) => format(date, 'MMMM-yyyy').toLowerCase();
+  const showMonth = (date: Date, target?: Team) => navigate(teamPath(`/repo/${githubRepoId}/${monthPath(date)}`, target));
+  // The dashboard leaves the current month out of its URLs
+  const dashboardPath = month && format(month, 'yyyy-MM') !== format(new Date(), 'yyyy-MM')
+    ? teamPath(`/${monthPath(month)}`)
+    : teamPath('');
+
+  if (isTeamsLoading || isReposLoading) {
+    return (
+      <div className="min-h-screen p-6 md:p-8 flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-6 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex flex-col md:flex-row md:items-center gap-4 mb-8">
+          <div className="flex items-center">
+            <Button
+              variant="ghost"
+              onClick={() => navigate(dashboardPath)}
+              size="icon"
+              className="mr-1 hover:bg-white/10 cursor-pointer focus:ring-2 focus:ring-white/20"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <div className="ml-2">
+              <h1 className="text-3xl font-bold text-gradient">
+                {name}
+                {repo?.deletedAt ? ' (deleted)' : repo?.archived ? ' (archived)' : ''}
+              </h1>
+              <p className="text-muted-foreground text-sm">
+                {month && `${format(month, 'MMMM yyyy')} · `}{team?.name}
+                {repo?.previousNames?.length ? ` · Previously ${repo.previousNames.join(', ')}` : ''}
+              </p>
+            </div>
+          </div>
+
+          {month && (
+            <div className="flex items-center gap-2 md:ml-auto">
+              {teams.length > 1 && team && (
+                <TeamSwitcher
+                  teams={teams}
+                  selectedTeamId={team.id}
+                  onTeamChange={newTeam => navigate(teamPath(`/${monthPath(month)}`, newTeam))}
+                />
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Previous month"
+                onClick={() => showMonth(subMonths(month, 1))}
+                className="hover:bg-white/10"
+              >
+                <ChevronLeft className="h-5 w-5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Next month"
+                disabled={isFuture(addMonths(month, 1))}
+                onClick={() => showMonth(addMonths(month, 1))}
+                className="hover:bg-white/10"
+              >
+                <ChevronRight className="h-5 w-5" />
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {!month ? (
+          <p className="text-muted-foreground">That isn't a valid month.</p>
+        ) : isRepositoriesLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner />
+          </div>
+        ) : !repository ? (
+          <p className="text-muted-foreground">No activity in this repository in {format(month, 'MMMM yyyy')}.</p>
+        ) : (
+          <>
+            <OverallStats overall={toOverall(repository)} previous={toOverall(previousRepository)} />
+            {isRestricted && (
+              <p className="text-sm text-muted-foreground mb-4">
+                You're seeing the repository totals and your own activity. Ask a team admin or manager about the rest.
+              </p>
+            )}
+
+            <Card className="p-4 md:p-6 glass-morphism mb-6">
+              <h2 className="text-lg font-semibold mb-4">Contributors</h2>
+              {isContributorsLoading ? (
+                <LoadingSpinner />
+              ) : contributors.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No commits or pull requests this month.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Contributor</TableHead>
+                      <TableHead className="text-right">Commits</TableHead>
+                      <TableHead className="text-right">PRs</TableHead>
+                      <TableHead className="text-right">Merged PRs</TableHead>
+                      <TableHead className="text-right">Lines</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {contributors.map(contributor => (
+                      <TableRow
+                        key={contributor.githubUserId}
+                        className="cursor-pointer"
+                        onClick={() => navigate(teamPath(`/contributor/${contributor.login}/${monthPath(month)}`))}
+                      >
+                        <TableCell>
+                          <div className="flex items-center gap-3">
+                            <Avatar className="w-8 h-8 border border-primary/20">
+                              <img
+                                src={contributor.avatarUrl || `https://avatars.githubusercontent.com/u/${contributor.githubUserId}`}
+                                alt={contributor.login}
+                                className="object-cover"
+                              />
+                            </Avatar>
+                            <span className="font-medium">{contributor.login}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{contributor.commits}</TableCell>
+                        <TableCell className="text-right">{contributor.totalPrs}</TableCell>
+                        <TableCell className="text-right">{contributor.mergedPrs}</TableCell>
+                        <TableCell className="text-right">
+                          <span className="text-emerald-400">+{contributor.linesAdded.toLocaleString()}</span>{' '}
+                          <span className="text-red-400">-{contributor.linesRemoved.toLocaleString()}</span>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <Card className="p-4 md:p-6 glass-morphism">
+                <h2 className="text-lg font-semibold mb-4">Latest commits</h2>
+                {isActivityLoading ? (
+                  <LoadingSpinner />
+                ) : !activity?.commits.length ? (
+                  <p className="text-sm text-muted-foreground">No commits this month.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {activity.commits.map(commit => (
+                      <Card key={commit.id} className="neo-blur p-3 flex gap-3">
+                        <GitCommit className="h-4 w-4 mt-1 text-muted-foreground shrink-0" />
+                        <div className="min-w-0 flex-1">
+                          {commit.url ? (
+                            <a
+                              href={commit.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-medium truncate block hover:text-primary transition-colors"
+                            >
+                              {commit.message.split('\n')[0]}
+                            </a>
+                          ) : (
+                            <p className="font-medium truncate">{commit.message.split('\n')[0]}</p>
+                          )}
+                          <p className="text-xs text-muted-foreground">
+                            {commit.author?.githubLogin || 'Unknown'} · {formatTimestamp(commit.committedAt)}
+                          </p>
+                        </div>
+                        <div className="text-sm font-bold whitespace-nowrap shrink-0">
+                          <span className="text-emerald-400">+{commit.linesAdded.toLocaleString()}</span>{' '}
+                          <span className="text-red-400">-{commit.linesDeleted.toLocaleString()}</span>
+                        </div>
+                      </Card>
+                    ))}
+                  </div>
+                )}
+              </Card>
+
+              <Card className="p-4 md:p-6 glass-morphism">
+                <h2 className="text-lg font-semibold mb-4">Latest pull requests</h2>
+                {isActivityLoading ? (
+                  <LoadingSpinner />
+                ) : !activity?.pullRequests.length ? (
+                  <p className="text-sm text-muted-foreground">No pull requests opened or merged this month.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {activity.pullRequests.map(pr => (
+                      <Card key={pr.id} className="neo-blur p-3 flex gap-3">
+                        <GitPullRequest className="h-4 w-4 mt-1 text-muted-foreground shrink-0" />
+                        <div className="min-w-0 flex-1">
+                          {pr.url ? (
+                            <a
+                              href={pr.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-medium truncate block hover:text-primary transition-colors"
+                            >
+                              {pr.title}
+                            </a>
+                          ) : (
+                            <p className="font-medium truncate">{pr.title}</p>
+                          )}
+                          <p className="text-xs text-muted-foreground">
+                            {pr.author?.githubLogin || 'Unknown'} · {formatTimestamp(pr.mergedAt || pr.openedAt)}
+                          </p>
+                        </div>
+                        <Badge variant="secondary" className="neo-blur shrink-0 self-start capitalize">
+                          {pr.status.toLowerCase()}
+                        </Badge>
+                      </Card>
+                    ))}
+                  </div>
+                )}
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Repository;
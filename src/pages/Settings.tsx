@@ -0,0 +1,77 @@
+import { useNavigate, useParams } from "react-router-dom";
+import { ChevronLeft, Users } from "lucide-react";
+import { useTeams } from "@/hooks/use-stats";
+import { findTeamBySlug, getTeamSlug } from "@/lib/teams";
+import { Button } from "@/components/ui/button";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { AuthorRulesSettings } from "@/components/settings/AuthorRulesSettings";
+import { LocFilterSettings } from "@/components/settings/LocFilterSettings";
+import { ScoringProfileSettings } from "@/components/settings/ScoringProfileSettings";
+import { ScoringComparison } from "@/components/settings/ScoringComparison";
+import { CursorUsageImport } from "@/components/settings/CursorUsageImport";
+import { TeamAccessSettings } from "@/components/settings/TeamAccessSettings";
+import { SprintSettings } from "@/components/settings/SprintSettings";
+import { getTeamRole, useAuth } from "@/lib/auth";
+
+const Settings = () => {
+  const navigate = useNavigate();
+  const { team: teamSlug } = useParams();
+  const { memberships } = useAuth();
+
+  const { data: teams = [], isLoading } = useTeams();
+
+  // Like the dashboard, unknown or missing team slugs fall back to the first team
+  const team = findTeamBySlug(teams, teamSlug) || teams[0];
+  const isAdmin = getTeamRole(memberships, team?.id) === 'ADMIN';
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen p-6 md:p-8 flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-6 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center mb-8">
+          <Button
+            variant="ghost"
+            onClick={() => navigate(team ? `/${getTeamSlug(team)}` : '/')}
+            size="icon"
+            className="mr-1 hover:bg-white/10 cursor-pointer focus:ring-2 focus:ring-white/20"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <div className="ml-2">
+            <h1 className="text-3xl font-bold text-gradient">Settings</h1>
+            {team && <p className="text-muted-foreground text-sm">{team.name}</p>}
+          </div>
+          <Button variant="outline" className="ml-auto" disabled={!isAdmin} onClick={() => navigate('/admin/contributors')}>
+            <Users className="h-4 w-4 mr-2" />
+            Contributors
+          </Button>
+        </div>
+
+        {team && !isAdmin ? (
+          <p className="text-muted-foreground">Only team admins can change {team.name}'s settings.</p>
+        ) : team ? (
+          <div className="space-y-8">
+            <TeamAccessSettings team={team} />
+            <AuthorRulesSettings teamId={team.id} />
+            <ScoringProfileSettings teamId={team.id} />
+            <ScoringComparison teamId={team.id} />
+            <LocFilterSettings teamId={team.id} />
+            <SprintSettings team={team} />
+            <CursorUsageImport teamId={team.id} />
+          </div>
+        ) : (
+          <p className="text-muted-foreground">No teams yet. Run the sync script or set up the webhook first.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,213 @@
+import { useMemo } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { format, parse } from "date-fns";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChevronLeft } from "lucide-react";
+import { useRepos, useTeams, useTeamTrends } from "@/hooks/use-stats";
+import { findTeamBySlug, getTeamSlug } from "@/lib/teams";
+import type { RepoMonthStats, RepoRecord, TrendMonth } from "@/lib/stats-api";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { TeamSwitcher } from "@/components/dashboard/TeamSwitcher";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+
+// The busiest repositories get their own series; the rest are added up as "Other"
+const MAX_REPO_SERIES = 6;
+const REPO_COLORS = [
+  "hsl(217 91% 60%)",
+  "hsl(160 84% 39%)",
+  "hsl(38 92% 50%)",
+  "hsl(330 81% 60%)",
+  "hsl(262 83% 58%)",
+  "hsl(190 90% 50%)",
+];
+
+const REPO_METRICS = {
+  commits: { title: 'Commits', value: (repo: RepoMonthStats) => repo.commits || 0 },
+  mergedPrs: { title: 'Merged pull requests', value: (repo: RepoMonthStats) => repo.mergedPrs || 0 },
+  linesChanged: {
+    title: 'Lines changed',
+    value: (repo: RepoMonthStats) => (repo.linesAdded || 0) + (repo.linesRemoved || 0),
+  },
+} as const;
+
+type RepoMetric = keyof typeof REPO_METRICS;
+
+const scoreConfig = {
+  averageContributionScore: {
+    label: "Average score",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const formatMonth = (month: string) => format(parse(month, 'yyyy-MM', new Date()), 'MMM yy');
+
+// One row per month with a column per top repository, plus the chart config naming them.
+// Series keys are positional since repository ids aren't valid CSS variable names.
+function stackByRepo(trends: TrendMonth[], metric: RepoMetric, reposById: Record<string, RepoRecord>) {
+  const { value } = REPO_METRICS[metric];
+  const totals = new Map<string, number>();
+  const names = new Map<string, string>();
+  for (const month of trends) {
+    for (const [githubRepoId, repo] of Object.entries(month.repositories)) {
+      totals.set(githubRepoId, (totals.get(githubRepoId) || 0) + value(repo));
+      names.set(githubRepoId, repo.name);
+    }
+  }
+
+  const activeRepos = [...totals.entries()]
+    .filter(([, total]) => total > 0)
+    .sort(([, a], [, b]) => b - a)
+    .map(([githubRepoId]) => githubRepoId);
+  const topRepos = activeRepos.slice(0, MAX_REPO_SERIES);
+  const hasOther = activeRepos.length > topRepos.length;
+
+  const config: ChartConfig = {};
+  topRepos.forEach((githubRepoId, index) => {
+    // Current names, so renamed repositories show up under one name
+    config[`repo${index}`] = {
+      label: reposById[githubRepoId]?.name || names.get(githubRepoId) || githubRepoId,
+      color: REPO_COLORS[index],
+    };
+  });
+  if (hasOther) {
+    config.other = { label: "Other", color: "hsl(var(--muted-foreground))" };
+  }
+
+  const data = trends.map(month => {
+    const row: Record<string, string | number> = { month: formatMonth(month.month), other: 0 };
+    topRepos.forEach((_, index) => {
+      row[`repo${index}`] = 0;
+    });
+    for (const [githubRepoId, repo] of Object.entries(month.repositories)) {
+      const index = topRepos.indexOf(githubRepoId);
+      const key = index === -1 ? 'other' : `repo${index}`;
+      row[key] = (row[key] as number) + value(repo);
+    }
+    return row;
+  });
+
+  return { data, config };
+}
+
+const Trends = () => {
+  const navigate = useNavigate();
+  const { team: teamSlug } = useParams();
+  const { data: teams = [], isLoading: isTeamsLoading } = useTeams();
+
+  // Like the dashboard, unknown or missing team slugs fall back to the first team
+  const team = findTeamBySlug(teams, teamSlug) || teams[0];
+  const { data: trends = [], isLoading: isTrendsLoading } = useTeamTrends(team?.id);
+  const { reposById } = useRepos(team?.id);
+
+  const repoCharts = useMemo(
+    () => (Object.keys(REPO_METRICS) as RepoMetric[]).map(metric => ({
+      metric,
+      ...stackByRepo(trends, metric, reposById),
+    })),
+    [trends, reposById]
+  );
+  const scoreData = useMemo(
+    () => trends.map(month => ({
+      month: formatMonth(month.month),
+      averageContributionScore: month.overall?.averageContributionScore || 0,
+    })),
+    [trends]
+  );
+
+  if (isTeamsLoading || isTrendsLoading) {
+    return (
+      <div className="min-h-screen p-6 md:p-8 flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-6 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex flex-col md:flex-row md:items-center gap-4 mb-8">
+          <div className="flex items-center">
+            <Button
+              variant="ghost"
+              onClick={() => navigate(team ? `/${getTeamSlug(team)}` : '/')}
+              size="icon"
+              className="mr-1 hover:bg-white/10 cursor-pointer focus:ring-2 focus:ring-white/20"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <div className="ml-2">
+              <h1 className="text-3xl font-bold text-gradient">Trends</h1>
+              {team && <p className="text-muted-foreground text-sm">{team.name}, every month on record</p>}
+            </div>
+          </div>
+          {teams.length > 1 && team && (
+            <div className="md:ml-auto">
+              <TeamSwitcher
+                teams={teams}
+                selectedTeamId={team.id}
+                onTeamChange={newTeam => navigate(`/${getTeamSlug(newTeam)}/trends`)}
+              />
+            </div>
+          )}
+        </div>
+
+        {trends.length === 0 ? (
+          <p className="text-muted-foreground">No months yet. Run the sync script or set up the webhook first.</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {repoCharts.map(({ metric, data, config }) => (
+              <Card key={metric} className="p-4 md:p-6 glass-morphism">
+                <h2 className="text-lg font-semibold mb-4">{REPO_METRICS[metric].title}</h2>
+                <ChartContainer config={config} className="aspect-auto h-72 w-full">
+                  <BarChart data={data}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(value: number) => value.toLocaleString()} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {Object.keys(config).map(key => (
+                      <Bar key={key} dataKey={key} stackId="repos" fill={`var(--color-${key})`} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              </Card>
+            ))}
+
+            <Card className="p-4 md:p-6 glass-morphism">
+              <h2 className="text-lg font-semibold mb-4">Average contribution score</h2>
+              <ChartContainer config={scoreConfig} className="aspect-auto h-72 w-full">
+                <LineChart data={scoreData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={48} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line
+                    dataKey="averageContributionScore"
+                    type="monotone"
+                    stroke="var(--color-averageContributionScore)"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </LineChart>
+              </ChartContainer>
+              <p className="text-xs text-muted-foreground mt-2">
+                Scores are relative to each month's team, and months may use different scoring profiles.
+              </p>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Trends;
@@ -0,0 +1,115 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import {
+  calculateContributorScores,
+  createNormalizer,
+  NORMALIZATION_STRATEGIES,
+  SCORE_WEIGHTS
+} from '../scripts/utils/calculate-scores';
+import type { NormalizationStrategy, ScoreInput, ScoreMetric } from '../scripts/utils/calculate-scores';
+
+const readFixture = <T>(name: string): T =>
+  JSON.parse(readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8'));
+
+// A month with a heavy contributor, a middling one, a reviewer and someone with no activity
+const team = readFixture<ScoreInput[]>('team-month.json');
+
+// Scores and normalized metrics for team-month.json under each strategy, keyed by login
+const golden = readFixture<Record<NormalizationStrategy, Record<string, {
+  score: number;
+  normalized: Record<ScoreMetric, number>;
+}>>>('team-month-scores.json');
+
+const contributor = (githubUserId: string, counts: Partial<ScoreInput> = {}): ScoreInput => ({
+  githubUserId,
+  login: `user-${githubUserId}`,
+  linesAdded: 0,
+  linesRemoved: 0,
+  mergedPrs: 0,
+  totalCommits: 0,
+  ...counts
+});
+
+describe('createNormalizer', () => {
+  const values = [0, 2, 4, 8];
+
+  it.each([
+    ['MAX', [0, 0.25, 0.5, 1]],
+    ['PERCENTILE', [0, 0.5, 0.75, 1]],
+    ['LOG', [0, 0.5, Math.log(5) / Math.log(9), 1]],
+    // Mean 3.5, standard deviation √8.75
+    ['ZSCORE', [0, 0.3732, 0.5423, 0.8803]]
+  ] as [NormalizationStrategy, number[]][])('scales values with %s', (strategy, expected) => {
+    const normalize = createNormalizer(values, strategy);
+    values.forEach((value, index) => expect(normalize(value)).toBeCloseTo(expected[index], 4));
+  });
+
+  it('defaults to MAX', () => {
+    expect(createNormalizer(values)(2)).toBe(0.25);
+  });
+
+  it.each(NORMALIZATION_STRATEGIES)('gives 0 to everyone with %s when nobody has any', strategy => {
+    const normalize = createNormalizer([0, 0, 0], strategy);
+    expect(normalize(0)).toBe(0);
+  });
+
+  it.each(NORMALIZATION_STRATEGIES)('gives 1 to a lone contributor with %s', strategy => {
+    expect(createNormalizer([7], strategy)(7)).toBe(1);
+  });
+
+  it('gives ZSCORE 1 to everyone when the values are all the same', () => {
+    const normalize = createNormalizer([5, 5, 5], 'ZSCORE');
+    expect(normalize(5)).toBe(1);
+  });
+
+  it('caps ZSCORE at two standard deviations', () => {
+    // Mean 10, standard deviation 30: 100 is three deviations above
+    const normalize = createNormalizer([0, 0, 0, 0, 0, 0, 0, 0, 0, 100], 'ZSCORE');
+    expect(normalize(100)).toBe(1);
+  });
+});
+
+describe('calculateContributorScores', () => {
+  it.each(NORMALIZATION_STRATEGIES)('matches the golden scores with %s', strategy => {
+    const scores = calculateContributorScores(team, SCORE_WEIGHTS, strategy);
+
+    for (const stats of team) {
+      const expected = golden[strategy][stats.login];
+      const { score, login, breakdown } = scores[stats.githubUserId];
+      expect(login).toBe(stats.login);
+      expect(score).toBe(expected.score);
+      for (const [metric, normalized] of Object.entries(expected.normalized)) {
+        expect(breakdown[metric as ScoreMetric].normalized).toBeCloseTo(normalized, 4);
+      }
+    }
+  });
+
+  it('records each metric in the breakdown', () => {
+    const { breakdown } = calculateContributorScores(team)['1002'];
+    expect(breakdown.loc).toMatchObject({ value: 1000, teamMax: 5000, normalized: 0.2, weight: 0.4 });
+    expect(breakdown.loc.points).toBeCloseTo(8);
+    expect(breakdown.tabs.teamMax).toBe(900);
+  });
+
+  it.each(NORMALIZATION_STRATEGIES)('scores everyone 0 with %s when nobody did anything', strategy => {
+    const scores = calculateContributorScores([contributor('1'), contributor('2')], SCORE_WEIGHTS, strategy);
+    expect(scores['1'].score).toBe(0);
+    expect(scores['2'].score).toBe(0);
+  });
+
+  it.each(NORMALIZATION_STRATEGIES)('gives a lone contributor full marks with %s', strategy => {
+    const scores = calculateContributorScores([team[0]], SCORE_WEIGHTS, strategy);
+    expect(scores['1001'].score).toBe(100);
+  });
+
+  it('gives everyone full marks with ZSCORE when they all did the same', () => {
+    const counts = { linesAdded: 50, mergedPrs: 2, totalCommits: 4, reviewsGiven: 3, reviewCommentsWritten: 1, tabs: 10, premiumRequests: 5 };
+    const scores = calculateContributorScores([contributor('1', counts), contributor('2', counts)], SCORE_WEIGHTS, 'ZSCORE');
+    expect(scores['1'].score).toBe(100);
+    expect(scores['2'].score).toBe(100);
+  });
+
+  it('returns no scores for an empty month', () => {
+    expect(calculateContributorScores([])).toEqual({});
+  });
+});
@@ -0,0 +1,84 @@
+import { createHmac } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { handleWebhook } from '../functions/github-webhook';
+import type { Env } from '../functions/github-webhook';
+
+// A ping is verified but not stored, so these requests never reach Supabase
+const payload = readFileSync(new URL('./fixtures/ping.json', import.meta.url), 'utf8');
+
+const env: Env = {
+  GITHUB_WEBHOOK_SECRET: 'current-secret',
+  GITHUB_KEY: 'github-key',
+  PUBLIC_SUPABASE_URL: 'http://localhost:54321',
+  SUPABASE_SERVICE_ROLE_KEY: 'service-role-key'
+};
+
+const sign = (body: string, secret: string) =>
+  `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+const deliver = (signature: string | null, secrets = env.GITHUB_WEBHOOK_SECRET) => {
+  const headers: Record<string, string> = {
+    'content-type': 'application/json',
+    'x-github-event': 'ping',
+    'x-github-delivery': '72d3162e-cc78-11e3-81ab-4c9367dc0958'
+  };
+  if (signature !== null) headers['x-hub-signature-256'] = signature;
+
+  return handleWebhook(
+    new Request('http://localhost/github-webhook', { method: 'POST', headers, body: payload }),
+    { ...env, GITHUB_WEBHOOK_SECRET: secrets }
+  );
+};
+
+describe('webhook signature verification', () => {
+  // The worker logs every payload it receives
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('accepts a delivery signed with the secret', async () => {
+    const response = await deliver(sign(payload, 'current-secret'));
+    expect(response.status).toBe(200);
+  });
+
+  it('accepts an upper-case digest', async () => {
+    const response = await deliver(sign(payload, 'current-secret').toUpperCase().replace('SHA256=', 'sha256='));
+    expect(response.status).toBe(200);
+  });
+
+  it('accepts a delivery signed with either secret while rotating', async () => {
+    const secrets = 'new-secret, current-secret';
+    expect((await deliver(sign(payload, 'new-secret'), secrets)).status).toBe(200);
+    expect((await deliver(sign(payload, 'current-secret'), secrets)).status).toBe(200);
+  });
+
+  it('rejects a delivery signed with a secret that has been rotated out', async () => {
+    const response = await deliver(sign(payload, 'current-secret'), 'new-secret');
+    expect(response.status).toBe(401);
+    expect(await response.text()).toBe('Invalid signature');
+  });
+
+  it('rejects a signature over a different payload', async () => {
+    const response = await deliver(sign(`${payload} `, 'current-secret'));
+    expect(response.status).toBe(401);
+    expect(await response.text()).toBe('Invalid signature');
+  });
+
+  it('rejects a delivery without a signature header', async () => {
+    const response = await deliver(null);
+    expect(response.status).toBe(401);
+    expect(await response.text()).toBe('Missing signature');
+  });
+
+  it.each([
+    ['a SHA-1 signature', `sha1=${createHmac('sha1', 'current-secret').update(payload).digest('hex')}`],
+    ['a digest without its prefix', sign(payload, 'current-secret').substring('sha256='.length)],
+    ['a truncated digest', sign(payload, 'current-secret').slice(0, -2)],
+    ['a digest that is not hex', `sha256=${'z'.repeat(64)}`]
+  ])('rejects %s', async (_name, signature) => {
+    const response = await deliver(signature);
+    expect(response.status).toBe(401);
+    expect(await response.text()).toBe('Invalid signature');
+  });
+});
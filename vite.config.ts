@@ -2,11 +2,39 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { handleWebhook } from './functions/github-webhook';
+import type { Env } from './functions/github-webhook';
+import { handleRequest as handleWebhookAdmin } from './functions/webhook-admin';
+import { handleRequest as handleRecomputeScores } from './functions/recompute-scores';
+import { handleRequest as handleImportCursorUsage } from './functions/import-cursor-usage';
+import { handleRequest as handleContributorAdmin } from './functions/contributor-admin';
+import { handleRequest as handleRangeStats } from './functions/range-stats';
 import { handleRequest as handleCalendly } from './functions/get-calendly-times';
 import { handleRequest as handleBooking } from './functions/book-calendly-time';
 import type { Connect } from 'vite';
 import type { ServerResponse } from 'http';
 
+// Serves a Pages Function that works on the database at `path`, whatever the query string
+function functionMiddleware(path: string, handleRequest: (request: Request, env: Env) => Promise<Response>) {
+  return {
+    name: path.substring(1),
+    handle: async (req: Connect.IncomingMessage, res: ServerResponse, next: Connect.NextFunction) => {
+      if (req.url?.split('?')[0] === path) {
+        const response = await handleRequest(req as unknown as Request, {
+          GITHUB_WEBHOOK_SECRET: process.env.GITHUB_WEBHOOK_SECRET || '',
+          GITHUB_KEY: process.env.GITHUB_KEY || '',
+          PUBLIC_SUPABASE_URL: process.env.PUBLIC_SUPABASE_URL || '',
+          SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+        });
+        res.statusCode = response.status;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(await response.text());
+        return;
+      }
+      next();
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -33,6 +61,11 @@ export default defineConfig(({ mode }) => ({
           next();
         },
       },
+      functionMiddleware('/webhook-admin', handleWebhookAdmin),
+      functionMiddleware('/recompute-scores', handleRecomputeScores),
+      functionMiddleware('/import-cursor-usage', handleImportCursorUsage),
+      functionMiddleware('/contributor-admin', handleContributorAdmin),
+      functionMiddleware('/range-stats', handleRangeStats),
       {
         name: 'get-calendly-times',
         handle: async (req: Connect.IncomingMessage, res: ServerResponse, next: Connect.NextFunction) => {